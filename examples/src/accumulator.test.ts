@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Checks the stream accumulator: assistant text without duplicated deltas,
+ * tool calls paired with their results, and the final run result of a streamed run.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { accumulateStream, CoderError, StreamAccumulator } from '@headless-coder-sdk/core';
+import type { RunView } from '@headless-coder-sdk/core';
+import { createHeadlessMock, resetMockSessions, type MockTurn } from '@headless-coder-sdk/mock-adapter';
+
+const TURN: MockTurn = {
+  events: [
+    { type: 'init', model: 'mock-model' },
+    { type: 'message', role: 'assistant', text: 'Checking', delta: true },
+    { type: 'message', role: 'assistant', text: ' the tests.', delta: true },
+    { type: 'message', role: 'assistant', text: 'Checking the tests.' },
+    { type: 'plan_update', text: '1. run tests\n2. fix failures' },
+    { type: 'tool_use', name: 'Bash', callId: 'call-1', args: { command: 'npm test' }, ts: 1_000 },
+    { type: 'tool_use', name: 'Read', callId: 'call-2', args: { file_path: 'src/a.ts' }, ts: 1_100 },
+    { type: 'tool_result', name: 'Read', callId: 'call-2', result: 'export const a = 1;', ts: 1_150 },
+    { type: 'tool_result', name: 'Bash', callId: 'call-1', result: '1 failing', exitCode: 1, ts: 2_000 },
+    { type: 'tool_use', name: 'Edit', args: { file_path: 'src/a.ts' }, ts: 2_100 },
+    { type: 'tool_result', name: 'Edit', result: 'ok', ts: 2_200 },
+    { type: 'file_change', path: 'src/a.ts', op: 'modify', patch: '-1\n+2' },
+    { type: 'file_change', path: 'src/a.ts', op: 'modify', patch: '-1\n+3' },
+    { type: 'message', role: 'assistant', text: 'Fixed', delta: true },
+    { type: 'usage', stats: { inputTokens: 40, outputTokens: 9 } },
+    { type: 'message', role: 'assistant', text: 'Fixed the failing test.' },
+    { type: 'done' },
+  ],
+};
+
+test('streamed runs fold into a live view and a run result', async () => {
+  resetMockSessions();
+  const thread = await createHeadlessMock({ script: { threadId: 'mock-session', turns: [TURN] } }).startThread();
+  const views: RunView[] = [];
+  const result = await accumulateStream(thread.runStreamed('fix the tests'), view => views.push(view));
+
+  assert.deepEqual(
+    views.slice(1, 4).map(view => view.text),
+    ['Checking', 'Checking the tests.', 'Checking the tests.'],
+  );
+  assert.equal(views.at(-4)?.text, 'Fixed');
+
+  const view = views.at(-1)!;
+  assert.equal(view.status, 'completed');
+  assert.equal(view.threadId, 'mock-session');
+  assert.deepEqual(view.messages, ['Checking the tests.', 'Fixed the failing test.']);
+  assert.equal(view.plan, '1. run tests\n2. fix failures');
+  assert.deepEqual(
+    view.toolCalls.map(call => [call.name, call.status, call.startedAt, call.endedAt]),
+    [
+      ['Bash', 'failed', 1_000, 2_000],
+      ['Read', 'succeeded', 1_100, 1_150],
+      ['Edit', 'succeeded', 2_100, 2_200],
+    ],
+  );
+  assert.deepEqual(view.toolCalls[0].args, { command: 'npm test' });
+  assert.deepEqual(
+    view.fileChanges.map(change => change.patch),
+    ['-1\n+3'],
+  );
+
+  assert.equal(result.text, 'Fixed the failing test.');
+  assert.equal(result.threadId, 'mock-session');
+  assert.deepEqual(result.usage, { inputTokens: 40, outputTokens: 9 });
+  assert.equal((result.raw as unknown[]).length, TURN.events.length);
+});
+
+test('failed streams reject like run()', () => {
+  const accumulator = new StreamAccumulator();
+  accumulator.push({ type: 'message', provider: 'mock', role: 'assistant', text: 'Partial', delta: true, ts: 1 });
+  accumulator.push({ type: 'cancelled', provider: 'mock', ts: 2 });
+  accumulator.push({ type: 'error', provider: 'mock', code: 'interrupted', message: 'Stopped by user', ts: 3 });
+
+  assert.equal(accumulator.view.status, 'cancelled');
+  assert.equal(accumulator.view.text, 'Partial');
+  assert.throws(
+    () => accumulator.toRunResult(),
+    (error: unknown) => error instanceof CoderError && error.code === 'interrupted' && error.provider === 'mock',
+  );
+});
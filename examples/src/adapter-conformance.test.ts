@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Runs the shared conformance suite from core against every built-in
+ * adapter, using replay cassettes and the mock adapter as stand-in backends.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertAdapterConformance, runAdapterConformance } from '@headless-coder-sdk/core';
+import type { AdapterFactory, HeadlessCoder, ThreadHandle } from '@headless-coder-sdk/core';
+import { createAdapter as createCodexAdapter } from '@headless-coder-sdk/codex-adapter';
+import { createAdapter as createClaudeAdapter } from '@headless-coder-sdk/claude-adapter';
+import { createAdapter as createGeminiAdapter } from '@headless-coder-sdk/gemini-adapter';
+import { createAdapter as createMockAdapter, resetMockSessions } from '@headless-coder-sdk/mock-adapter';
+import type { MockScript, MockStartOpts } from '@headless-coder-sdk/mock-adapter';
+import { writeCassette } from './test-helpers';
+
+const CODEX_EVENTS = [
+  { type: 'thread.started', thread_id: 'codex-thread-1' },
+  { type: 'turn.started' },
+  { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text: 'Codex says hi' } },
+  { type: 'turn.completed', usage: { input_tokens: 10, cached_input_tokens: 0, output_tokens: 3 } },
+];
+
+const CLAUDE_MESSAGES = [
+  { type: 'system', subtype: 'init', session_id: 'claude-session-1', model: 'claude-sonnet' },
+  {
+    type: 'stream_event',
+    session_id: 'claude-session-1',
+    event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Claude ' } },
+  },
+  { type: 'stream_event', session_id: 'claude-session-1', event: { type: 'message_stop' } },
+  {
+    type: 'stream_event',
+    session_id: 'claude-session-1',
+    event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'says hi' } },
+  },
+  { type: 'stream_event', session_id: 'claude-session-1', event: { type: 'message_stop' } },
+  {
+    type: 'result',
+    subtype: 'success',
+    session_id: 'claude-session-1',
+    result: 'Claude says hi',
+    usage: { input_tokens: 8, output_tokens: 4 },
+  },
+];
+
+const GEMINI_EVENTS = [
+  { type: 'init', session_id: 'gemini-session-1', model: 'gemini-2.5-pro' },
+  { type: 'message', role: 'assistant', content: 'Gemini says hi', delta: true },
+  { type: 'result', stats: { total_tokens: 12 } },
+];
+
+const MOCK_SCRIPT: MockScript = {
+  threadId: 'mock-session-1',
+  turns: Array.from({ length: 4 }, () => ({
+    events: [
+      { type: 'init' as const },
+      { type: 'message' as const, role: 'assistant' as const, text: 'Mock says hi' },
+      { type: 'delay' as const, ms: 5 },
+      { type: 'done' as const },
+    ],
+  })),
+};
+
+test('codex adapter passes conformance against a replay cassette', async () => {
+  const file = await writeCassette('conformance', [
+    { provider: 'codex', threadId: 'codex-thread-1', events: CODEX_EVENTS },
+  ]);
+  await assertAdapterConformance(createCodexAdapter, { startOpts: { cassette: { mode: 'replay', path: file } } });
+});
+
+test('claude adapter passes conformance against a replay cassette', async () => {
+  const file = await writeCassette('conformance', [
+    { provider: 'claude', threadId: 'claude-session-1', events: CLAUDE_MESSAGES },
+  ]);
+  await assertAdapterConformance(createClaudeAdapter, { startOpts: { cassette: { mode: 'replay', path: file } } });
+});
+
+test('gemini adapter passes conformance against a replay cassette', async () => {
+  const file = await writeCassette('conformance', [
+    { provider: 'gemini', threadId: 'gemini-session-1', events: GEMINI_EVENTS, output: { exitCode: 0 } },
+  ]);
+  await assertAdapterConformance(createGeminiAdapter, { startOpts: { cassette: { mode: 'replay', path: file } } });
+});
+
+test('mock adapter passes conformance', async () => {
+  resetMockSessions();
+  const startOpts: MockStartOpts = { script: MOCK_SCRIPT };
+  await assertAdapterConformance(createMockAdapter, { startOpts: () => startOpts });
+});
+
+test('conformance report flags adapters that break the contract', async () => {
+  const broken: AdapterFactory = () => {
+    const coder: HeadlessCoder = {
+      async startThread() {
+        const handle: ThreadHandle = {
+          provider: 'broken',
+          id: 'broken-thread',
+          internal: undefined,
+          async run() {
+            return { threadId: 'broken-thread', text: '' };
+          },
+          async *runStreamed() {
+            yield { type: 'done' as const, provider: 'broken', ts: Date.now() };
+            yield { type: 'done' as const, provider: 'broken', ts: Date.now() };
+          },
+        };
+        return handle;
+      },
+      async resumeThread(threadId) {
+        const handle = await coder.startThread();
+        handle.id = threadId;
+        return handle;
+      },
+      getThreadId: thread => thread.id,
+    };
+    return coder;
+  };
+  broken.coderName = 'broken';
+
+  const report = await runAdapterConformance(broken, { timeoutMs: 1000 });
+  assert.equal(report.adapter, 'broken');
+  assert.equal(report.passed, false);
+  const failed = report.checks.filter(check => !check.passed).map(check => check.name);
+  assert.deepEqual(failed, [
+    'runStreamed ends with exactly one terminal event',
+    'interrupt yields cancelled plus an interrupted error',
+    'concurrent runs on one thread are rejected',
+  ]);
+  await assert.rejects(assertAdapterConformance(broken, { timeoutMs: 1000 }), /failed conformance/);
+});
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Checks multimodal prompt content: staging of image attachments and their
+ * translation into Codex `local_image` input, Claude content blocks and Gemini `@path`
+ * references, and permission requests during a Claude run with attachments.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { chmod, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import { stageAttachments } from '@headless-coder-sdk/core';
+import type { PermissionRequest, PromptMessage } from '@headless-coder-sdk/core';
+import { toCodexInput } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME, toClaudeContent } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { createTempDir } from './test-helpers';
+
+ensureAdaptersRegistered();
+
+// 1x1 transparent PNG.
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+async function createWorkspace(): Promise<string> {
+  const dir = await createTempDir('attachments');
+  await writeFile(path.join(dir, 'screenshot.png'), Buffer.from(PIXEL, 'base64'));
+  await writeFile(path.join(dir, 'notes.md'), '# Repro steps', 'utf8');
+  return dir;
+}
+
+function briefing(): PromptMessage[] {
+  return [
+    { role: 'system', content: 'Fix UI bugs.' },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: 'The button overlaps the header.' },
+        { type: 'image', path: 'screenshot.png' },
+        { type: 'image', data: PIXEL, mediaType: 'image/png' },
+        { type: 'file', path: 'notes.md' },
+      ],
+    },
+  ];
+}
+
+test('codex receives staged images as local_image input', async () => {
+  const dir = await createWorkspace();
+  const attachments = stageAttachments(briefing(), dir);
+  const input = toCodexInput(attachments.input);
+  assert.ok(Array.isArray(input));
+  const [text, screenshot, pasted] = input;
+  assert.deepEqual(text, {
+    type: 'text',
+    text: `SYSTEM: Fix UI bugs.\nUSER: The button overlaps the header.\n[file: ${path.join(dir, 'notes.md')}]`,
+  });
+  assert.deepEqual(screenshot, { type: 'local_image', path: path.join(dir, 'screenshot.png') });
+  assert.equal(pasted.type, 'local_image');
+  const staged = pasted.type === 'local_image' ? pasted.path : '';
+  assert.match(staged, /image-1\.png$/);
+  assert.equal((await readFile(staged)).toString('base64'), PIXEL);
+
+  attachments.cleanup();
+  assert.ok(!existsSync(staged));
+  assert.equal(toCodexInput('plain text'), 'plain text');
+});
+
+test('claude receives images and files as content blocks', async () => {
+  const dir = await createWorkspace();
+  const image = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: PIXEL } };
+  assert.deepEqual(await toClaudeContent(briefing(), dir), [
+    { type: 'text', text: 'system: Fix UI bugs.' },
+    { type: 'text', text: 'user: The button overlaps the header.' },
+    image,
+    image,
+    {
+      type: 'document',
+      title: 'notes.md',
+      source: { type: 'text', media_type: 'text/plain', data: '# Repro steps' },
+    },
+  ]);
+  await assert.rejects(
+    toClaudeContent([{ role: 'user', content: [{ type: 'image', path: 'diagram.svg' }] }], dir),
+    /Unsupported image format for diagram\.svg/,
+  );
+});
+
+// Stands in for the Claude CLI: asks for permission once the prompt arrives and answers
+// with the decision, which needs stdin to stay open after the prompt.
+const FAKE_CLAUDE = `
+import readline from 'node:readline';
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n');
+const session = { session_id: 'claude-session' };
+let blocks = '';
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const message = JSON.parse(line);
+  if (message.type === 'control_request') {
+    send({ type: 'control_response', response: { subtype: 'success', request_id: message.request_id, response: {} } });
+  } else if (message.type === 'user') {
+    blocks = message.message.content.map(block => block.type).join(',');
+    send({ type: 'system', subtype: 'init', model: 'claude-fake', ...session });
+    send({
+      type: 'control_request',
+      request_id: 'permission-1',
+      request: { subtype: 'can_use_tool', tool_name: 'Bash', input: { command: 'ls' }, tool_use_id: 'toolu_1' },
+    });
+  } else if (message.type === 'control_response') {
+    const text = message.response.response.behavior + ' after ' + blocks;
+    send({ type: 'assistant', message: { content: [{ type: 'text', text }] }, ...session });
+    send({ type: 'result', subtype: 'success', is_error: false, result: text, usage: {}, ...session });
+  }
+});
+`;
+
+test('claude answers permission requests during runs with attachments', async () => {
+  const dir = await createWorkspace();
+  await writeFile(path.join(dir, 'fake-claude.mjs'), FAKE_CLAUDE, 'utf8');
+  // The SDK spawns `node` from PATH with its CLI as the first argument.
+  const shim = path.join(dir, 'node');
+  await writeFile(shim, `#!/bin/sh\nshift\nexec "${process.execPath}" "${path.join(dir, 'fake-claude.mjs')}" "$@"\n`);
+  await chmod(shim, 0o755);
+  const previous = process.env.PATH;
+  process.env.PATH = `${dir}${path.delimiter}${previous}`;
+  try {
+    const requests: PermissionRequest[] = [];
+    const thread = await createCoder(CLAUDE_CODER_NAME, {
+      workingDirectory: dir,
+      onPermissionRequest: request => {
+        requests.push(request);
+        return 'allow';
+      },
+    }).startThread();
+    const result = await thread.run([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is on screen?' },
+          { type: 'image', path: 'screenshot.png' },
+        ],
+      },
+    ]);
+    assert.equal(result.text, 'allow after text,image');
+    assert.deepEqual(
+      requests.map(request => [request.tool, request.args, request.callId]),
+      [['Bash', { command: 'ls' }, 'toolu_1']],
+    );
+  } finally {
+    process.env.PATH = previous;
+  }
+});
+
+test('gemini receives attachments as @path references', async () => {
+  const dir = await createWorkspace();
+  const binary = path.join(dir, 'fake-gemini.mjs');
+  await writeFile(
+    binary,
+    [
+      '#!/usr/bin/env node',
+      'const args = process.argv.slice(2);',
+      'console.log(JSON.stringify({ session_id: "gemini-session", response: JSON.stringify(args) }));',
+    ].join('\n'),
+    'utf8',
+  );
+  await chmod(binary, 0o755);
+  const thread = await createCoder(GEMINI_CODER_NAME, { workingDirectory: dir, geminiBinaryPath: binary })
+    .startThread();
+  const result = await thread.run(briefing());
+  const args: string[] = JSON.parse(result.text ?? '[]');
+  const prompt = args[args.indexOf('--prompt') + 1];
+  const staged = /@(\S+image-1\.png)/.exec(prompt)?.[1] ?? '';
+  assert.equal(
+    prompt,
+    [
+      'user: The button overlaps the header.',
+      `@${path.join(dir, 'screenshot.png')}`,
+      `@${staged}`,
+      `@${path.join(dir, 'notes.md')}`,
+    ].join('\n'),
+  );
+  const [stagedDirectory, contextDirectory] = args[args.indexOf('--include-directories') + 1].split(',');
+  assert.equal(stagedDirectory, path.dirname(staged));
+  assert.match(contextDirectory, /headless-coder-gemini-context-/);
+  assert.ok(!existsSync(staged));
+});
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Checks that run budgets interrupt runs with `budget_exceeded`, distinct
+ * from user interruption, across the mock and replayed provider adapters.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { BudgetExceededError, clearPrices, registerPrices } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+  type MockTurn,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+function assertBudgetStop(events: CoderStreamEvent[], limit: string): void {
+  const [cancelled, error] = events.slice(-2);
+  assert.equal(cancelled.type, 'cancelled');
+  assert.equal(error.type, 'error');
+  assert.equal(error.type === 'error' && error.code, 'budget_exceeded');
+  assert.equal(error.originalItem?.limit, limit);
+  assert.ok(!events.some(event => event.type === 'done'));
+}
+
+async function startMock(turns: MockTurn[]) {
+  resetMockSessions();
+  const startOpts: MockStartOpts = { script: { turns } };
+  return createCoder(MOCK_CODER_NAME, startOpts).startThread();
+}
+
+const TOOL_LOOP: MockTurn = {
+  events: [
+    { type: 'tool_use', name: 'shell', callId: 'call-1' },
+    { type: 'tool_use', name: 'shell', callId: 'call-2' },
+    { type: 'tool_use', name: 'shell', callId: 'call-3' },
+    { type: 'message', role: 'assistant', text: 'never reached' },
+  ],
+};
+
+test('tool call budget stops streams and runs', async () => {
+  const thread = await startMock([TOOL_LOOP, TOOL_LOOP]);
+
+  const events = await collect(thread.runStreamed('loop', { budget: { maxToolCalls: 2 } }));
+  assert.equal(events.filter(event => event.type === 'tool_use').length, 3);
+  assertBudgetStop(events, 'maxToolCalls');
+
+  await assert.rejects(thread.run('loop again', { budget: { maxToolCalls: 2 } }), (error: unknown) => {
+    assert.ok(error instanceof BudgetExceededError);
+    assert.equal(error.code, 'budget_exceeded');
+    assert.equal(error.limit, 'maxToolCalls');
+    assert.equal(error.actual, 3);
+    return true;
+  });
+});
+
+test('token, cost and duration budgets interrupt the run', async () => {
+  const usageTurn: MockTurn = {
+    events: [
+      { type: 'usage', stats: { inputTokens: 800, outputTokens: 400 } },
+      { type: 'message', role: 'assistant', text: 'too late' },
+    ],
+  };
+  const slowTurn: MockTurn = {
+    events: [
+      { type: 'delay', ms: 5_000 },
+      { type: 'message', role: 'assistant', text: 'too late' },
+    ],
+  };
+  const thread = await startMock([usageTurn, usageTurn, slowTurn]);
+
+  assertBudgetStop(await collect(thread.runStreamed('a', { budget: { maxTokens: 1_000 } })), 'maxTokens');
+
+  registerPrices({ [MOCK_CODER_NAME]: { inputPerMillion: 1_000, outputPerMillion: 1_000 } });
+  try {
+    assertBudgetStop(await collect(thread.runStreamed('b', { budget: { maxCostUsd: 1 } })), 'maxCostUsd');
+  } finally {
+    clearPrices();
+  }
+
+  const startedAt = Date.now();
+  assertBudgetStop(await collect(thread.runStreamed('c', { budget: { maxDurationMs: 50 } })), 'maxDurationMs');
+  assert.ok(Date.now() - startedAt < 2_000);
+});
+
+test('runs within budget and user interrupts are unaffected', async () => {
+  const thread = await startMock([
+    { events: [{ type: 'message', role: 'assistant', text: 'ok' }] },
+    { events: [{ type: 'delay', ms: 5_000 }] },
+  ]);
+  const result = await thread.run('fine', { budget: { maxToolCalls: 1, maxDurationMs: 1_000 } });
+  assert.equal(result.text, 'ok');
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort('user stop'), 10);
+  const events = await collect(thread.runStreamed('stop', { signal: controller.signal, budget: { maxTokens: 1 } }));
+  const last = events.at(-1);
+  assert.equal(last?.type === 'error' && last.code, 'interrupted');
+});
+
+test('provider adapters enforce tool call and token budgets', async () => {
+  const codexFile = await writeCassette('budget', [
+    {
+      provider: CODEX_CODER_NAME,
+      threadId: 'codex-budget',
+      events: [
+        { type: 'thread.started', thread_id: 'codex-budget' },
+        { type: 'item.completed', item: { id: 'item_0', type: 'command_execution', command: 'ls' } },
+        { type: 'item.completed', item: { id: 'item_1', type: 'command_execution', command: 'ls' } },
+        { type: 'turn.completed', usage: { input_tokens: 1, output_tokens: 1 } },
+      ],
+    },
+  ]);
+  const codex = await createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: codexFile } }).startThread();
+  assertBudgetStop(await collect(codex.runStreamed('loop', { budget: { maxToolCalls: 1 } })), 'maxToolCalls');
+
+  const geminiFile = await writeCassette('budget', [
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-budget',
+      events: [
+        { type: 'tool_use', tool_name: 'ls', tool_id: 't1' },
+        { type: 'tool_use', tool_name: 'ls', tool_id: 't2' },
+        { type: 'result', stats: {} },
+      ],
+      output: { exitCode: 0 },
+    },
+  ]);
+  const gemini = await createCoder(GEMINI_CODER_NAME, { cassette: { mode: 'replay', path: geminiFile } }).startThread();
+  assertBudgetStop(await collect(gemini.runStreamed('loop', { budget: { maxToolCalls: 1 } })), 'maxToolCalls');
+
+  // The Claude SDK repeats an API message (and its usage) once per content block.
+  const apiMessage = (content: unknown[]) => ({
+    id: 'msg_1',
+    content,
+    usage: { input_tokens: 600, output_tokens: 100 },
+  });
+  const claudeFile = await writeCassette('budget', [
+    {
+      provider: CLAUDE_CODER_NAME,
+      threadId: 'claude-budget',
+      events: [
+        { type: 'assistant', session_id: 'claude-budget', message: apiMessage([{ type: 'text', text: 'a' }]) },
+        { type: 'assistant', session_id: 'claude-budget', message: apiMessage([{ type: 'text', text: 'b' }]) },
+        {
+          type: 'assistant',
+          session_id: 'claude-budget',
+          message: { id: 'msg_2', content: [], usage: { input_tokens: 700, output_tokens: 50 } },
+        },
+        { type: 'result', subtype: 'success', session_id: 'claude-budget', result: 'done' },
+      ],
+    },
+  ]);
+  const claude = await createCoder(CLAUDE_CODER_NAME, { cassette: { mode: 'replay', path: claudeFile } }).startThread();
+  await assert.rejects(claude.run('think', { budget: { maxTokens: 1_000 } }), (error: unknown) => {
+    assert.ok(error instanceof BudgetExceededError);
+    assert.equal(error.actual, 1_450);
+    return true;
+  });
+});
+
+test('codex and gemini enforce token budgets on the final usage', async () => {
+  const codexEvents = [
+    { type: 'thread.started', thread_id: 'codex-tokens' },
+    { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text: 'done' } },
+    { type: 'turn.completed', usage: { input_tokens: 800, cached_input_tokens: 0, output_tokens: 400 } },
+  ];
+  const codexFile = await writeCassette('budget', [
+    { provider: CODEX_CODER_NAME, threadId: 'codex-tokens', events: codexEvents },
+    { provider: CODEX_CODER_NAME, threadId: 'codex-tokens', events: codexEvents },
+  ]);
+  const codex = await createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: codexFile } }).startThread();
+  assertBudgetStop(await collect(codex.runStreamed('a', { budget: { maxTokens: 1_000 } })), 'maxTokens');
+  await assert.rejects(
+    codex.run('b', { budget: { maxTokens: 1_000 } }),
+    (error: unknown) => error instanceof BudgetExceededError && error.limit === 'maxTokens' && error.actual === 1_200,
+  );
+
+  const geminiFile = await writeCassette('budget', [
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-tokens',
+      events: [
+        { type: 'init', session_id: 'gemini-tokens' },
+        { type: 'result', stats: { input_tokens: 800, output_tokens: 400, total_tokens: 1_200 } },
+      ],
+      output: { exitCode: 0, stderr: '' },
+    },
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-tokens',
+      events: [],
+      output: {
+        exitCode: 0,
+        stderr: '',
+        stdout: JSON.stringify({
+          session_id: 'gemini-tokens',
+          response: 'done',
+          stats: { models: { 'gemini-2.5-pro': { tokens: { prompt: 800, candidates: 400, total: 1_200 } } } },
+        }),
+      },
+    },
+  ]);
+  const gemini = await createCoder(GEMINI_CODER_NAME, { cassette: { mode: 'replay', path: geminiFile } }).startThread();
+  assertBudgetStop(await collect(gemini.runStreamed('a', { budget: { maxTokens: 1_000 } })), 'maxTokens');
+  await assert.rejects(
+    gemini.run('b', { budget: { maxTokens: 1_000 } }),
+    (error: unknown) => error instanceof BudgetExceededError && error.limit === 'maxTokens' && error.actual === 1_200,
+  );
+});
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Replays recorded provider traffic through each adapter's normalizer
+ * without touching a CLI, and checks the cassette recording round-trip.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import { openCassette, readCassette, recordEvents } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, createTempDir, writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+
+const CODEX_EVENTS = [
+  { type: 'thread.started', thread_id: 'codex-thread-1' },
+  { type: 'turn.started' },
+  { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text: 'Codex says hi' } },
+  { type: 'turn.completed', usage: { input_tokens: 10, cached_input_tokens: 0, output_tokens: 3 } },
+];
+
+const CLAUDE_MESSAGES = [
+  { type: 'system', subtype: 'init', session_id: 'claude-session-1', model: 'claude-sonnet' },
+  {
+    type: 'assistant',
+    session_id: 'claude-session-1',
+    message: { content: [{ type: 'text', text: 'Claude says hi' }] },
+  },
+  {
+    type: 'result',
+    subtype: 'success',
+    session_id: 'claude-session-1',
+    result: 'Claude says hi',
+    usage: { input_tokens: 8, output_tokens: 4 },
+  },
+];
+
+const GEMINI_EVENTS = [
+  { type: 'init', session_id: 'gemini-session-1', model: 'gemini-2.5-pro' },
+  { type: 'message', role: 'assistant', content: 'Gemini says hi', delta: true },
+  { type: 'result', stats: { total_tokens: 12 } },
+];
+
+test('codex cassette replays raw thread events', async () => {
+  const file = await writeCassette('cassette', [
+    { provider: CODEX_CODER_NAME, threadId: 'codex-thread-1', events: CODEX_EVENTS },
+    { provider: CODEX_CODER_NAME, threadId: 'codex-thread-1', events: CODEX_EVENTS },
+  ]);
+  const coder = createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: file } });
+  const thread = await coder.startThread();
+
+  const events = await collect(thread.runStreamed('hello'));
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['init', 'progress', 'message', 'usage', 'done'],
+  );
+  assert.equal(thread.id, 'codex-thread-1');
+
+  const result = await thread.run('hello again');
+  assert.equal(result.text, 'Codex says hi');
+  assert.equal(result.threadId, 'codex-thread-1');
+});
+
+test('claude cassette replays SDK messages', async () => {
+  const file = await writeCassette('cassette', [
+    { provider: CLAUDE_CODER_NAME, threadId: 'claude-session-1', events: CLAUDE_MESSAGES },
+    { provider: CLAUDE_CODER_NAME, threadId: 'claude-session-1', events: CLAUDE_MESSAGES },
+  ]);
+  const coder = createCoder(CLAUDE_CODER_NAME, { cassette: { mode: 'replay', path: file } });
+  const thread = await coder.startThread();
+
+  const result = await thread.run('hello');
+  assert.equal(result.text, 'Claude says hi');
+  assert.equal(result.threadId, 'claude-session-1');
+
+  const events = await collect(thread.runStreamed('hello again'));
+  assert.deepEqual(events.map(event => event.type), ['init', 'message', 'usage', 'done']);
+});
+
+test('gemini cassette replays stream lines and buffered output', async () => {
+  const file = await writeCassette('cassette', [
+    { provider: GEMINI_CODER_NAME, threadId: 'gemini-session-1', events: GEMINI_EVENTS, output: { exitCode: 0 } },
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-session-1',
+      events: [],
+      output: {
+        stdout: JSON.stringify({ session_id: 'gemini-session-1', response: 'Buffered hi', stats: {} }),
+        stderr: '',
+        exitCode: 0,
+      },
+    },
+  ]);
+  const coder = createCoder(GEMINI_CODER_NAME, { cassette: { mode: 'replay', path: file } });
+  const thread = await coder.startThread();
+
+  const events = await collect(thread.runStreamed('hello'));
+  assert.deepEqual(events.map(event => event.type), ['init', 'message', 'usage', 'done']);
+  assert.equal(coder.getThreadId(thread), 'gemini-session-1');
+
+  const result = await thread.run('hello again');
+  assert.equal(result.text, 'Buffered hi');
+});
+
+test('cassettes record tapped events as JSONL entries', async () => {
+  const dir = await createTempDir('cassette');
+  const file = path.join(dir, 'nested', 'recorded.jsonl');
+  const cassette = openCassette({ mode: 'record', path: file }, CODEX_CODER_NAME);
+  assert.equal(cassette.mode, 'record');
+
+  async function* source() {
+    yield* CODEX_EVENTS;
+  }
+  const seen: unknown[] = [];
+  for await (const event of recordEvents(source(), events => {
+    if (cassette.mode === 'record') cassette.record({ threadId: 'codex-thread-1', events });
+  })) {
+    seen.push(event);
+  }
+
+  const [entry] = readCassette(file);
+  assert.equal(entry.provider, CODEX_CODER_NAME);
+  assert.equal(entry.threadId, 'codex-thread-1');
+  assert.deepEqual(entry.events, seen);
+});
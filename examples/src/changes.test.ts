@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Checks run change tracking: file lists and unified patches on `RunResult`,
+ * `file_change` events in streams, and tracking inside isolated workspaces.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import { getWorkspace } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { resetMockSessions, type MockStartOpts } from '@headless-coder-sdk/mock-adapter';
+import { EDITING_CODER_NAME, ensureEditingAdapterRegistered, pendingEdits } from './editing-adapter';
+import { createTempDir } from './test-helpers';
+
+ensureEditingAdapterRegistered();
+
+const SCRIPT: MockStartOpts['script'] = [
+  { events: [{ type: 'message', role: 'assistant', text: 'edited' }] },
+  { events: [{ type: 'message', role: 'assistant', text: 'edited again' }] },
+];
+
+async function createProject(): Promise<string> {
+  const dir = await createTempDir('changes');
+  await writeFile(path.join(dir, 'keep.txt'), 'one\ntwo\nthree\n', 'utf8');
+  await writeFile(path.join(dir, 'old-name.txt'), 'a file that is only renamed\n', 'utf8');
+  await writeFile(path.join(dir, 'remove.txt'), 'bye\n', 'utf8');
+  return dir;
+}
+
+test('runs report created, modified, deleted and renamed files with patches', async () => {
+  resetMockSessions();
+  const dir = await createProject();
+  const startOpts: MockStartOpts = { workingDirectory: dir, script: SCRIPT };
+  const thread = await createCoder(EDITING_CODER_NAME, startOpts, { trackChanges: true }).startThread();
+
+  pendingEdits.push(async (cwd: string) => {
+    await writeFile(path.join(cwd, 'keep.txt'), 'one\n2\nthree\n', 'utf8');
+    await writeFile(path.join(cwd, 'created.txt'), 'new\n', 'utf8');
+    await rm(path.join(cwd, 'remove.txt'));
+    await rename(path.join(cwd, 'old-name.txt'), path.join(cwd, 'new-name.txt'));
+    await mkdir(path.join(cwd, 'node_modules'));
+    await writeFile(path.join(cwd, 'node_modules', 'ignored.js'), '', 'utf8');
+  });
+  const result = await thread.run('edit the files');
+  assert.equal(result.text, 'edited');
+  const files = result.changes?.files ?? [];
+  const summary = files.map(({ path: file, op, previousPath }) => ({ file, op, previousPath }));
+  assert.deepEqual(
+    summary.sort((a, b) => a.file.localeCompare(b.file)),
+    [
+      { file: 'created.txt', op: 'create', previousPath: undefined },
+      { file: 'keep.txt', op: 'modify', previousPath: undefined },
+      { file: 'new-name.txt', op: 'rename', previousPath: 'old-name.txt' },
+      { file: 'remove.txt', op: 'delete', previousPath: undefined },
+    ],
+  );
+  const modified = files.find(file => file.path === 'keep.txt')!;
+  assert.match(modified.patch, /^diff --git a\/keep\.txt b\/keep\.txt$/m);
+  assert.match(modified.patch, /^-two\n\+2$/m);
+  assert.equal(result.changes?.patch, files.map(file => file.patch).join(''));
+
+  const unchanged = await thread.run('nothing to do');
+  assert.deepEqual(unchanged.changes, { files: [], patch: '' });
+  await thread.close?.();
+});
+
+test('streams emit file_change events before done, inside isolated workspaces too', async () => {
+  resetMockSessions();
+  const dir = await createProject();
+  const startOpts: MockStartOpts = { workingDirectory: dir, isolation: { onClose: 'discard' }, script: SCRIPT };
+  const thread = await createCoder(EDITING_CODER_NAME, startOpts, { trackChanges: true }).startThread();
+  const workspace = getWorkspace(thread)!;
+
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'keep.txt'), 'changed\n', 'utf8'));
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('edit in the workspace')) {
+    events.push(event);
+  }
+  const changeIndex = events.findIndex(event => event.type === 'file_change');
+  assert.ok(changeIndex !== -1);
+  assert.ok(changeIndex < events.findIndex(event => event.type === 'done'));
+  const change = events[changeIndex];
+  assert.equal(change.type === 'file_change' && change.path, 'keep.txt');
+  assert.equal(change.type === 'file_change' && change.op, 'modify');
+  assert.match(change.type === 'file_change' ? change.patch ?? '' : '', /^\+changed$/m);
+  assert.match(await workspace.diff(), /^\+changed$/m);
+  await thread.close?.();
+});
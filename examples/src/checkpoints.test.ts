@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Checks per-turn checkpoints: rolling files back while the conversation
+ * continues, and forking a thread's files and conversation from an earlier turn.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import { getCheckpoints } from '@headless-coder-sdk/core';
+import type { CoderMiddleware, CoderStreamEvent, PromptInput } from '@headless-coder-sdk/core';
+import { resetMockSessions, type MockStartOpts } from '@headless-coder-sdk/mock-adapter';
+import { EDITING_CODER_NAME, ensureEditingAdapterRegistered, pendingEdits } from './editing-adapter';
+import { createTempDir } from './test-helpers';
+
+ensureEditingAdapterRegistered();
+
+const answer = (text: string) => ({ events: [{ type: 'message' as const, role: 'assistant' as const, text }] });
+
+async function createProject(): Promise<string> {
+  const dir = await createTempDir('checkpoints');
+  await writeFile(path.join(dir, 'keep.txt'), 'original\n', 'utf8');
+  await mkdir(path.join(dir, 'node_modules'));
+  await writeFile(path.join(dir, 'node_modules', 'dep.js'), 'dependency\n', 'utf8');
+  return dir;
+}
+
+test('rollback restores the files of a checkpoint and the conversation carries on', async () => {
+  resetMockSessions();
+  const dir = await createProject();
+  const startOpts: MockStartOpts = { workingDirectory: dir, script: [answer('one'), answer('two'), answer('three')] };
+  const thread = await createCoder(EDITING_CODER_NAME, startOpts, { checkpoints: true }).startThread();
+
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'added.txt'), 'first\n', 'utf8'));
+  assert.equal((await thread.run('add a file')).turnId, 'turn-1');
+
+  pendingEdits.push(async (cwd: string) => {
+    await writeFile(path.join(cwd, 'added.txt'), 'second\n', 'utf8');
+    await rm(path.join(cwd, 'keep.txt'));
+  });
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('change it again')) {
+    events.push(event);
+  }
+  const checkpointEvent = events.at(-2);
+  assert.equal(checkpointEvent?.type === 'progress' && checkpointEvent.label, 'checkpoint');
+  assert.equal(checkpointEvent?.type === 'progress' && checkpointEvent.detail, 'turn-2');
+  assert.equal(events.at(-1)?.type, 'done');
+  assert.deepEqual(
+    getCheckpoints(thread).map(checkpoint => checkpoint.turnId),
+    ['turn-0', 'turn-1', 'turn-2'],
+  );
+
+  await thread.rollback?.('turn-1');
+  assert.equal(await readFile(path.join(dir, 'added.txt'), 'utf8'), 'first\n');
+  assert.equal(await readFile(path.join(dir, 'keep.txt'), 'utf8'), 'original\n');
+
+  await thread.rollback?.('turn-0');
+  assert.ok(!existsSync(path.join(dir, 'added.txt')));
+  assert.ok(existsSync(path.join(dir, 'node_modules', 'dep.js')));
+  await assert.rejects(thread.rollback!('turn-9'), /Unknown checkpoint "turn-9"/);
+
+  const id = thread.id;
+  assert.equal((await thread.run('continue')).text, 'three');
+  assert.equal(thread.id, id);
+  await thread.close?.();
+});
+
+test('fork starts a new thread with the files and conversation of a checkpoint', async () => {
+  resetMockSessions();
+  const dir = await createProject();
+  const prompts: PromptInput[] = [];
+  const middleware: CoderMiddleware = {
+    prepare(request) {
+      prompts.push(request.input);
+    },
+  };
+  const startOpts: MockStartOpts = { workingDirectory: dir, script: [answer('one'), answer('two')] };
+  const coder = createCoder(EDITING_CODER_NAME, startOpts, { checkpoints: true, middleware: [middleware] });
+  const thread = await coder.startThread();
+
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'keep.txt'), 'after turn 1\n', 'utf8'));
+  await thread.run('first');
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'keep.txt'), 'after turn 2\n', 'utf8'));
+  await thread.run('second');
+
+  const fork = await thread.fork!('turn-1');
+  const forkDir = (fork.internal as { opts: MockStartOpts }).opts.workingDirectory!;
+  assert.notEqual(forkDir, dir);
+  assert.notEqual(fork.id, thread.id);
+  assert.equal(await readFile(path.join(forkDir, 'keep.txt'), 'utf8'), 'after turn 1\n');
+  assert.equal(await readFile(path.join(dir, 'keep.txt'), 'utf8'), 'after turn 2\n');
+
+  await fork.run('forked question');
+  assert.deepEqual(prompts.at(-1), [
+    { role: 'user', content: 'first' },
+    { role: 'assistant', content: 'one' },
+    { role: 'user', content: 'forked question' },
+  ]);
+  await fork.run('next');
+  assert.equal(prompts.at(-1), 'next');
+  assert.deepEqual(
+    getCheckpoints(fork).map(checkpoint => checkpoint.turnId),
+    ['turn-0', 'turn-1', 'turn-2'],
+  );
+  await fork.close?.();
+  await thread.close?.();
+});
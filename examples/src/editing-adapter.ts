@@ -0,0 +1,46 @@
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { AdapterFactory, HeadlessCoder, ThreadHandle } from '@headless-coder-sdk/core';
+import { createAdapter as createMockAdapter, type MockStartOpts } from '@headless-coder-sdk/mock-adapter';
+
+export const EDITING_CODER_NAME = 'editing-mock';
+
+/** Edits applied to the working directory, one per run, in order. */
+export const pendingEdits: Array<(cwd: string) => Promise<void>> = [];
+
+/**
+ * Mock adapter that applies the next queued edit to its working directory before every run,
+ * standing in for an agent that edits files.
+ */
+function createEditingAdapter(defaults?: MockStartOpts): HeadlessCoder {
+  const coder = createMockAdapter(defaults);
+  const edit = (handle: ThreadHandle) => {
+    const cwd = (handle.internal as { opts: MockStartOpts }).opts.workingDirectory!;
+    const run = handle.run.bind(handle);
+    const runStreamed = handle.runStreamed.bind(handle);
+    handle.run = async (input, opts) => {
+      await pendingEdits.shift()?.(cwd);
+      return run(input, opts);
+    };
+    handle.runStreamed = (input, opts) => ({
+      async *[Symbol.asyncIterator]() {
+        await pendingEdits.shift()?.(cwd);
+        yield* runStreamed(input, opts);
+      },
+    });
+    return handle;
+  };
+  return {
+    startThread: async opts => edit(await coder.startThread(opts)),
+    resumeThread: async (threadId, opts) => edit(await coder.resumeThread(threadId, opts)),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+}
+(createEditingAdapter as AdapterFactory).coderName = EDITING_CODER_NAME;
+
+let registered = false;
+
+export function ensureEditingAdapterRegistered(): void {
+  if (registered) return;
+  registerAdapter(createEditingAdapter);
+  registered = true;
+}
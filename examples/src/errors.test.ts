@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Checks that adapters throw `CoderError`s and tag `error` stream events
+ * with the shared error codes.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import {
+  AuthError,
+  BinaryNotFoundError,
+  BudgetExceededError,
+  CoderError,
+  InterruptedError,
+  InvalidOutputError,
+  ProviderCrashError,
+  QuotaError,
+  RateLimitError,
+  StructuredOutputError,
+  classifyError,
+  isCoderError,
+  toCoderError,
+} from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+function errorCode(events: CoderStreamEvent[]): string | undefined {
+  const error = events.find(event => event.type === 'error');
+  return error?.type === 'error' ? error.code : undefined;
+}
+
+test('raw provider failures are classified into the shared taxonomy', () => {
+  const spawnError = Object.assign(new Error('spawn gemini ENOENT'), { code: 'ENOENT', syscall: 'spawn gemini' });
+  assert.ok(toCoderError(spawnError) instanceof BinaryNotFoundError);
+  assert.equal(classifyError(new Error('401 Unauthorized')), 'auth');
+  assert.equal(classifyError("You've hit your usage limit (429)"), 'quota');
+  assert.equal(classifyError('stream error: 429 Too Many Requests'), 'rate_limited');
+  assert.equal(classifyError(new Error('Request timed out')), 'timeout');
+  assert.equal(classifyError(new Error('segfault')), 'provider_crash');
+
+  const wrapped = toCoderError(new Error('segfault'), MOCK_CODER_NAME);
+  assert.ok(wrapped instanceof ProviderCrashError);
+  assert.equal(wrapped.provider, MOCK_CODER_NAME);
+  assert.equal(toCoderError(wrapped), wrapped);
+  assert.ok(isCoderError(new BudgetExceededError('maxTokens', 1, 2), 'budget_exceeded'));
+  assert.ok(new StructuredOutputError([], { text: '' }, 1) instanceof InvalidOutputError);
+});
+
+test('mock runs throw CoderErrors for scripted failures and interrupts', async () => {
+  resetMockSessions();
+  const startOpts: MockStartOpts = {
+    script: {
+      turns: [
+        { events: [{ type: 'throw', message: 'slow down', code: 'rate_limited' }] },
+        { events: [{ type: 'delay', ms: 5_000 }] },
+      ],
+    },
+  };
+  const thread = await createCoder(MOCK_CODER_NAME, startOpts).startThread();
+  await assert.rejects(thread.run('hello'), RateLimitError);
+
+  const pending = thread.run('slow');
+  setTimeout(() => void thread.interrupt?.('user stop'), 10);
+  await assert.rejects(pending, (error: unknown) => {
+    assert.ok(error instanceof InterruptedError);
+    assert.equal(error.name, 'AbortError');
+    assert.equal(error.message, 'user stop');
+    return true;
+  });
+});
+
+test('codex turn failures carry the classified code', async () => {
+  const events = [
+    { type: 'thread.started', thread_id: 'codex-errors' },
+    { type: 'turn.failed', error: { message: 'stream error: 429 Too Many Requests' } },
+  ];
+  const file = await writeCassette('errors', [
+    { provider: CODEX_CODER_NAME, threadId: 'codex-errors', events },
+    { provider: CODEX_CODER_NAME, threadId: 'codex-errors', events },
+  ]);
+  const thread = await createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: file } }).startThread();
+
+  assert.equal(errorCode(await collect(thread.runStreamed('hello'))), 'rate_limited');
+  await assert.rejects(thread.run('hello again'), (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.provider, CODEX_CODER_NAME);
+    return true;
+  });
+});
+
+test('claude result errors and gemini exits are classified', async () => {
+  const claudeEvents = [
+    {
+      type: 'result',
+      subtype: 'success',
+      is_error: true,
+      session_id: 'claude-errors',
+      result: 'Invalid API key · Please run /login',
+    },
+  ];
+  const claudeFile = await writeCassette('errors', [
+    { provider: CLAUDE_CODER_NAME, threadId: 'claude-errors', events: claudeEvents },
+    { provider: CLAUDE_CODER_NAME, threadId: 'claude-errors', events: claudeEvents },
+  ]);
+  const claude = await createCoder(CLAUDE_CODER_NAME, { cassette: { mode: 'replay', path: claudeFile } }).startThread();
+  assert.equal(errorCode(await collect(claude.runStreamed('hello'))), 'auth');
+  await assert.rejects(claude.run('hello again'), AuthError);
+
+  const stderr = 'Quota exceeded for quota metric: requests per day';
+  const geminiFile = await writeCassette('errors', [
+    { provider: GEMINI_CODER_NAME, threadId: 'gemini-errors', events: [], output: { exitCode: 1, stderr } },
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-errors',
+      events: [],
+      output: { stdout: '', stderr, exitCode: 1 },
+    },
+  ]);
+  const gemini = await createCoder(GEMINI_CODER_NAME, { cassette: { mode: 'replay', path: geminiFile } }).startThread();
+  await assert.rejects(collect(gemini.runStreamed('hello')), QuotaError);
+  await assert.rejects(gemini.run('hello again'), QuotaError);
+});
+
+test('a missing gemini binary surfaces as binary_not_found', async () => {
+  const thread = await createCoder(GEMINI_CODER_NAME, {
+    geminiBinaryPath: path.join(os.tmpdir(), 'headless-coder-missing', 'gemini'),
+  }).startThread();
+  await assert.rejects(thread.run('hello'), (error: unknown) => {
+    assert.ok(error instanceof CoderError);
+    assert.equal(error.code, 'binary_not_found');
+    return true;
+  });
+});
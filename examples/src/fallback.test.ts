@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Checks provider fallback chains: switching providers on auth, quota and
+ * missing-binary failures, replaying the conversation, and reporting the switch.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import {
+  RateLimitError,
+  TranscriptRecorder,
+  getChangeTracker,
+  getCheckpoints,
+  getThreadUsage,
+} from '@headless-coder-sdk/core';
+import type { AdapterName, CassetteEntry, CoderMiddleware, HeadlessCoder, PromptInput } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+  type MockTurn,
+} from '@headless-coder-sdk/mock-adapter';
+import { EDITING_CODER_NAME, ensureEditingAdapterRegistered, pendingEdits } from './editing-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, createTempDir } from './test-helpers';
+
+const CLOSING_CODER_NAME = 'closing-mock';
+const closedThreads: AdapterName[] = [];
+
+/** Mock adapter whose thread handles record when they are closed. */
+function createClosingAdapter(defaults?: MockStartOpts): HeadlessCoder {
+  const coder = createMockAdapter(defaults);
+  return {
+    startThread: async opts => {
+      const handle = await coder.startThread(opts);
+      handle.close = async () => {
+        closedThreads.push(CLOSING_CODER_NAME);
+      };
+      return handle;
+    },
+    resumeThread: (threadId, opts) => coder.resumeThread(threadId, opts),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+}
+createClosingAdapter.coderName = CLOSING_CODER_NAME;
+
+ensureAdaptersRegistered();
+ensureEditingAdapterRegistered();
+registerAdapter(createMockAdapter);
+registerAdapter(createClosingAdapter);
+
+const MOCK_ANSWER: MockTurn = { events: [{ type: 'message', role: 'assistant', text: 'mock answer' }] };
+
+async function writeCodexCassette(turns: unknown[][]): Promise<string> {
+  const dir = await createTempDir('fallback');
+  const file = path.join(dir, 'cassette.jsonl');
+  const entries: CassetteEntry[] = turns.map(events => ({
+    provider: CODEX_CODER_NAME,
+    threadId: 'codex-fallback',
+    events: [{ type: 'thread.started', thread_id: 'codex-fallback' }, ...events],
+    recordedAt: 0,
+  }));
+  await writeFile(file, `${entries.map(entry => JSON.stringify(entry)).join('\n')}\n`, 'utf8');
+  return file;
+}
+
+const answered = (text: string) => [
+  { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text } },
+  { type: 'turn.completed', usage: { input_tokens: 1, output_tokens: 1 } },
+];
+const failed = (message: string) => [{ type: 'turn.failed', error: { message } }];
+
+type CapturedPrompt = { provider: AdapterName; input: PromptInput };
+
+function capturePrompts(): { prompts: CapturedPrompt[]; middleware: CoderMiddleware } {
+  const prompts: CapturedPrompt[] = [];
+  return {
+    prompts,
+    middleware: {
+      prepare(request, ctx) {
+        prompts.push({ provider: ctx.provider, input: request.input });
+      },
+    },
+  };
+}
+
+test('run falls back on auth failures and replays the conversation', async () => {
+  resetMockSessions();
+  const cassette = await writeCodexCassette([answered('codex answer'), failed('401 Unauthorized')]);
+  const { prompts, middleware } = capturePrompts();
+  const startOpts: MockStartOpts = { cassette: { mode: 'replay', path: cassette }, script: [MOCK_ANSWER, MOCK_ANSWER] };
+  const coder = createCoder([CODEX_CODER_NAME, MOCK_CODER_NAME], startOpts, { middleware: [middleware] });
+  const thread = await coder.startThread();
+
+  assert.equal((await thread.run('first question')).text, 'codex answer');
+  assert.equal(thread.provider, CODEX_CODER_NAME);
+
+  assert.equal((await thread.run('second question')).text, 'mock answer');
+  assert.equal(thread.provider, MOCK_CODER_NAME);
+  assert.equal(thread.id, coder.getThreadId(thread));
+  assert.deepEqual(prompts.at(-1), {
+    provider: MOCK_CODER_NAME,
+    input: [
+      { role: 'user', content: 'first question' },
+      { role: 'assistant', content: 'codex answer' },
+      { role: 'user', content: 'second question' },
+    ],
+  });
+
+  await thread.run('third question');
+  assert.deepEqual(prompts.at(-1), { provider: MOCK_CODER_NAME, input: 'third question' });
+});
+
+test('streams report the switch and skip missing binaries and unregistered adapters', async () => {
+  resetMockSessions();
+  const startOpts: MockStartOpts = { script: [MOCK_ANSWER] };
+  const missing = path.join(os.tmpdir(), 'headless-coder-missing', 'gemini');
+  const coder = createCoder(
+    ['unregistered', { provider: GEMINI_CODER_NAME, defaults: { geminiBinaryPath: missing } }, MOCK_CODER_NAME],
+    startOpts,
+  );
+  const thread = await coder.startThread();
+  assert.equal(thread.provider, GEMINI_CODER_NAME);
+
+  const events = await collect(thread.runStreamed('hello'));
+  const fallback = events.find(event => event.type === 'progress' && event.label === 'fallback');
+  assert.ok(fallback);
+  assert.deepEqual(
+    { from: fallback.originalItem?.from, to: fallback.originalItem?.to, code: fallback.originalItem?.code },
+    { from: GEMINI_CODER_NAME, to: MOCK_CODER_NAME, code: 'binary_not_found' },
+  );
+  assert.ok(events.some(event => event.type === 'message' && event.text === 'mock answer'));
+  assert.equal(thread.provider, MOCK_CODER_NAME);
+
+  assert.throws(() => createCoder(['unregistered']), /None of the adapters/);
+});
+
+test('other failures, and failures of the last provider, are not swallowed', async () => {
+  resetMockSessions();
+  const cassette = await writeCodexCassette([failed('429 Too Many Requests')]);
+  const startOpts: MockStartOpts = { cassette: { mode: 'replay', path: cassette }, script: [MOCK_ANSWER] };
+  const thread = await createCoder([CODEX_CODER_NAME, MOCK_CODER_NAME], startOpts).startThread();
+  await assert.rejects(thread.run('hello'), RateLimitError);
+  assert.equal(thread.provider, CODEX_CODER_NAME);
+
+  const quota: MockTurn = { events: [{ type: 'error', code: 'quota', message: 'Credit balance is too low' }] };
+  const quotaOpts: MockStartOpts = { script: [quota] };
+  const only = await createCoder([MOCK_CODER_NAME], quotaOpts).startThread();
+  const lastEvent = (await collect(only.runStreamed('hello'))).at(-1);
+  assert.equal(lastEvent?.type === 'error' && lastEvent.code, 'quota');
+});
+
+test('chain threads keep checkpoints, changes, usage and transcripts across a switch', async () => {
+  resetMockSessions();
+  const dir = await createTempDir('fallback');
+  await writeFile(path.join(dir, 'a.txt'), 'one\n', 'utf8');
+  const quota: MockTurn = { events: [{ type: 'error', code: 'quota', message: 'Credit balance is too low' }] };
+  const edited: MockTurn = {
+    events: [
+      { type: 'message', role: 'assistant', text: 'edited' },
+      { type: 'usage', stats: { inputTokens: 3, outputTokens: 1 } },
+    ],
+  };
+  const recorder = new TranscriptRecorder();
+  const coder = createCoder(
+    [
+      { provider: CLOSING_CODER_NAME, defaults: { script: [quota] } as MockStartOpts },
+      { provider: EDITING_CODER_NAME, defaults: { script: [edited] } as MockStartOpts },
+    ],
+    { workingDirectory: dir },
+    { checkpoints: true, trackChanges: true, middleware: [recorder] },
+  );
+  const thread = await coder.startThread();
+
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'a.txt'), 'two\n', 'utf8'));
+  const result = await thread.run('edit a.txt');
+  assert.deepEqual(closedThreads, [CLOSING_CODER_NAME]);
+  assert.deepEqual(
+    result.changes?.files.map(file => file.path),
+    ['a.txt'],
+  );
+  assert.ok(getChangeTracker(thread));
+  assert.deepEqual(getThreadUsage(thread), { runs: 1, usage: { inputTokens: 3, outputTokens: 1 } });
+  assert.deepEqual(
+    recorder.get(thread)?.entries.map(entry => (entry.type === 'event' ? entry.event.type : entry.type)),
+    ['prompt', 'error', 'prompt', 'message', 'usage', 'done', 'result'],
+  );
+
+  assert.deepEqual(
+    getCheckpoints(thread).map(checkpoint => checkpoint.turnId),
+    ['turn-0', result.turnId],
+  );
+  await thread.rollback!('turn-0');
+  assert.equal(await readFile(path.join(dir, 'a.txt'), 'utf8'), 'one\n');
+  await thread.close?.();
+});
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Checks fan-out runs: merged tagged events, side-by-side results, isolated
+ * working directories, and the first-successful-wins mode.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import { fanOut } from '@headless-coder-sdk/core';
+import type { CassetteEntry, FanOutEvent, HeadlessCoder } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+  type MockTurn,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { createTempDir } from './test-helpers';
+
+const CLOSING_CODER_NAME = 'closing-mock';
+const closedThreads: string[] = [];
+
+/** Mock adapter whose thread handles record their `model` when they are closed. */
+function createClosingAdapter(defaults?: MockStartOpts): HeadlessCoder {
+  const coder = createMockAdapter(defaults);
+  return {
+    startThread: async opts => {
+      const handle = await coder.startThread(opts);
+      handle.close = async () => {
+        closedThreads.push(defaults?.model ?? 'unknown');
+      };
+      return handle;
+    },
+    resumeThread: (threadId, opts) => coder.resumeThread(threadId, opts),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+}
+createClosingAdapter.coderName = CLOSING_CODER_NAME;
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+registerAdapter(createClosingAdapter);
+
+function answer(text: string, extra: MockTurn['events'] = []): MockStartOpts {
+  const events: MockTurn['events'] = [
+    ...extra,
+    { type: 'message', role: 'assistant', text },
+    { type: 'usage', stats: { inputTokens: 3 } },
+  ];
+  return { script: [{ events }] };
+}
+
+async function createWorkspace(): Promise<string> {
+  const dir = await createTempDir('fanout-src');
+  await writeFile(path.join(dir, 'README.md'), 'original', 'utf8');
+  return dir;
+}
+
+test('all mode runs every target and returns results side by side', async () => {
+  resetMockSessions();
+  const workspace = await createWorkspace();
+  const cassette = path.join(workspace, 'codex.jsonl');
+  const entry: CassetteEntry = {
+    provider: CODEX_CODER_NAME,
+    threadId: 'codex-fanout',
+    events: [
+      { type: 'thread.started', thread_id: 'codex-fanout' },
+      { type: 'turn.failed', error: { message: 'Not logged in' } },
+    ],
+    recordedAt: 0,
+  };
+  await writeFile(cassette, `${JSON.stringify(entry)}\n`, 'utf8');
+
+  const run = fanOut('compare me', {
+    targets: [
+      { provider: MOCK_CODER_NAME, label: 'fast', defaults: answer('from fast') },
+      { provider: MOCK_CODER_NAME, label: 'slow', defaults: answer('from slow', [{ type: 'delay', ms: 20 }]) },
+      { provider: CODEX_CODER_NAME, defaults: { cassette: { mode: 'replay', path: cassette } } },
+    ],
+    defaults: { workingDirectory: workspace },
+  });
+  const events: FanOutEvent[] = [];
+  for await (const event of run) {
+    events.push(event);
+  }
+  const results = await run.results;
+
+  assert.deepEqual(
+    results.map(result => [result.source, result.status]),
+    [
+      ['fast', 'completed'],
+      ['slow', 'completed'],
+      [CODEX_CODER_NAME, 'failed'],
+    ],
+  );
+  assert.equal(results[0].result?.text, 'from fast');
+  assert.equal(results[1].usage?.inputTokens, 3);
+  assert.equal(results[2].error?.code, 'auth');
+  assert.ok(results.every(result => result.durationMs >= 0));
+  assert.ok(results[1].durationMs >= 20);
+  assert.deepEqual(new Set(events.map(event => event.source)), new Set(['fast', 'slow', CODEX_CODER_NAME]));
+
+  const directories = new Set(results.map(result => result.workingDirectory));
+  assert.equal(directories.size, 3);
+  assert.ok(!directories.has(workspace));
+  for (const dir of directories) {
+    assert.equal(await readFile(path.join(dir!, 'README.md'), 'utf8'), 'original');
+  }
+});
+
+test('first mode interrupts the remaining targets once one completes', async () => {
+  resetMockSessions();
+  const startedAt = Date.now();
+  const run = fanOut('race', {
+    targets: [
+      { provider: MOCK_CODER_NAME, label: 'slow', defaults: answer('too late', [{ type: 'delay', ms: 5_000 }]) },
+      { provider: MOCK_CODER_NAME, label: 'fast', defaults: answer('winner') },
+    ],
+    mode: 'first',
+    isolate: false,
+  });
+  const results = await run.results;
+
+  assert.ok(Date.now() - startedAt < 2_000);
+  assert.equal(results.find(result => result.source === 'fast')?.result?.text, 'winner');
+  assert.equal(results.find(result => result.source === 'slow')?.status, 'cancelled');
+  assert.equal(results[0].workingDirectory, undefined);
+});
+
+test('target threads are closed once their run settles', async () => {
+  resetMockSessions();
+  const run = fanOut('race', {
+    targets: [
+      {
+        provider: CLOSING_CODER_NAME,
+        label: 'slow',
+        defaults: { ...answer('too late', [{ type: 'delay', ms: 5_000 }]), model: 'slow' },
+      },
+      { provider: CLOSING_CODER_NAME, label: 'fast', defaults: { ...answer('winner'), model: 'fast' } },
+    ],
+    mode: 'first',
+    isolate: false,
+  });
+  await run.results;
+  assert.deepEqual(closedThreads.sort(), ['fast', 'slow']);
+});
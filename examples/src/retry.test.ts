@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Checks that transient failures are retried with backoff on the same
+ * thread, surface as `progress` events in streams, and respect the retry policy.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { computeRetryDelay, isTransientError } from '@headless-coder-sdk/core';
+import type { CassetteEntry, CreateCoderOptions, RetryPolicy } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+  type MockTurn,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { collect, createTempDir } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+const FAST: RetryPolicy = { initialDelayMs: 1, jitter: 0 };
+
+const RATE_LIMITED: MockTurn = {
+  events: [{ type: 'error', code: 'rate_limited', message: '429 Too Many Requests' }],
+};
+
+const OK: MockTurn = { events: [{ type: 'message', role: 'assistant', text: 'ok' }] };
+
+async function startMock(turns: MockTurn[], options: CreateCoderOptions = { retry: FAST }) {
+  resetMockSessions();
+  const startOpts: MockStartOpts = { script: { threadId: 'retry-thread', turns } };
+  return createCoder(MOCK_CODER_NAME, startOpts, options).startThread();
+}
+
+test('run retries transient failures on the same thread', async () => {
+  const thread = await startMock([RATE_LIMITED, { events: [{ type: 'throw', message: 'socket hang up' }] }, OK]);
+  const result = await thread.run('hello');
+  assert.equal(result.text, 'ok');
+  assert.equal(result.threadId, 'retry-thread');
+});
+
+test('streams report retries as progress events', async () => {
+  const thread = await startMock([RATE_LIMITED, OK]);
+  const events = await collect(thread.runStreamed('hello'));
+  const retry = events.find(event => event.type === 'progress' && event.label === 'retry');
+  assert.ok(retry);
+  assert.equal(retry.originalItem?.attempt, 2);
+  assert.equal(retry.originalItem?.code, 'rate_limited');
+  assert.ok(!events.some(event => event.type === 'error'));
+  assert.ok(events.some(event => event.type === 'message' && event.text === 'ok'));
+});
+
+test('streams that already yielded content are not retried', async () => {
+  const partial: MockTurn = {
+    events: [
+      { type: 'message', role: 'assistant', text: 'Half an answer' },
+      { type: 'error', code: 'rate_limited', message: '429 Too Many Requests' },
+    ],
+  };
+  const thread = await startMock([partial, OK]);
+  const events = await collect(thread.runStreamed('hello'));
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['message', 'error'],
+  );
+  assert.ok(!events.some(event => event.type === 'progress'));
+});
+
+test('permanent failures, exhausted attempts and disabled retries surface the error', async () => {
+  const invalid: MockTurn = { events: [{ type: 'throw', message: 'bad prompt', code: 'invalid_output' }] };
+  const permanent = await startMock([invalid, OK]);
+  await assert.rejects(permanent.run('hello'), /bad prompt/);
+
+  const exhausted = await startMock([RATE_LIMITED, RATE_LIMITED, OK], { retry: { ...FAST, maxAttempts: 2 } });
+  await assert.rejects(exhausted.run('hello'), /429/);
+
+  const disabled = await startMock([RATE_LIMITED, OK]);
+  await assert.rejects(disabled.run('hello', { retry: false }), /429/);
+
+  const unconfigured = await startMock([RATE_LIMITED, OK], {});
+  const events = await collect(unconfigured.runStreamed('hello'));
+  assert.equal(events.at(-1)?.type, 'error');
+
+  const custom = await startMock([{ events: [{ type: 'throw', message: 'flaky' }] }, OK], {
+    retry: { ...FAST, isRetryable: error => (error as Error).message === 'flaky' },
+  });
+  assert.equal((await custom.run('hello')).text, 'ok');
+});
+
+test('an interrupt during backoff stops the retry loop', async () => {
+  const thread = await startMock([RATE_LIMITED, OK], { retry: { initialDelayMs: 5_000, jitter: 0 } });
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  setTimeout(() => controller.abort('user stop'), 20);
+  const events = await collect(thread.runStreamed('hello', { signal: controller.signal }));
+  const last = events.at(-1);
+  assert.equal(last?.type === 'error' && last.code, 'interrupted');
+  assert.ok(Date.now() - startedAt < 2_000);
+});
+
+test('codex rate limits are retried and exhausted usage limits are not', async () => {
+  const dir = await createTempDir('retry');
+  const file = path.join(dir, 'cassette.jsonl');
+  const failed = (message: string): Omit<CassetteEntry, 'recordedAt'> => ({
+    provider: CODEX_CODER_NAME,
+    threadId: 'codex-retry',
+    events: [
+      { type: 'thread.started', thread_id: 'codex-retry' },
+      { type: 'turn.failed', error: { message } },
+    ],
+  });
+  const succeeded: Omit<CassetteEntry, 'recordedAt'> = {
+    provider: CODEX_CODER_NAME,
+    threadId: 'codex-retry',
+    events: [
+      { type: 'thread.started', thread_id: 'codex-retry' },
+      { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text: 'recovered' } },
+      { type: 'turn.completed', usage: { input_tokens: 1, output_tokens: 1 } },
+    ],
+  };
+  const entries = [failed('429 rate limit reached'), succeeded, failed("You've hit your usage limit (429)")];
+  await writeFile(file, `${entries.map(entry => JSON.stringify({ ...entry, recordedAt: 0 })).join('\n')}\n`, 'utf8');
+
+  const coder = createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: file } }, { retry: FAST });
+  const thread = await coder.startThread();
+  assert.equal((await thread.run('hello')).text, 'recovered');
+  await assert.rejects(thread.run('again'), /usage limit/);
+});
+
+test('backoff grows exponentially, is capped and stays within the jitter band', () => {
+  const policy: RetryPolicy = { initialDelayMs: 100, factor: 2, maxDelayMs: 250, jitter: 0 };
+  assert.deepEqual([1, 2, 3, 4].map(attempt => computeRetryDelay(policy, attempt)), [100, 200, 250, 250]);
+  for (let i = 0; i < 20; i += 1) {
+    const delay = computeRetryDelay({ initialDelayMs: 1_000, jitter: 0.5 }, 1);
+    assert.ok(delay >= 500 && delay <= 1_500);
+  }
+  assert.equal(isTransientError(Object.assign(new Error('429'), { code: 'interrupted' })), false);
+  assert.equal(isTransientError(new Error('Service Unavailable (503)')), true);
+});
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Covers core structured-output validation: the JSON Schema checker and
+ * the repair loop `createCoder` runs `run()` through, exercised offline with the mock adapter.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BudgetExceededError,
+  StructuredOutputError,
+  defineOutputSchema,
+  getThreadUsage,
+  InvalidOutputError,
+  validateJsonSchema,
+} from '@headless-coder-sdk/core';
+import type { PromptInput, RunOpts, RunResult, ThreadHandle } from '@headless-coder-sdk/core';
+import { createHeadlessMock, resetMockSessions, type MockTurn } from '@headless-coder-sdk/mock-adapter';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    risk: { enum: ['low', 'medium', 'high'] },
+    files: { type: 'array', items: { $ref: '#/$defs/file' } },
+  },
+  required: ['summary', 'risk'],
+  additionalProperties: false,
+  $defs: {
+    file: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+  },
+} as const;
+
+function turn(json: unknown): MockTurn {
+  return { events: [{ type: 'message', role: 'assistant', text: JSON.stringify(json) }] };
+}
+
+test('validateJsonSchema reports every violation with a path', () => {
+  assert.deepEqual(validateJsonSchema(SCHEMA, { summary: 'ok', risk: 'low', files: [{ path: 'a.ts' }] }), []);
+  assert.deepEqual(validateJsonSchema(SCHEMA, { summary: '', risk: 'extreme', files: [{}], extra: 1 }), [
+    { path: '$.summary', message: 'expected at least 1 characters' },
+    { path: '$.risk', message: 'expected one of "low", "medium", "high"' },
+    { path: '$.files[0].path', message: 'is required' },
+    { path: '$.extra', message: 'value is not allowed' },
+  ]);
+  assert.deepEqual(validateJsonSchema({ type: ['integer', 'null'] }, 1.5), [
+    { path: '$', message: 'expected integer | null, got number' },
+  ]);
+  assert.deepEqual(validateJsonSchema({ type: 'object', required: ['constructor'] }, {}), [
+    { path: '$.constructor', message: 'is required' },
+  ]);
+  assert.deepEqual(
+    validateJsonSchema({ type: 'object', properties: {}, additionalProperties: false }, { toString: 'x' }),
+    [{ path: '$.toString', message: 'value is not allowed' }],
+  );
+});
+
+test('unusable schemas fail with InvalidOutputError before the run starts', async () => {
+  assert.throws(
+    () => validateJsonSchema({ type: 'string', pattern: '(' }, 'x'),
+    (error: unknown) => error instanceof InvalidOutputError && /at #: pattern is not a valid/.test(error.message),
+  );
+  assert.throws(
+    () => validateJsonSchema({ properties: { file: { $ref: '#/$defs/missing' } } }, {}),
+    /at #\/properties\/file: \$ref "#\/\$defs\/missing" does not resolve to a schema/,
+  );
+
+  resetMockSessions();
+  const thread = await createHeadlessMock({ script: [turn({ summary: 'scripted' })] }).startThread();
+  const outputSchema = { type: 'object', properties: { id: { type: 'string', pattern: '(' } } };
+  await assert.rejects(
+    thread.run('Review the diff', { outputSchema }),
+    (error: unknown) => error instanceof InvalidOutputError && error.code === 'invalid_output',
+  );
+  const result = await thread.run('Review the diff');
+  assert.equal(result.text, JSON.stringify({ summary: 'scripted' }));
+});
+
+test('run re-prompts the thread with validation errors until the output conforms', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({
+    script: [turn({ summary: 'missing risk' }), turn({ summary: 'fixed', risk: 'medium' })],
+  });
+  const thread = await coder.startThread();
+
+  const result = await thread.run('Review the diff', {
+    outputSchema: SCHEMA,
+    structuredOutput: { maxRepairAttempts: 2 },
+  });
+  assert.deepEqual(result.json, { summary: 'fixed', risk: 'medium' });
+  assert.equal(result.validationErrors, undefined);
+});
+
+test('repair turns count towards the run usage and budget', async () => {
+  resetMockSessions();
+  const withUsage = (json: unknown, inputTokens: number): MockTurn => ({
+    events: [...turn(json).events, { type: 'usage', stats: { inputTokens, outputTokens: 2 } }],
+  });
+  const coder = createHeadlessMock({
+    script: [
+      withUsage({ summary: 'missing risk' }, 10),
+      withUsage({ summary: 'fixed', risk: 'low' }, 12),
+      withUsage({ summary: 'missing risk' }, 10),
+      withUsage({ summary: 'fixed', risk: 'low' }, 12),
+    ],
+  });
+  const thread = await coder.startThread();
+  const options = { outputSchema: SCHEMA, structuredOutput: { maxRepairAttempts: 1 } };
+
+  const result = await thread.run('Review the diff', options);
+  assert.deepEqual(result.usage, { inputTokens: 22, outputTokens: 4 });
+  assert.deepEqual(getThreadUsage(thread), { runs: 2, usage: { inputTokens: 22, outputTokens: 4 } });
+
+  await assert.rejects(
+    thread.run('Review again', { ...options, budget: { maxTokens: 20 } }),
+    (error: unknown) => error instanceof BudgetExceededError && error.max === 8 && error.actual === 14,
+  );
+});
+
+test('invalid output surfaces typed validation errors', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({
+    script: [
+      turn({ risk: 'low' }),
+      turn({ risk: 'low' }),
+      { events: [{ type: 'message', role: 'assistant', text: 'no json' }] },
+    ],
+  });
+  const thread = await coder.startThread();
+
+  const result = await thread.run('Review the diff', { outputSchema: SCHEMA });
+  assert.deepEqual(result.validationErrors, [{ path: '$.summary', message: 'is required' }]);
+
+  await assert.rejects(
+    thread.run('Review again', {
+      outputSchema: SCHEMA,
+      structuredOutput: { maxRepairAttempts: 1, throwOnInvalid: true },
+    }),
+    (error: unknown) => {
+      assert.ok(error instanceof StructuredOutputError);
+      assert.equal(error.code, 'invalid_output');
+      assert.equal(error.attempts, 2);
+      assert.deepEqual(error.issues, [{ path: '$', message: 'no JSON payload was found in the response' }]);
+      return true;
+    },
+  );
+});
+
+test('typed schemas infer RunResult.json and run the parser on valid payloads', async () => {
+  resetMockSessions();
+  const coder = createHeadlessMock({
+    script: [turn({ summary: 'inferred', risk: 'low' }), turn({ summary: 'parsed', risk: 'high' })],
+  });
+  const thread = await coder.startThread();
+
+  const inferred = await thread.run('Review the diff', { outputSchema: SCHEMA });
+  const summary: string | undefined = inferred.json?.summary;
+  const risk: 'low' | 'medium' | 'high' | undefined = inferred.json?.risk;
+  // @ts-expect-error properties outside the schema are not part of the inferred type
+  assert.equal(inferred.json?.extra, undefined);
+  assert.deepEqual([summary, risk], ['inferred', 'low']);
+
+  const parser = {
+    parse(value: unknown): { headline: string } {
+      return { headline: (value as { summary: string }).summary.toUpperCase() };
+    },
+  };
+  const parsed = await thread.run('Review again', { outputSchema: defineOutputSchema(SCHEMA, parser) });
+  const headline: string | undefined = parsed.json?.headline;
+  assert.equal(headline, 'PARSED');
+});
+
+test('adapter handles keep a non-generic run()', async () => {
+  // The adapter-facing contract: a plain `run` returning `RunResult` must stay assignable.
+  const handle: ThreadHandle = {
+    provider: 'custom',
+    internal: undefined,
+    run: async (_input: PromptInput, _opts?: RunOpts): Promise<RunResult> => ({ text: 'plain' }),
+    runStreamed: () => ({ async *[Symbol.asyncIterator]() {} }),
+  };
+  assert.equal((await handle.run('hello')).text, 'plain');
+});
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Checks that system messages and thread-level system prompts reach the
+ * provider's system channel (Gemini's system instruction and context files, Codex's config)
+ * instead of being prefixed to the prompt.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { chmod, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import { MemoryThreadStore, splitSystemMessages } from '@headless-coder-sdk/core';
+import type { PromptMessage } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { createTempDir } from './test-helpers';
+
+ensureAdaptersRegistered();
+
+const CONVERSATION: PromptMessage[] = [
+  { role: 'system', content: 'Never push to main.' },
+  { role: 'user', content: 'Add a changelog entry.' },
+  { role: 'assistant', content: 'Done, see CHANGELOG.md.' },
+  { role: 'system', content: [{ type: 'text', text: 'Keep entries under 80 characters.' }] },
+  { role: 'user', content: 'Now bump the version.' },
+];
+
+test('system messages are split from the conversation', () => {
+  const { system, input } = splitSystemMessages(CONVERSATION);
+  assert.equal(system, 'Never push to main.\n\nKeep entries under 80 characters.');
+  assert.deepEqual(
+    input,
+    CONVERSATION.filter(message => message.role !== 'system'),
+  );
+  assert.deepEqual(splitSystemMessages('plain'), { input: 'plain' });
+  const onlySystem: PromptMessage[] = [{ role: 'system', content: 'Be brief.' }];
+  assert.deepEqual(splitSystemMessages(onlySystem), { input: onlySystem });
+});
+
+async function createFakeGemini(dir: string): Promise<string> {
+  const binary = path.join(dir, 'fake-gemini.mjs');
+  await writeFile(
+    binary,
+    [
+      '#!/usr/bin/env node',
+      "import { existsSync, readFileSync } from 'node:fs';",
+      "import path from 'node:path';",
+      'const read = file => (file && existsSync(file) ? readFileSync(file, "utf8") : null);',
+      'const arg = name => (process.argv.includes(name) ? process.argv[process.argv.indexOf(name) + 1] : "");',
+      'const system = read(process.env.GEMINI_SYSTEM_MD);',
+      'const dir = arg("--include-directories").split(",").find(entry => existsSync(path.join(entry, "GEMINI.md")));',
+      'const context = dir ? read(path.join(dir, "GEMINI.md")) : null;',
+      'const settings = JSON.parse(read(process.env.GEMINI_CLI_SYSTEM_DEFAULTS_PATH) ?? "{}");',
+      'const loadsContext = settings.context?.loadMemoryFromIncludeDirectories ?? false;',
+      'const response = JSON.stringify({ dir, system, context, loadsContext, prompt: arg("--prompt") });',
+      'console.log(JSON.stringify({ session_id: "gemini-session", response }));',
+    ].join('\n'),
+    'utf8',
+  );
+  await chmod(binary, 0o755);
+  return binary;
+}
+
+test('gemini receives system messages as a GEMINI.md context file', async () => {
+  const dir = await createTempDir('system');
+  const binary = await createFakeGemini(dir);
+  const thread = await createCoder(GEMINI_CODER_NAME, { workingDirectory: dir, geminiBinaryPath: binary })
+    .startThread();
+
+  const first = JSON.parse((await thread.run(CONVERSATION)).text ?? '{}');
+  assert.equal(first.system, null);
+  assert.equal(first.context, 'Never push to main.\n\nKeep entries under 80 characters.\n');
+  assert.equal(first.loadsContext, true);
+  assert.equal(
+    first.prompt,
+    'user: Add a changelog entry.\nassistant: Done, see CHANGELOG.md.\nuser: Now bump the version.',
+  );
+  assert.ok(!existsSync(first.dir));
+
+  const second = JSON.parse((await thread.run('Thanks.')).text ?? '{}');
+  assert.deepEqual(second, { system: null, context: null, loadsContext: false, prompt: 'Thanks.' });
+});
+
+test('thread system prompts apply to every run and survive resumeThread', async () => {
+  const dir = await createTempDir('system');
+  const store = new MemoryThreadStore();
+  const binary = await createFakeGemini(dir);
+  const thread = await createCoder(GEMINI_CODER_NAME, undefined, { threadStore: store }).startThread({
+    workingDirectory: dir,
+    geminiBinaryPath: binary,
+    threadKey: 'standards',
+    systemPrompt: 'You maintain the billing service.',
+    appendSystemPrompt: 'Follow the team style guide.',
+  });
+  const first = JSON.parse((await thread.run(CONVERSATION.slice(0, 2))).text ?? '{}');
+  assert.equal(first.system, 'You maintain the billing service.\n');
+  assert.equal(first.context, 'Follow the team style guide.\n\nNever push to main.\n');
+
+  const resumed = await createCoder(GEMINI_CODER_NAME, undefined, { threadStore: store }).resumeThread('standards');
+  const second = JSON.parse((await resumed.run('Bump the version.')).text ?? '{}');
+  assert.equal(second.system, 'You maintain the billing service.\n');
+  assert.equal(second.context, 'Follow the team style guide.\n');
+
+  const source = await createTempDir('codex-source');
+  await writeFile(path.join(source, 'config.toml'), 'model = "gpt-5"\n', 'utf8');
+  const previous = process.env.CODEX_HOME;
+  process.env.CODEX_HOME = source;
+  try {
+    const codex = await createCoder(CODEX_CODER_NAME, { systemPrompt: 'You maintain the billing service.' })
+      .startThread();
+    const home = (codex.internal as { codexHome: string }).codexHome;
+    const instructions = path.join(home, 'headless-coder-instructions.md');
+    assert.equal(
+      await readFile(path.join(home, 'config.toml'), 'utf8'),
+      `experimental_instructions_file = ${JSON.stringify(instructions)}\n\nmodel = "gpt-5"\n`,
+    );
+    assert.equal(await readFile(instructions, 'utf8'), 'You maintain the billing service.\n');
+    await codex.close?.();
+  } finally {
+    if (previous === undefined) delete process.env.CODEX_HOME;
+    else process.env.CODEX_HOME = previous;
+  }
+});
@@ -0,0 +1,36 @@
+import { afterEach } from 'node:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { CassetteEntry, CoderStreamEvent } from '@headless-coder-sdk/core';
+
+const tempDirs: string[] = [];
+
+// Every directory from `createTempDir` is removed once the test that created it ends.
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map(dir => rm(dir, { recursive: true, force: true })));
+});
+
+/** Creates a `headless-coder-<name>-*` directory under the OS temp dir, removed after the current test. */
+export async function createTempDir(name: string): Promise<string> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), `headless-coder-${name}-`));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/** Writes a replay cassette with the given entries into a fresh temp dir and returns its path. */
+export async function writeCassette(name: string, entries: Array<Omit<CassetteEntry, 'recordedAt'>>): Promise<string> {
+  const file = path.join(await createTempDir(name), 'cassette.jsonl');
+  const lines = entries.map(entry => JSON.stringify({ ...entry, recordedAt: 0 }));
+  await writeFile(file, `${lines.join('\n')}\n`, 'utf8');
+  return file;
+}
+
+/** Drains a stream into an array of its events. */
+export async function collect(iterable: AsyncIterable<CoderStreamEvent>): Promise<CoderStreamEvent[]> {
+  const events: CoderStreamEvent[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+  }
+  return events;
+}
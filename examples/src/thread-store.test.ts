@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Checks thread stores: records written by createCoder, lookups by
+ * caller keys, and file-backed persistence across store instances.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { FileThreadStore, MemoryThreadStore } from '@headless-coder-sdk/core';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { createTempDir } from './test-helpers';
+
+registerAdapter(createMockAdapter);
+
+const START_OPTS: MockStartOpts = {
+  workingDirectory: '/tmp/project',
+  script: {
+    threadId: 'mock-stored-thread',
+    turns: [
+      {
+        events: [
+          { type: 'message', role: 'assistant', text: 'first' },
+          { type: 'usage', stats: { inputTokens: 3, outputTokens: 1 } },
+        ],
+      },
+      { events: [{ type: 'message', role: 'assistant', text: 'second' }] },
+      { events: [{ type: 'error', code: 'turn.failed', message: 'boom' }] },
+    ],
+  },
+};
+
+test('file thread store survives restarts and resumes threads by key', async () => {
+  resetMockSessions();
+  const dir = await createTempDir('threads');
+  const file = path.join(dir, 'threads.json');
+
+  const coder = createCoder(MOCK_CODER_NAME, START_OPTS, { threadStore: new FileThreadStore(file) });
+  const thread = await coder.startThread({ threadKey: 'ticket-42' });
+  assert.equal((await thread.run('hello')).text, 'first');
+
+  const [record] = await new FileThreadStore(file).list();
+  assert.equal(record.key, 'ticket-42');
+  assert.equal(record.provider, MOCK_CODER_NAME);
+  assert.equal(record.threadId, 'mock-stored-thread');
+  assert.equal(record.startOpts?.workingDirectory, '/tmp/project');
+  assert.equal(record.startOpts?.threadKey, undefined);
+  assert.equal(record.lastRun?.status, 'completed');
+  assert.deepEqual(record.lastRun?.usage, { inputTokens: 3, outputTokens: 1 });
+
+  // A fresh coder and store stand in for a restarted process.
+  const restarted = createCoder(MOCK_CODER_NAME, undefined, { threadStore: new FileThreadStore(file) });
+  const resumed = await restarted.resumeThread('ticket-42');
+  assert.equal(resumed.id, 'mock-stored-thread');
+  assert.equal((await resumed.run('again')).text, 'second');
+
+  await assert.rejects(resumed.run('fail'), /boom/);
+  const updated = await new FileThreadStore(file).get('ticket-42');
+  assert.equal(updated?.lastRun?.status, 'failed');
+  assert.equal(updated?.lastRun?.error, 'boom');
+  assert.equal(updated?.createdAt, record.createdAt);
+});
+
+test('memory thread store records streamed runs under the thread id', async () => {
+  resetMockSessions();
+  const store = new MemoryThreadStore();
+  const coder = createCoder(MOCK_CODER_NAME, START_OPTS, { threadStore: store });
+  const thread = await coder.startThread();
+  for await (const _event of thread.runStreamed('hello')) {
+    // drain
+  }
+
+  const record = await store.get('mock-stored-thread');
+  assert.equal(record?.lastRun?.status, 'completed');
+  assert.ok(record?.lastRun?.finishedAt);
+
+  await store.set({ ...record!, key: 'other', provider: 'codex' });
+  await assert.rejects(coder.resumeThread('other'), /belongs to provider "codex"/);
+  assert.equal(await store.delete('other'), true);
+  assert.equal((await store.list()).length, 1);
+});
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Checks that every adapter streams tool calls with a stable `callId` and that
+ * `createCoder` enriches each `tool_result` with its originating call.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import type { CassetteEntry, CoderStreamEvent } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { createHeadlessMock, resetMockSessions } from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+
+type ToolUse = Extract<CoderStreamEvent, { type: 'tool_use' }>;
+type ToolResult = Extract<CoderStreamEvent, { type: 'tool_result' }>;
+
+async function collectToolEvents(
+  provider: string,
+  entry: Omit<CassetteEntry, 'recordedAt' | 'provider'>,
+): Promise<{ uses: ToolUse[]; results: ToolResult[] }> {
+  const file = await writeCassette('tool-calls', [{ provider, ...entry }]);
+  const thread = await createCoder(provider, { cassette: { mode: 'replay', path: file } }).startThread();
+  const uses: ToolUse[] = [];
+  const results: ToolResult[] = [];
+  for await (const event of thread.runStreamed('run the tools')) {
+    if (event.type === 'tool_use') uses.push(event);
+    if (event.type === 'tool_result') results.push(event);
+  }
+  return { uses, results };
+}
+
+function assertPaired(use: ToolUse, result: ToolResult): void {
+  assert.equal(result.callId, use.callId);
+  assert.equal(result.name, use.name);
+  assert.deepEqual(result.args, use.args);
+  assert.equal(result.startedAt, use.ts);
+  assert.equal(result.endedAt, result.ts);
+  assert.equal(result.durationMs, result.ts - use.ts);
+}
+
+test('gemini tool calls without ids get stable callIds and named results', async () => {
+  const { uses, results } = await collectToolEvents(GEMINI_CODER_NAME, {
+    threadId: 'gemini-session-1',
+    events: [
+      { type: 'init', session_id: 'gemini-session-1' },
+      { type: 'tool_use', tool_name: 'read_file', parameters: { file_path: 'README.md' } },
+      { type: 'tool_use', tool_name: 'run_shell_command', tool_id: null, parameters: { command: 'npm test' } },
+      { type: 'tool_result', tool_name: 'run_shell_command', status: 'error', output: '1 failing' },
+      { type: 'tool_result', tool_name: 'read_file', status: 'success', output: '# Readme' },
+      { type: 'result', stats: { total_tokens: 5 } },
+    ],
+    output: { exitCode: 0, stderr: '' },
+  });
+
+  assert.equal(uses.length, 2);
+  assert.match(uses[0].callId ?? '', /^gemini-/);
+  assert.notEqual(uses[0].callId, uses[1].callId);
+  assertPaired(uses[1], results[0]);
+  assertPaired(uses[0], results[1]);
+  assert.equal(results[0].status, 'failed');
+  assert.equal(results[1].status, 'succeeded');
+});
+
+test('claude tool results carry the name of their call', async () => {
+  const { uses, results } = await collectToolEvents(CLAUDE_CODER_NAME, {
+    threadId: 'claude-session-1',
+    events: [
+      { type: 'system', subtype: 'init', session_id: 'claude-session-1', model: 'claude-sonnet' },
+      {
+        type: 'assistant',
+        session_id: 'claude-session-1',
+        message: {
+          content: [
+            { type: 'text', text: 'Running the tests.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm test' } },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        session_id: 'claude-session-1',
+        message: {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Error: 1 failing', is_error: true }],
+        },
+      },
+      { type: 'result', subtype: 'success', session_id: 'claude-session-1', result: 'Done' },
+    ],
+  });
+
+  assert.deepEqual(
+    uses.map(use => [use.callId, use.name]),
+    [['toolu_1', 'Bash']],
+  );
+  assertPaired(uses[0], results[0]);
+  assert.equal(results[0].result, 'Error: 1 failing');
+  assert.equal(results[0].error, 'Error: 1 failing');
+  assert.equal(results[0].status, 'failed');
+});
+
+test('codex tool items become tool calls with results', async () => {
+  const { uses, results } = await collectToolEvents(CODEX_CODER_NAME, {
+    threadId: 'codex-thread-1',
+    events: [
+      { type: 'thread.started', thread_id: 'codex-thread-1' },
+      {
+        type: 'item.started',
+        item: { id: 'item_1', type: 'command_execution', command: 'npm test', status: 'in_progress' },
+      },
+      {
+        type: 'item.completed',
+        item: {
+          id: 'item_1',
+          type: 'command_execution',
+          command: 'npm test',
+          aggregated_output: 'all passing',
+          exit_code: 0,
+          status: 'completed',
+        },
+      },
+      {
+        type: 'item.completed',
+        item: { id: 'item_2', type: 'file_change', changes: [{ path: 'src/a.ts', kind: 'update' }], status: 'failed' },
+      },
+      { type: 'turn.completed', usage: { input_tokens: 10, cached_input_tokens: 0, output_tokens: 3 } },
+    ],
+  });
+
+  assert.deepEqual(
+    uses.map(use => [use.callId, use.name]),
+    [
+      ['item_1', 'command_execution'],
+      ['item_2', 'file_change'],
+    ],
+  );
+  assertPaired(uses[0], results[0]);
+  assertPaired(uses[1], results[1]);
+  assert.equal(results[0].result, 'all passing');
+  assert.equal(results[0].status, 'succeeded');
+  assert.equal(results[1].status, 'failed');
+});
+
+test('tool results report start, end and duration', async () => {
+  resetMockSessions();
+  const thread = await createHeadlessMock({
+    script: {
+      turns: [
+        {
+          events: [
+            { type: 'tool_use', name: 'Read', args: { file_path: 'a.ts' }, ts: 1_000 },
+            { type: 'tool_result', name: 'Read', result: 'export {};', ts: 1_250 },
+          ],
+        },
+      ],
+    },
+  }).startThread();
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('read a.ts')) {
+    events.push(event);
+  }
+  const use = events.find((event): event is ToolUse => event.type === 'tool_use')!;
+  const result = events.find((event): event is ToolResult => event.type === 'tool_result')!;
+  assert.match(use.callId ?? '', /^mock-/);
+  assert.deepEqual(
+    [result.callId, result.name, result.args, result.status, result.startedAt, result.endedAt, result.durationMs],
+    [use.callId, 'Read', { file_path: 'a.ts' }, 'succeeded', 1_000, 1_250, 250],
+  );
+});
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Records transcripts through the middleware pipeline with the mock
+ * adapter and checks the JSONL, Markdown, and HTML exports.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { TranscriptRecorder, exportTranscript, type RunResult } from '@headless-coder-sdk/core';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { EDITING_CODER_NAME, ensureEditingAdapterRegistered, pendingEdits } from './editing-adapter';
+import { createTempDir } from './test-helpers';
+
+registerAdapter(createMockAdapter);
+ensureEditingAdapterRegistered();
+
+const START_OPTS: MockStartOpts = {
+  script: {
+    threadId: 'mock-transcript',
+    turns: [
+      {
+        events: [
+          { type: 'init', threadId: 'mock-transcript', model: 'mock-model' },
+          { type: 'message', role: 'assistant', text: 'Listing ', delta: true },
+          { type: 'message', role: 'assistant', text: 'files', delta: true },
+          { type: 'tool_use', name: 'shell', callId: 'c1', args: { command: 'ls' } },
+          { type: 'tool_result', name: 'shell', callId: 'c1', result: '<README.md>', exitCode: 0 },
+          { type: 'file_change', path: 'src/a.ts', op: 'modify', patch: '@@ -1 +1 @@\n-a\n+b' },
+          { type: 'usage', stats: { inputTokens: 10, outputTokens: 5 } },
+          { type: 'done' },
+        ],
+      },
+      { events: [{ type: 'message', role: 'assistant', text: 'All good' }] },
+      { events: [{ type: 'error', code: 'turn.failed', message: 'boom' }] },
+    ],
+  },
+};
+
+test('transcript recorder captures prompts, events, results, and errors per thread', async () => {
+  resetMockSessions();
+  const recorder = new TranscriptRecorder();
+  const coder = createCoder(MOCK_CODER_NAME, START_OPTS, { middleware: [recorder] });
+  const thread = await coder.startThread();
+
+  for await (const _event of thread.runStreamed('List the files')) {
+    // drain
+  }
+  await thread.run('Summarise');
+  await assert.rejects(thread.run('Fail please'), /boom/);
+
+  const transcript = recorder.get(thread);
+  assert.ok(transcript);
+  assert.equal(transcript.provider, MOCK_CODER_NAME);
+  assert.equal(transcript.threadId, 'mock-transcript');
+  assert.deepEqual(recorder.list(), [transcript]);
+  assert.deepEqual(
+    transcript.entries.filter(entry => entry.type !== 'event').map(entry => `${entry.run}:${entry.type}`),
+    ['1:prompt', '2:prompt', '2:result', '3:prompt', '3:error'],
+  );
+  const events = transcript.entries.filter(entry => entry.type === 'event');
+  assert.deepEqual(
+    events.filter(entry => entry.run === 2).map(entry => entry.type === 'event' && entry.event.type),
+    ['message', 'done'],
+  );
+  assert.equal(events.length, 10);
+  assert.ok(events.every(entry => entry.type === 'event' && !('originalItem' in entry.event)));
+
+  const jsonl = exportTranscript(transcript, 'jsonl').trim().split('\n');
+  assert.equal(jsonl.length, transcript.entries.length + 1);
+  assert.deepEqual(JSON.parse(jsonl[0]).type, 'transcript');
+
+  const markdown = exportTranscript(transcript, 'markdown');
+  assert.match(markdown, /^# Transcript: mock thread mock-transcript/);
+  assert.match(markdown, /\*\*Assistant\*\*\n\nListing files\n/);
+  assert.match(markdown, /\*\*Tool call shell \(c1\)\*\*\n\n```json\n\{\n {2}"command": "ls"\n\}\n```/);
+  assert.match(markdown, /- \*\*File change:\*\* modify src\/a\.ts/);
+  assert.match(markdown, /- \*\*Usage:\*\* inputTokens 10 · outputTokens 5/);
+  assert.match(markdown, /- \*\*Error:\*\* turn\.failed: boom/);
+
+  const html = exportTranscript(transcript, 'html');
+  assert.match(html, /^<!doctype html>/);
+  assert.match(html, /&lt;README\.md&gt;/);
+  assert.doesNotMatch(html, /<README\.md>/);
+});
+
+test('run() transcripts record changed files and the provider payload', async () => {
+  resetMockSessions();
+  const dir = await createTempDir('transcript');
+  await writeFile(path.join(dir, 'a.txt'), 'one\n', 'utf8');
+  const recorder = new TranscriptRecorder({ includeOriginalItems: true });
+  const startOpts: MockStartOpts = {
+    workingDirectory: dir,
+    script: [{ events: [{ type: 'message', role: 'assistant', text: 'edited' }] }],
+  };
+  const coder = createCoder(EDITING_CODER_NAME, startOpts, { middleware: [recorder], trackChanges: true });
+  const thread = await coder.startThread();
+
+  pendingEdits.push((cwd: string) => writeFile(path.join(cwd, 'a.txt'), 'two\n', 'utf8'));
+  const result = await thread.run('edit a.txt');
+  await thread.close?.();
+
+  const entries = recorder.get(thread)!.entries;
+  assert.deepEqual(
+    entries.map(entry => (entry.type === 'event' ? entry.event.type : entry.type)),
+    ['prompt', 'message', 'file_change', 'done', 'raw', 'result'],
+  );
+  const change = entries[2].type === 'event' ? entries[2].event : undefined;
+  assert.equal(change?.type === 'file_change' && change.patch, result.changes?.files[0].patch);
+  assert.deepEqual(entries[4].type === 'raw' && entries[4].raw, result.raw);
+  assert.match(exportTranscript(recorder.get(thread)!, 'markdown'), /- \*\*File change:\*\* modify a\.txt/);
+});
+
+test('run() transcripts record tool calls and flag runs whose events cannot be rebuilt', async () => {
+  resetMockSessions();
+  const recorder = new TranscriptRecorder();
+  const dropRaw = { transformResult: (result: RunResult) => ({ ...result, raw: undefined }) };
+  const coder = createCoder(MOCK_CODER_NAME, START_OPTS, { middleware: [recorder] });
+  const opaque = createCoder(MOCK_CODER_NAME, START_OPTS, { middleware: [dropRaw, recorder] });
+  const thread = await coder.startThread();
+  const opaqueThread = await opaque.startThread();
+
+  await thread.run('List the files');
+  await opaqueThread.run('List the files');
+
+  const types = (handle: typeof thread) =>
+    recorder.get(handle)!.entries.map(entry => (entry.type === 'event' ? entry.event.type : entry.type));
+  assert.deepEqual(types(thread), [
+    'prompt',
+    'init',
+    'message',
+    'message',
+    'tool_use',
+    'tool_result',
+    'file_change',
+    'usage',
+    'done',
+    'result',
+  ]);
+  assert.match(exportTranscript(recorder.get(thread)!, 'markdown'), /\*\*Tool call shell \(c1\)\*\*/);
+  assert.deepEqual(types(opaqueThread), ['prompt', 'warning', 'result']);
+  assert.match(
+    exportTranscript(recorder.get(opaqueThread)!, 'markdown'),
+    /- \*\*Warning:\*\* The mock adapter cannot rebuild the events of run\(\); tool calls are not recorded\./,
+  );
+});
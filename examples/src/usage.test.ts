@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Checks usage normalisation for each adapter, cost from the price table
+ * and per-thread usage totals.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { clearPrices, computeCost, getThreadUsage, registerPrices } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent, UsageStats } from '@headless-coder-sdk/core';
+import { CODER_NAME as CODEX_CODER_NAME } from '@headless-coder-sdk/codex-adapter';
+import { CODER_NAME as CLAUDE_CODER_NAME } from '@headless-coder-sdk/claude-adapter';
+import { CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { ensureAdaptersRegistered } from './register-adapters';
+import { writeCassette } from './test-helpers';
+
+ensureAdaptersRegistered();
+registerAdapter(createMockAdapter);
+
+async function lastUsage(iterable: AsyncIterable<CoderStreamEvent>): Promise<UsageStats | undefined> {
+  let stats: UsageStats | undefined;
+  for await (const event of iterable) {
+    if (event.type === 'usage') stats = event.stats;
+  }
+  return stats;
+}
+
+function tokens(usage: UsageStats | undefined) {
+  const { durationMs, raw, ...rest } = usage ?? {};
+  assert.equal(typeof durationMs, 'number');
+  assert.ok(raw);
+  return rest;
+}
+
+test('codex usage is normalised with tool calls counted', async () => {
+  const usage = { input_tokens: 100, cached_input_tokens: 40, output_tokens: 20 };
+  const events = [
+    { type: 'thread.started', thread_id: 'codex-usage' },
+    { type: 'item.completed', item: { id: 'item_0', type: 'command_execution', command: 'ls' } },
+    { type: 'item.completed', item: { id: 'item_1', type: 'agent_message', text: 'done' } },
+    { type: 'turn.completed', usage },
+  ];
+  const file = await writeCassette('usage', [
+    { provider: CODEX_CODER_NAME, threadId: 'codex-usage', events },
+    { provider: CODEX_CODER_NAME, threadId: 'codex-usage', events },
+  ]);
+  const thread = await createCoder(CODEX_CODER_NAME, { cassette: { mode: 'replay', path: file } }).startThread();
+  const expected = { inputTokens: 100, cachedInputTokens: 40, outputTokens: 20, totalTokens: 120, toolCalls: 1 };
+
+  const streamed = await lastUsage(thread.runStreamed('hello'));
+  assert.deepEqual(tokens(streamed), expected);
+  assert.deepEqual(streamed?.raw, usage);
+
+  const result = await thread.run('hello again');
+  assert.deepEqual(tokens(result.usage), expected);
+});
+
+test('claude usage folds cache tokens into input and keeps the reported cost', async () => {
+  const messages = [
+    { type: 'system', subtype: 'init', session_id: 'claude-usage' },
+    {
+      type: 'assistant',
+      session_id: 'claude-usage',
+      message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }] },
+    },
+    { type: 'assistant', session_id: 'claude-usage', message: { content: [{ type: 'text', text: 'done' }] } },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: 'claude-usage',
+      result: 'done',
+      duration_ms: 1500,
+      total_cost_usd: 0.01,
+      modelUsage: { 'claude-sonnet-4-5': {} },
+      usage: { input_tokens: 10, cache_read_input_tokens: 80, cache_creation_input_tokens: 5, output_tokens: 7 },
+    },
+  ];
+  const file = await writeCassette('usage', [
+    { provider: CLAUDE_CODER_NAME, threadId: 'claude-usage', events: messages },
+  ]);
+  const thread = await createCoder(CLAUDE_CODER_NAME, { cassette: { mode: 'replay', path: file } }).startThread();
+
+  const result = await thread.run('hello');
+  assert.deepEqual(tokens(result.usage), {
+    inputTokens: 95,
+    cachedInputTokens: 80,
+    outputTokens: 7,
+    totalTokens: 102,
+    toolCalls: 1,
+    costUsd: 0.01,
+    model: 'claude-sonnet-4-5',
+  });
+  assert.equal(result.usage?.durationMs, 1500);
+});
+
+test('gemini usage is normalised from stream and buffered stats', async () => {
+  const stats = {
+    models: {
+      'gemini-2.5-pro': { tokens: { prompt: 50, candidates: 10, total: 66, cached: 20, thoughts: 6, tool: 0 } },
+    },
+    tools: { totalCalls: 2 },
+  };
+  const file = await writeCassette('usage', [
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-usage',
+      events: [
+        { type: 'init', session_id: 'gemini-usage', model: 'gemini-2.5-pro' },
+        { type: 'tool_use', tool_name: 'ls', tool_id: 't1', parameters: {} },
+        { type: 'result', stats: { input_tokens: 30, output_tokens: 4, total_tokens: 34, duration_ms: 900 } },
+      ],
+      output: { exitCode: 0 },
+    },
+    {
+      provider: GEMINI_CODER_NAME,
+      threadId: 'gemini-usage',
+      events: [],
+      output: { stdout: JSON.stringify({ session_id: 'gemini-usage', response: 'hi', stats }), stderr: '', exitCode: 0 },
+    },
+  ]);
+  const thread = await createCoder(GEMINI_CODER_NAME, { cassette: { mode: 'replay', path: file } }).startThread();
+
+  const streamed = await lastUsage(thread.runStreamed('hello'));
+  assert.deepEqual(tokens(streamed), { inputTokens: 30, outputTokens: 4, totalTokens: 34, toolCalls: 1 });
+  assert.equal(streamed?.durationMs, 900);
+
+  const result = await thread.run('hello again');
+  assert.deepEqual(tokens(result.usage), {
+    inputTokens: 50,
+    cachedInputTokens: 20,
+    outputTokens: 16,
+    reasoningTokens: 6,
+    totalTokens: 66,
+    toolCalls: 2,
+    model: 'gemini-2.5-pro',
+  });
+});
+
+test('price table computes cost per run and cumulative cost per thread', async () => {
+  resetMockSessions();
+  const turn = { events: [{ type: 'usage' as const, stats: { inputTokens: 1_000, outputTokens: 500 } }] };
+  const startOpts: MockStartOpts = { model: 'mock-large', script: { turns: [turn, turn, turn] } };
+  const coder = createCoder(MOCK_CODER_NAME, startOpts, {
+    prices: { 'mock-large': { inputPerMillion: 2, outputPerMillion: 10 } },
+  });
+  const thread = await coder.startThread();
+
+  const result = await thread.run('first');
+  assert.equal(result.usage?.model, 'mock-large');
+  assert.equal(result.usage?.costUsd, 0.007);
+
+  const streamed = await lastUsage(thread.runStreamed('second'));
+  assert.equal(streamed?.costUsd, 0.007);
+
+  const total = getThreadUsage(thread);
+  assert.equal(total?.runs, 2);
+  assert.equal(total?.usage.inputTokens, 2_000);
+  assert.equal(total?.usage.outputTokens, 1_000);
+  assert.equal(total?.usage.costUsd, 0.014);
+});
+
+test('global prices fall back to the adapter name and price cache hits separately', () => {
+  registerPrices({ [MOCK_CODER_NAME]: { inputPerMillion: 1, outputPerMillion: 4, cachedInputPerMillion: 0.1 } });
+  try {
+    const usage = { inputTokens: 1_000_000, cachedInputTokens: 500_000, outputTokens: 100_000, model: 'unlisted' };
+    assert.equal(computeCost(usage, MOCK_CODER_NAME), 0.95);
+    assert.equal(computeCost(usage, CODEX_CODER_NAME), undefined);
+  } finally {
+    clearPrices();
+  }
+});
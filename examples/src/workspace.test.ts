@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Checks per-thread workspace isolation: git worktrees inside repositories,
+ * temporary copies elsewhere, and diffing, merging and discarding them.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, realpath, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { getWorkspace } from '@headless-coder-sdk/core';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMockAdapter,
+  resetMockSessions,
+  type MockStartOpts,
+} from '@headless-coder-sdk/mock-adapter';
+import { createTempDir } from './test-helpers';
+
+registerAdapter(createMockAdapter);
+
+const SCRIPT: MockStartOpts['script'] = [{ events: [{ type: 'message', role: 'assistant', text: 'done' }] }];
+
+async function createRepository(): Promise<string> {
+  const dir = await realpath(await createTempDir('workspace-repo'));
+  await mkdir(path.join(dir, 'src'));
+  await writeFile(path.join(dir, 'src', 'index.ts'), 'export const value = 1;\n', 'utf8');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' });
+  git('init', '--quiet');
+  git('add', '--all');
+  git('-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '--quiet', '--message', 'initial');
+  return dir;
+}
+
+test('threads in a git repository run in a worktree that can be diffed and merged back', async () => {
+  resetMockSessions();
+  const repo = await createRepository();
+  const startOpts: MockStartOpts = { workingDirectory: path.join(repo, 'src'), isolation: true, script: SCRIPT };
+  const thread = await createCoder(MOCK_CODER_NAME, startOpts).startThread();
+  const workspace = getWorkspace(thread);
+  assert.ok(workspace);
+  assert.equal(workspace.kind, 'worktree');
+  assert.equal(workspace.sourceRoot, repo);
+  assert.equal(workspace.path, path.join(workspace.root, 'src'));
+  assert.equal((thread.internal as { opts: MockStartOpts }).opts.workingDirectory, workspace.path);
+  assert.equal((await thread.run('edit')).text, 'done');
+
+  await writeFile(path.join(workspace.path, 'index.ts'), 'export const value = 2;\n', 'utf8');
+  await writeFile(path.join(workspace.path, 'added.ts'), 'export {};\n', 'utf8');
+  const patch = await workspace.diff();
+  assert.match(patch, /^\+export const value = 2;$/m);
+  assert.match(patch, /src\/added\.ts/);
+  assert.equal(await readFile(path.join(repo, 'src', 'index.ts'), 'utf8'), 'export const value = 1;\n');
+
+  await workspace.merge();
+  assert.equal(await readFile(path.join(repo, 'src', 'index.ts'), 'utf8'), 'export const value = 2;\n');
+  assert.ok(existsSync(path.join(repo, 'src', 'added.ts')));
+
+  await workspace.discard();
+  assert.ok(!existsSync(workspace.root));
+  const branches = execFileSync('git', ['branch', '--list', workspace.branch!], { cwd: repo, encoding: 'utf8' });
+  assert.equal(branches, '');
+  await assert.rejects(workspace.diff(), /was discarded/);
+});
+
+test('other directories are copied and onClose decides what happens on close', async () => {
+  resetMockSessions();
+  const dir = await createTempDir('workspace-dir');
+  await writeFile(path.join(dir, 'notes.txt'), 'draft\n', 'utf8');
+  const defaults: MockStartOpts = { workingDirectory: dir, script: SCRIPT };
+  const coder = createCoder(MOCK_CODER_NAME, defaults);
+
+  const merged = await coder.startThread({ isolation: { onClose: 'merge' } });
+  const copy = getWorkspace(merged)!;
+  assert.equal(copy.kind, 'copy');
+  assert.equal(copy.path, copy.root);
+  await writeFile(path.join(copy.path, 'notes.txt'), 'final\n', 'utf8');
+  await coder.close?.(merged);
+  assert.equal(await readFile(path.join(dir, 'notes.txt'), 'utf8'), 'final\n');
+  assert.ok(!existsSync(copy.root));
+
+  const discarded = await coder.startThread({ isolation: { onClose: 'discard' } });
+  const scratch = getWorkspace(discarded)!;
+  await writeFile(path.join(scratch.path, 'notes.txt'), 'scratch\n', 'utf8');
+  await discarded.close?.();
+  await discarded.close?.();
+  assert.equal(await readFile(path.join(dir, 'notes.txt'), 'utf8'), 'final\n');
+  assert.ok(!existsSync(scratch.root));
+
+  assert.equal(getWorkspace(await coder.startThread()), undefined);
+  await assert.rejects(coder.startThread({ isolation: { mode: 'worktree' } }), /not inside a git repository/);
+});
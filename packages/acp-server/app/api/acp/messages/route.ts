@@ -10,6 +10,7 @@ import { sessions } from '@/acp/store';
 import { verifyRequestAuth } from '@/acp/auth';
 import { mapEventToFrames } from '@/acp/mapper';
 import { jsonl } from '@/acp/utils';
+import type { ProviderId } from '@/acp/types';
 
 export async function POST(request: NextRequest) {
   const authError = verifyRequestAuth(request);
@@ -28,25 +29,25 @@ export async function POST(request: NextRequest) {
     return new Response('sessionId is required', { status: 400 });
   }
 
-  const session = sessions.get(sessionId);
+  const session = await sessions.get(sessionId);
   if (!session) {
     return new Response('Unknown session', { status: 404 });
   }
-  if (!cfg.enabledAgents.includes(session.provider)) {
+  const provider = session.provider as ProviderId;
+  if (!cfg.enabledAgents.includes(provider)) {
     return new Response('Provider not enabled', { status: 400 });
   }
 
-  const coder = createCoder(session.provider);
-  const thread = session.threadId
-    ? await coder.resumeThread(session.threadId)
-    : await coder.startThread();
+  // The session store resumes the stored thread with its original StartOpts and
+  // records the thread id and run outcome after every run.
+  const coder = createCoder(provider, undefined, { threadStore: sessions });
+  const thread = await coder.resumeThread(sessionId);
 
   const url = new URL(request.url);
   const stream = url.searchParams.get('stream') === 'true';
 
   if (!stream) {
     const result = await thread.run(content, { outputSchema });
-    sessions.set(sessionId, { provider: session.provider, threadId: thread.id });
     return Response.json({ text: result.text, json: result.json, usage: result.usage });
   }
 
@@ -64,8 +65,6 @@ export async function POST(request: NextRequest) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         controller.enqueue(jsonl({ type: 'error', message }));
         controller.close();
-      } finally {
-        sessions.set(sessionId, { provider: session.provider, threadId: thread.id });
       }
     },
   });
@@ -4,6 +4,7 @@ export const dynamic = 'force-dynamic';
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { createCoder } from '@headless-coder-sdk/core';
+import type { StartOpts } from '@headless-coder-sdk/core/types';
 import { loadConfig } from '@/acp/config';
 import { ensureAdaptersRegistered } from '@/acp/registry';
 import { sessions, buildSessionId } from '@/acp/store';
@@ -28,15 +29,24 @@ export async function POST(request: NextRequest) {
     return new NextResponse('Provider not enabled', { status: 400 });
   }
 
-  const coder = createCoder(provider, {
+  const startOpts: StartOpts = {
     model: body.model ?? cfg.defaults.model ?? undefined,
     workingDirectory: body.workingDirectory ?? cfg.defaults.workingDirectory,
     sandboxMode: cfg.defaults.sandboxMode,
-  });
+  };
+  const coder = createCoder(provider, startOpts);
 
   const thread = await coder.startThread();
   const sessionId = buildSessionId(provider, thread.id);
-  sessions.set(sessionId, { provider, threadId: thread.id });
+  const createdAt = Date.now();
+  await sessions.set({
+    key: sessionId,
+    provider,
+    threadId: thread.id,
+    startOpts: JSON.parse(JSON.stringify(startOpts)),
+    createdAt,
+    updatedAt: createdAt,
+  });
 
   return NextResponse.json({ sessionId, provider, threadId: thread.id });
 }
@@ -1,36 +1,14 @@
 import { randomUUID } from 'node:crypto';
-import type { SessionRecord, ProviderId } from './types';
-
-class SessionStore {
-  private readonly map = new Map<string, SessionRecord>();
-
-  set(sessionId: string, record: SessionRecord): void {
-    this.map.set(sessionId, record);
-  }
-
-  get(sessionId: string): SessionRecord | undefined {
-    return this.map.get(sessionId);
-  }
-
-  has(sessionId: string): boolean {
-    return this.map.has(sessionId);
-  }
-
-  delete(sessionId: string): boolean {
-    return this.map.delete(sessionId);
-  }
-
-  entries(): IterableIterator<[string, SessionRecord]> {
-    return this.map.entries();
-  }
-}
+import { FileThreadStore } from '@headless-coder-sdk/core';
+import { env } from '../env';
+import type { ProviderId } from './types';
 
 const GLOBAL_KEY = Symbol.for('acp.sessionStore');
 
-function getGlobalStore(): SessionStore {
-  const globalAny = globalThis as { [GLOBAL_KEY]?: SessionStore };
+function getGlobalStore(): FileThreadStore {
+  const globalAny = globalThis as { [GLOBAL_KEY]?: FileThreadStore };
   if (!globalAny[GLOBAL_KEY]) {
-    globalAny[GLOBAL_KEY] = new SessionStore();
+    globalAny[GLOBAL_KEY] = new FileThreadStore(env.sessionStorePath);
   }
   return globalAny[GLOBAL_KEY]!;
 }
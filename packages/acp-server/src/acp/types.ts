@@ -12,8 +12,3 @@ export interface AcpConfig {
   enabledAgents: ProviderId[];
   defaults: AcpDefaults;
 }
-
-export interface SessionRecord {
-  provider: ProviderId;
-  threadId?: string;
-}
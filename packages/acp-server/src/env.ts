@@ -1,7 +1,11 @@
+import path from 'node:path';
+
 export interface Env {
   acpToken: string | null;
+  sessionStorePath: string;
 }
 
 export const env: Env = {
   acpToken: process.env.ACP_TOKEN?.trim() || null,
+  sessionStorePath: path.resolve(process.env.ACP_SESSION_STORE?.trim() || '.acp/sessions.json'),
 };
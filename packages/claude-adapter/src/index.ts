@@ -5,28 +5,68 @@
 import {
   query,
   type SDKMessage,
+  type SDKUserMessage,
   type Options,
   type Query as ClaudeQuery,
   type PermissionMode,
+  type CanUseTool,
+  type HookCallback,
 } from '@anthropic-ai/claude-agent-sdk';
 import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
 import {
   now,
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  openCassette,
+  recordEvents,
+  replayEvents,
+  normalizeRunOpts,
+  createUsageStats,
+  addUsage,
+  createBudgetMonitor,
+  createBudgetExceededEvent,
+  requestPermission,
+  createPermissionEvent,
+  checkToolPolicy,
+  inferToolActions,
+  validateMcpServers,
+  hasAttachments,
+  imageMediaType,
+  joinInstructions,
+  readImagePart,
+  renderContentText,
+  splitSystemMessages,
+  toContentParts,
+  isTransientError,
+  InterruptedError,
+  classifyError,
+  toCoderError,
+  ToolCallRegistry,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  BudgetMonitor,
+  CassetteSession,
   HeadlessCoder,
   ThreadHandle,
+  PromptContentPart,
   PromptInput,
+  PromptMessage,
   StartOpts,
   RunOpts,
   RunResult,
   CoderStreamEvent,
   EventIterator,
+  PermissionHandler,
+  PermissionRequest,
   Provider,
+  ToolAction,
+  ToolPolicy,
+  UsageStats,
+  TypedHeadlessCoder,
 } from '@headless-coder-sdk/core';
 
 export const CODER_NAME: Provider = 'claude';
@@ -35,10 +75,44 @@ export function createAdapter(defaults?: StartOpts): HeadlessCoder {
   return new ClaudeAdapter(defaults);
 }
 (createAdapter as AdapterFactory).coderName = CODER_NAME;
+(createAdapter as AdapterFactory).isRetryableError = isRetryableClaudeError;
+(createAdapter as AdapterFactory).normalizeRunResult = normalizeClaudeRunResult;
+
+/** Normalized events of each `run()` call, keyed by the result message returned as `RunResult.raw`. */
+const runEvents = new WeakMap<object, CoderStreamEvent[]>();
+
+/**
+ * Classifies Claude failures for the core retry policy.
+ *
+ * Args:
+ *   error: Error thrown by a run or rebuilt from an `error` stream event.
+ *
+ * Returns:
+ *   True for rate limits, overloaded (529) and server errors; false for credit or
+ *   authentication failures, which a retry cannot fix.
+ */
+function isRetryableClaudeError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  if (/credit balance|invalid api key|authentication/i.test(message)) return false;
+  return /\b529\b|overloaded_error|api_error/i.test(message) || isTransientError(error);
+}
+
+/**
+ * Returns the normalized events recorded while `run()` consumed the SDK messages.
+ *
+ * Args:
+ *   result: Result returned by `run()`.
+ *
+ * Returns:
+ *   The run's events, or undefined when `raw` is not a result message of this adapter.
+ */
+function normalizeClaudeRunResult(result: RunResult): CoderStreamEvent[] | undefined {
+  return result.raw && typeof result.raw === 'object' ? runEvents.get(result.raw) : undefined;
+}
 
 const isNodeRuntime = typeof process !== 'undefined' && !!process.versions?.node;
 
-export function createHeadlessClaude(defaults?: StartOpts): HeadlessCoder {
+export function createHeadlessClaude(defaults?: StartOpts): TypedHeadlessCoder {
   ensureNodeRuntime('create a Claude coder');
   if (!getAdapterFactory(CODER_NAME)) {
     registerAdapter(createAdapter as AdapterFactory);
@@ -50,15 +124,26 @@ interface ClaudeThreadState {
   sessionId: string;
   opts: StartOpts;
   resume: boolean;
+  cassette?: CassetteSession;
   currentRun?: ActiveClaudeRun | null;
 }
 
+interface ClaudeRunMetrics {
+  startedAt: number;
+  toolCalls: number;
+}
+
 interface ActiveClaudeRun {
-  generator: ClaudeQuery;
+  generator?: ClaudeQuery;
   abortController: AbortController;
   stopExternal: () => void;
   aborted: boolean;
   abortReason?: string;
+  budget: BudgetMonitor;
+  /** Usage per API message id; the SDK repeats a message once per content block. */
+  messageUsage: Map<string, UsageStats>;
+  /** `permission` events decided since the last message, yielded with the next one. */
+  permissions: CoderStreamEvent[];
 }
 
 function ensureNodeRuntime(action: string): void {
@@ -93,7 +178,160 @@ function extractNativeStructuredOutput(result: any): unknown | undefined {
  */
 function toPrompt(input: PromptInput): string {
   if (typeof input === 'string') return input;
-  return input.map(message => `${message.role}: ${message.content}`).join('\n');
+  return input.map(message => `${message.role}: ${renderContentText(message.content)}`).join('\n');
+}
+
+/**
+ * Resolves the SDK `systemPrompt` of a run: `StartOpts.systemPrompt` replaces the Claude
+ * Code preset, and `appendSystemPrompt` plus the run's system messages are appended.
+ *
+ * Args:
+ *   opts: Thread start options.
+ *   system: System messages of the run.
+ *
+ * Returns:
+ *   SDK `systemPrompt` option, or undefined to keep the preset unchanged.
+ */
+function resolveSystemPrompt(opts: StartOpts, system?: string): Options['systemPrompt'] {
+  const append = joinInstructions(opts.appendSystemPrompt, system);
+  if (opts.systemPrompt) return joinInstructions(opts.systemPrompt, append);
+  return append ? { type: 'preset', preset: 'claude_code', append } : undefined;
+}
+
+/**
+ * Content block of an Anthropic user message.
+ */
+export type ClaudeContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | {
+      type: 'document';
+      title: string;
+      source:
+        | { type: 'base64'; media_type: 'application/pdf'; data: string }
+        | { type: 'text'; media_type: 'text/plain'; data: string };
+    };
+
+/**
+ * Builds the query prompt. Text-only input stays a string; input with images or files is
+ * sent as one user message whose content blocks carry the attachments. The SDK closes the
+ * CLI's stdin once that stream ends, which would leave `canUseTool` unable to answer, so
+ * the stream stays open until `closeInput` is called.
+ *
+ * Args:
+ *   state: Thread state providing the session id and working directory.
+ *   input: Prompt payload from caller.
+ *
+ * Returns:
+ *   Prompt accepted by `query()`, and a callback ending it once the run has its result.
+ */
+function toClaudePrompt(
+  state: ClaudeThreadState,
+  input: PromptInput,
+): { prompt: string | AsyncIterable<SDKUserMessage>; closeInput: () => void } {
+  if (!hasAttachments(input)) return { prompt: toPrompt(input), closeInput: () => {} };
+  let closeInput!: () => void;
+  const closed = new Promise<void>(resolve => (closeInput = resolve));
+  const prompt = (async function* () {
+    const content = await toClaudeContent(input as PromptMessage[], state.opts.workingDirectory);
+    yield { type: 'user', message: { role: 'user', content }, parent_tool_use_id: null, session_id: state.sessionId };
+    await closed;
+  })() as AsyncIterable<SDKUserMessage>;
+  return { prompt, closeInput };
+}
+
+/**
+ * Converts messages into Anthropic content blocks, labelling each message with its role as
+ * `toPrompt` does. Images are sent as base64 image blocks and files as document blocks
+ * (PDFs as base64, anything else as text).
+ *
+ * Args:
+ *   messages: Prompt messages; relative attachment paths resolve against `cwd`.
+ *   cwd: Working directory of the thread.
+ *
+ * Returns:
+ *   Content blocks for a single user message.
+ *
+ * Raises:
+ *   Error: When an attachment cannot be read or an image has an unsupported format.
+ */
+export async function toClaudeContent(messages: PromptMessage[], cwd = process.cwd()): Promise<ClaudeContentBlock[]> {
+  const blocks: ClaudeContentBlock[] = [];
+  for (const message of messages) {
+    const parts = toContentParts(message.content);
+    if (parts[0]?.type !== 'text') blocks.push({ type: 'text', text: `${message.role}:` });
+    for (const [index, part] of parts.entries()) {
+      if (part.type === 'text') {
+        blocks.push({ type: 'text', text: index === 0 ? `${message.role}: ${part.text}` : part.text });
+      } else {
+        blocks.push(await toClaudeAttachment(part, cwd));
+      }
+    }
+  }
+  return blocks;
+}
+
+async function toClaudeAttachment(
+  part: Exclude<PromptContentPart, { type: 'text' }>,
+  cwd: string,
+): Promise<ClaudeContentBlock> {
+  if (part.type === 'file' && imageMediaType(part.path)) {
+    return toClaudeAttachment({ type: 'image', path: part.path }, cwd);
+  }
+  if (part.type === 'image') {
+    const { data, mediaType } = await readImagePart(part, cwd);
+    return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+  }
+  const contents = await readFile(path.resolve(cwd, part.path));
+  if (path.extname(part.path).toLowerCase() === '.pdf') {
+    return {
+      type: 'document',
+      title: part.path,
+      source: { type: 'base64', media_type: 'application/pdf', data: contents.toString('base64') },
+    };
+  }
+  return {
+    type: 'document',
+    title: part.path,
+    source: { type: 'text', media_type: 'text/plain', data: contents.toString('utf8') },
+  };
+}
+
+/**
+ * Maps Claude Code tools to the actions a `ToolPolicy` rules on.
+ *
+ * Args:
+ *   request: Permission request built from a tool call.
+ *
+ * Returns:
+ *   Actions of the call; unknown tools fall back to `inferToolActions`.
+ */
+function classifyClaudeTool(request: PermissionRequest): ToolAction[] {
+  const args: any = request.args ?? {};
+  const mcp = /^mcp__(.+?)__(.+)$/.exec(request.tool);
+  if (mcp) return [{ kind: 'mcp', tool: `${mcp[1]}/${mcp[2]}` }];
+  switch (request.tool) {
+    case 'Bash':
+      return [{ kind: 'command', command: String(args.command ?? '') }];
+    case 'Read':
+    case 'NotebookRead':
+      return [{ kind: 'read', path: String(args.file_path ?? args.notebook_path) }];
+    case 'Glob':
+    case 'Grep':
+    case 'LS':
+      return [{ kind: 'read', path: String(args.path ?? '.') }];
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit':
+      return [{ kind: 'write', path: String(args.file_path ?? args.notebook_path) }];
+    case 'WebFetch':
+      return [{ kind: 'network', target: args.url }];
+    case 'WebSearch':
+      return [{ kind: 'network', target: args.query }];
+    default:
+      return inferToolActions(request);
+  }
 }
 
 /**
@@ -119,14 +357,19 @@ export class ClaudeAdapter implements HeadlessCoder {
    *
    * Returns:
    *   Thread handle tracking the Claude session.
+   *
+   * Raises:
+   *   Error: When `mcpServers` is invalid.
    */
   async startThread(opts?: StartOpts): Promise<ThreadHandle> {
     const options = { ...this.defaultOpts, ...opts };
+    validateMcpServers(options.mcpServers, CODER_NAME);
     const id = options.resume ?? randomUUID();
     const state: ClaudeThreadState = {
       sessionId: id,
       opts: options,
       resume: false,
+      cassette: options.cassette ? openCassette(options.cassette, CODER_NAME) : undefined,
     };
     return this.createThreadHandle(state);
   }
@@ -140,13 +383,18 @@ export class ClaudeAdapter implements HeadlessCoder {
    *
    * Returns:
    *   Thread handle referencing the resumed session.
+   *
+   * Raises:
+   *   Error: When `mcpServers` is invalid.
    */
   async resumeThread(threadId: string, opts?: StartOpts): Promise<ThreadHandle> {
     const options = { ...this.defaultOpts, ...opts };
+    validateMcpServers(options.mcpServers, CODER_NAME);
     const state: ClaudeThreadState = {
       sessionId: threadId,
       opts: options,
       resume: true,
+      cassette: options.cassette ? openCassette(options.cassette, CODER_NAME) : undefined,
     };
     return this.createThreadHandle(state);
   }
@@ -157,15 +405,28 @@ export class ClaudeAdapter implements HeadlessCoder {
    * Args:
    *   handle: Thread handle provided by start/resume operations.
    *   runOpts: Call-time run options.
+   *   useNativeStructuredOutput: Whether the schema goes through the SDK's `outputFormat`.
+   *   system: System messages of the prompt, appended to the thread's system prompt.
    *
    * Returns:
    *   Options ready for the Claude Agent SDK.
+   *
+   * Raises:
+   *   Error: When `onPermissionRequest` and `permissionPromptToolName` are both set.
    */
-  private buildOptions(state: ClaudeThreadState, runOpts?: RunOpts, useNativeStructuredOutput?: boolean): Options {
+  private buildOptions(
+    state: ClaudeThreadState,
+    runOpts?: RunOpts,
+    useNativeStructuredOutput?: boolean,
+    system?: string,
+  ): Options {
     const startOpts = state.opts ?? {};
     const resumeId = state.resume ? state.sessionId : undefined;
     const permissionMode: PermissionMode | undefined =
       (startOpts.permissionMode as PermissionMode | undefined) ?? (startOpts.yolo ? 'bypassPermissions' : undefined);
+    if (startOpts.onPermissionRequest && startOpts.permissionPromptToolName) {
+      throw new Error('onPermissionRequest cannot be combined with permissionPromptToolName.');
+    }
     const outputFormat =
       useNativeStructuredOutput && runOpts?.outputSchema
         ? {
@@ -176,7 +437,7 @@ export class ClaudeAdapter implements HeadlessCoder {
     return {
       cwd: startOpts.workingDirectory,
       allowedTools: startOpts.allowedTools,
-      mcpServers: startOpts.mcpServers as any,
+      mcpServers: startOpts.mcpServers,
       continue: !!startOpts.continue,
       resume: resumeId,
       forkSession: startOpts.forkSession,
@@ -184,7 +445,75 @@ export class ClaudeAdapter implements HeadlessCoder {
       model: startOpts.model,
       permissionMode,
       permissionPromptToolName: startOpts.permissionPromptToolName,
+      canUseTool: startOpts.onPermissionRequest
+        ? this.createToolApproval(state, startOpts.onPermissionRequest)
+        : undefined,
+      disallowedTools: startOpts.policy?.network === false ? ['WebFetch', 'WebSearch'] : undefined,
+      hooks: startOpts.policy
+        ? { PreToolUse: [{ hooks: [this.createPolicyHook(state, startOpts.policy)] }] }
+        : undefined,
       outputFormat,
+      systemPrompt: resolveSystemPrompt(startOpts, system),
+    };
+  }
+
+  /**
+   * Adapts `StartOpts.onPermissionRequest` to the SDK's `canUseTool` callback.
+   *
+   * Args:
+   *   state: Thread state whose active run collects the `permission` events.
+   *   handler: Caller supplied permission handler.
+   *
+   * Returns:
+   *   Callback answering the SDK's approval requests.
+   */
+  private createToolApproval(state: ClaudeThreadState, handler: PermissionHandler): CanUseTool {
+    return async (toolName, input, { toolUseID, decisionReason }) => {
+      const request = {
+        provider: CODER_NAME,
+        tool: toolName,
+        args: input,
+        callId: toolUseID,
+        reason: decisionReason,
+      };
+      const permission = await requestPermission(handler, request);
+      state.currentRun?.permissions.push(createPermissionEvent(request, permission));
+      return permission.allow
+        ? { behavior: 'allow', updatedInput: permission.modifiedArgs ?? input }
+        : { behavior: 'deny', message: permission.message ?? 'Denied by onPermissionRequest.' };
+    };
+  }
+
+  /**
+   * Enforces `StartOpts.policy` in a `PreToolUse` hook, which (unlike `canUseTool`) also sees
+   * tools Claude runs without asking, such as reads.
+   *
+   * Args:
+   *   state: Thread state whose active run collects the `permission` events.
+   *   policy: Policy to enforce.
+   *
+   * Returns:
+   *   Hook denying the tool calls that break the policy.
+   */
+  private createPolicyHook(state: ClaudeThreadState, policy: ToolPolicy): HookCallback {
+    return async (input, toolUseID) => {
+      if (input.hook_event_name !== 'PreToolUse') return {};
+      const request: PermissionRequest = {
+        provider: CODER_NAME,
+        tool: input.tool_name,
+        args: (input.tool_input ?? {}) as Record<string, unknown>,
+        callId: toolUseID ?? input.tool_use_id,
+      };
+      const violation = checkToolPolicy(policy, classifyClaudeTool(request), input.cwd || state.opts.workingDirectory);
+      if (!violation) return {};
+      state.currentRun?.permissions.push(createPermissionEvent(request, { allow: false, message: violation }));
+      return {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: violation,
+        },
+      };
     };
   }
 
@@ -200,56 +529,76 @@ export class ClaudeAdapter implements HeadlessCoder {
      *   Run result with the final assistant message.
    *
    * Raises:
-   *   Error: Propagated when the Claude Agent SDK surfaces a failure event.
+   *   CoderError: When the Claude Agent SDK surfaces a failure, classified by `code`.
   */
  private async runInternal(thread: ThreadHandle, input: PromptInput, runOpts?: RunOpts): Promise<RunResult> {
     ensureNodeRuntime('run Claude');
     const state = thread.internal as ClaudeThreadState;
     this.assertIdle(state);
     const useNativeStructuredOutput = shouldUseNativeStructuredOutput(runOpts?.outputSchema);
-    const prompt = toPrompt(input);
-    const options = this.buildOptions(state, runOpts, useNativeStructuredOutput);
-    const generator = query({ prompt, options });
-    const active = this.registerRun(state, generator, runOpts?.signal);
+    const { system, input: conversation } = splitSystemMessages(input);
+    const { prompt, closeInput } = toClaudePrompt(state, conversation);
+    const options = this.buildOptions(state, runOpts, useNativeStructuredOutput, system);
+    const { messages, generator } = this.openMessageStream(state, prompt, options);
+    const active = this.registerRun(state, generator, runOpts);
+    const metrics: ClaudeRunMetrics = { startedAt: Date.now(), toolCalls: 0 };
+    const tools = new ToolCallRegistry(CODER_NAME);
+    const events: CoderStreamEvent[] = [];
     let lastAssistant = '';
     let finalResult: any;
     try {
-      for await (const message of generator as AsyncGenerator<SDKMessage, void, void>) {
+      for await (const message of messages) {
         this.captureSessionId(state, thread, message);
         if (active.abortController.signal.aborted) {
           throw createAbortError(active.abortReason);
         }
+        events.push(...active.permissions.splice(0));
+        events.push(...normalizeClaudeStreamMessage(message, state.sessionId, metrics, tools));
         const type = (message as any)?.type?.toLowerCase?.();
         if (!type) continue;
         if (type.includes('result')) {
           finalResult = message;
+          closeInput();
           continue;
         }
         if (type.includes('assistant')) {
           lastAssistant = extractClaudeAssistantText(message);
+          metrics.toolCalls += observeClaudeBudget(active, message, metrics);
         }
       }
     } catch (error) {
+      if (active.budget.exceeded) {
+        throw active.budget.exceeded;
+      }
       if (isAbortError(error)) {
-        throw error;
+        throw toCoderError(error, CODER_NAME);
       }
       if (finalResult && claudeResultIndicatesError(finalResult)) {
-        throw new Error(buildClaudeResultErrorMessage(finalResult), {
-          cause: error instanceof Error ? error : undefined,
-        });
+        throw toCoderError(buildClaudeResultErrorMessage(finalResult), CODER_NAME, error);
       }
-      throw error;
+      throw toCoderError(error, CODER_NAME);
     } finally {
+      closeInput();
       this.cleanupRun(state, active);
     }
+    if (active.budget.exceeded) {
+      throw active.budget.exceeded;
+    }
     if (active.abortController.signal.aborted) {
       throw createAbortError(active.abortReason);
     }
     if (finalResult && claudeResultIndicatesError(finalResult)) {
-      throw new Error(buildClaudeResultErrorMessage(finalResult));
+      throw toCoderError(buildClaudeResultErrorMessage(finalResult), CODER_NAME, finalResult);
     }
     const structured = runOpts?.outputSchema ? extractNativeStructuredOutput(finalResult) : undefined;
-    return { threadId: state.sessionId, text: lastAssistant, raw: finalResult, json: structured };
+    if (finalResult) runEvents.set(finalResult, events);
+    return {
+      threadId: state.sessionId,
+      text: lastAssistant,
+      raw: finalResult,
+      json: structured,
+      usage: normalizeClaudeUsage(finalResult, metrics),
+    };
   }
 
   /**
@@ -264,7 +613,7 @@ export class ClaudeAdapter implements HeadlessCoder {
      *   Async iterator yielding normalised stream events.
    *
    * Raises:
-   *   Error: Propagated when the Claude Agent SDK terminates with an error.
+   *   CoderError: When the Claude Agent SDK terminates with an error, classified by `code`.
   */
  private runStreamedInternal(
    thread: ThreadHandle,
@@ -275,28 +624,35 @@ export class ClaudeAdapter implements HeadlessCoder {
     const state = thread.internal as ClaudeThreadState;
     this.assertIdle(state);
     const useNativeStructuredOutput = shouldUseNativeStructuredOutput(runOpts?.outputSchema);
-    const prompt = toPrompt(input);
-    const options = this.buildOptions(state, runOpts, useNativeStructuredOutput);
-    const generator = query({ prompt, options });
+    const { system, input: conversation } = splitSystemMessages(input);
+    const { prompt, closeInput } = toClaudePrompt(state, conversation);
+    const options = this.buildOptions(state, runOpts, useNativeStructuredOutput, system);
+    const { messages, generator } = this.openMessageStream(state, prompt, options);
     const adapter = this;
 
     return {
       async *[Symbol.asyncIterator]() {
-        const active = adapter.registerRun(state, generator, runOpts?.signal);
+        const active = adapter.registerRun(state, generator, runOpts);
         let sawDone = false;
+        const metrics: ClaudeRunMetrics = { startedAt: Date.now(), toolCalls: 0 };
+        const tools = new ToolCallRegistry(CODER_NAME);
         try {
-          for await (const message of generator as AsyncGenerator<SDKMessage, void, void>) {
+          for await (const message of messages) {
             adapter.captureSessionId(state, thread, message);
             if (active.abortController.signal.aborted) {
               throw createAbortError(active.abortReason);
             }
-            const events = normalizeClaudeStreamMessage(message, state.sessionId);
+            if (message.type === 'result') closeInput();
+            metrics.toolCalls += observeClaudeBudget(active, message, metrics);
+            yield* active.permissions.splice(0);
+            const events = normalizeClaudeStreamMessage(message, state.sessionId, metrics, tools);
             for (const event of events) {
               if (event.type === 'error') {
                 yield event;
                 return;
               }
               if (event.type === 'done') {
+                if (sawDone) continue;
                 sawDone = true;
               }
               yield event;
@@ -306,6 +662,16 @@ export class ClaudeAdapter implements HeadlessCoder {
             yield { type: 'done', provider: CODER_NAME, ts: now(), originalItem: { reason: 'completed' } };
           }
         } catch (error) {
+          if (active.budget.exceeded) {
+            yield {
+              type: 'cancelled',
+              provider: CODER_NAME,
+              ts: now(),
+              originalItem: { reason: active.budget.exceeded.message },
+            };
+            yield createBudgetExceededEvent(CODER_NAME, active.budget.exceeded);
+            return;
+          }
           if (isAbortError(error)) {
             const reason = active.abortReason ?? (error as Error).message ?? 'Interrupted';
             yield {
@@ -324,8 +690,9 @@ export class ClaudeAdapter implements HeadlessCoder {
             };
             return;
           }
-          throw error;
+          throw toCoderError(error, CODER_NAME);
         } finally {
+          closeInput();
           adapter.cleanupRun(state, active);
         }
       },
@@ -351,8 +718,8 @@ export class ClaudeAdapter implements HeadlessCoder {
       provider: CODER_NAME,
       id: state.sessionId,
       internal: state,
-      run: (input, runOpts) => this.runInternal(handle, input, runOpts),
-      runStreamed: (input, runOpts) => this.runStreamedInternal(handle, input, runOpts),
+      run: (input, runOpts) => this.runInternal(handle, input, normalizeRunOpts(runOpts)),
+      runStreamed: (input, runOpts) => this.runStreamedInternal(handle, input, normalizeRunOpts(runOpts)),
       interrupt: async reason => {
         this.abortCurrentRun(state, reason ?? 'Interrupted');
       },
@@ -360,14 +727,52 @@ export class ClaudeAdapter implements HeadlessCoder {
     return handle;
   }
 
-  private registerRun(state: ClaudeThreadState, generator: ClaudeQuery, signal?: AbortSignal): ActiveClaudeRun {
+  /**
+   * Starts a Claude query, or pulls the next run from a replay cassette.
+   *
+   * Args:
+   *   state: Thread state.
+   *   prompt: Prompt string, or user messages carrying attachments.
+   *   options: Claude Agent SDK options.
+   *
+   * Returns:
+   *   Raw SDK messages (taped when recording) and the live query, when there is one.
+   */
+  private openMessageStream(
+    state: ClaudeThreadState,
+    prompt: string | AsyncIterable<SDKUserMessage>,
+    options: Options,
+  ): { messages: AsyncIterable<SDKMessage>; generator?: ClaudeQuery } {
+    const cassette = state.cassette;
+    if (cassette?.mode === 'replay') {
+      const entry = cassette.next();
+      // Resolved lazily: the run is registered by the time iteration starts.
+      const messages = (async function* () {
+        yield* replayEvents(entry.events as SDKMessage[], state.currentRun?.abortController.signal);
+      })();
+      return { messages };
+    }
+    const generator = query({ prompt, options });
+    if (cassette?.mode === 'record') {
+      const messages = recordEvents(generator as AsyncIterable<SDKMessage>, events =>
+        cassette.record({ threadId: state.sessionId, events }),
+      );
+      return { messages, generator };
+    }
+    return { messages: generator as AsyncIterable<SDKMessage>, generator };
+  }
+
+  private registerRun(state: ClaudeThreadState, generator: ClaudeQuery | undefined, runOpts?: RunOpts): ActiveClaudeRun {
     const abortController = new AbortController();
-    const stopExternal = linkSignal(signal, reason => this.abortCurrentRun(state, reason));
+    const stopExternal = linkSignal(runOpts?.signal, reason => this.abortCurrentRun(state, reason));
     const active: ActiveClaudeRun = {
       generator,
       abortController,
       stopExternal,
       aborted: false,
+      budget: createBudgetMonitor(runOpts?.budget, CODER_NAME, error => this.abortCurrentRun(state, error.message)),
+      messageUsage: new Map(),
+      permissions: [],
     };
     state.currentRun = active;
     return active;
@@ -375,6 +780,7 @@ export class ClaudeAdapter implements HeadlessCoder {
 
   private cleanupRun(state: ClaudeThreadState, active: ActiveClaudeRun): void {
     active.stopExternal();
+    active.budget.stop();
     if (state.currentRun === active) {
       state.currentRun = null;
     }
@@ -388,7 +794,7 @@ export class ClaudeAdapter implements HeadlessCoder {
     if (!active.abortController.signal.aborted) {
       active.abortController.abort(active.abortReason);
     }
-    if (typeof active.generator.interrupt === 'function') {
+    if (typeof active.generator?.interrupt === 'function') {
       void active.generator.interrupt().catch(() => {});
     }
   }
@@ -411,7 +817,25 @@ export class ClaudeAdapter implements HeadlessCoder {
   }
 }
 
-function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStreamEvent[] {
+/**
+ * Maps an SDK message onto the shared stream events.
+ *
+ * Args:
+ *   message: SDK message, or a `stream_event` wrapping a partial API event.
+ *   threadId: Session id of the thread.
+ *   metrics: Metrics of the current run.
+ *   tools: Open tool calls of the run. The SDK reports results in user messages that carry
+ *     only the `tool_use_id`, so the tool name comes from the call.
+ *
+ * Returns:
+ *   Normalised events.
+ */
+function normalizeClaudeStreamMessage(
+  message: any,
+  threadId: string | undefined,
+  metrics: ClaudeRunMetrics,
+  tools: ToolCallRegistry,
+): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const events: CoderStreamEvent[] = [];
@@ -444,7 +868,7 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
         type: 'tool_use',
         provider,
         name: base.content_block?.name,
-        callId: base.content_block?.id,
+        callId: tools.start(base.content_block?.name, base.content_block?.id),
         args: base.content_block?.input,
         ts,
         originalItem: message,
@@ -454,13 +878,14 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
 
   if (base?.type === 'message_delta') {
     if (base?.usage) {
-      events.push({ type: 'usage', provider, stats: base.usage, ts, originalItem: message });
+      events.push({ type: 'usage', provider, stats: normalizeClaudeUsage(base, metrics), ts, originalItem: message });
     }
     if (events.length) return events;
   }
 
   if (base?.type === 'message_stop') {
-    return [{ type: 'done', provider, ts, originalItem: message }];
+    // Each API message in an agent turn ends with message_stop; the turn itself ends with `result`.
+    return [{ type: 'progress', provider, label: 'message_stop', ts, originalItem: message }];
   }
 
   const typeValue = base?.type ?? base?.label ?? '';
@@ -496,25 +921,54 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
   }
 
   if (includes('assistant')) {
-    return [
-      {
-        type: 'message',
+    events.push({
+      type: 'message',
+      provider,
+      role: 'assistant',
+      text: extractClaudeAssistantText(base),
+      ts,
+      originalItem: message,
+    });
+    // With partial messages, the calls were already announced by `content_block_start`.
+    for (const block of claudeContentBlocks(base, 'tool_use')) {
+      if (block.id && tools.has(block.id)) continue;
+      events.push({
+        type: 'tool_use',
         provider,
-        role: 'assistant',
-        text: extractClaudeAssistantText(base),
+        name: block.name,
+        callId: tools.start(block.name, block.id),
+        args: block.input,
         ts,
         originalItem: message,
-      },
-    ];
+      });
+    }
+    return events;
+  }
+
+  if (typeLower === 'user') {
+    for (const block of claudeContentBlocks(base, 'tool_result')) {
+      events.push({
+        type: 'tool_result',
+        provider,
+        ...tools.finish(undefined, block.tool_use_id),
+        result: block.content,
+        error: block.is_error ? extractClaudeAssistantText(block) || 'Tool call failed' : undefined,
+        ts,
+        originalItem: message,
+      });
+    }
+    if (events.length) return events;
   }
 
+  const toolName = base?.name ?? base?.tool_name ?? base?.tool;
+
   if (includes('tool_use') || includes('tooluse')) {
     return [
       {
         type: 'tool_use',
         provider,
-        name: (base as any).name ?? (base as any).tool_name ?? (base as any).tool,
-        callId: (base as any).id,
+        name: toolName,
+        callId: tools.start(toolName, (base as any).id),
         args: (base as any).input,
         ts,
         originalItem: message,
@@ -527,8 +981,7 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
       {
         type: 'tool_result',
         provider,
-        name: (base as any).name ?? (base as any).tool_name ?? (base as any).tool,
-        callId: (base as any).tool_use_id ?? (base as any).id,
+        ...tools.finish(toolName, (base as any).tool_use_id ?? (base as any).id),
         result: (base as any).output,
         ts,
         originalItem: message,
@@ -551,18 +1004,20 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
 
   if (includes('result')) {
     if (claudeResultIndicatesError(base)) {
+      const errorMessage = buildClaudeResultErrorMessage(base);
       return [
         {
           type: 'error',
           provider,
-          message: buildClaudeResultErrorMessage(base),
+          code: classifyError(errorMessage),
+          message: errorMessage,
           ts,
           originalItem: message,
         },
       ];
     }
     if (base?.usage) {
-      events.push({ type: 'usage', provider, stats: base.usage, ts, originalItem: message });
+      events.push({ type: 'usage', provider, stats: normalizeClaudeUsage(base, metrics), ts, originalItem: message });
     }
     events.push({ type: 'done', provider, ts, originalItem: message });
     return events;
@@ -570,7 +1025,7 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
 
   if (includes('completed') || includes('final')) {
     if (base?.usage) {
-      events.push({ type: 'usage', provider, stats: base.usage, ts, originalItem: message });
+      events.push({ type: 'usage', provider, stats: normalizeClaudeUsage(base, metrics), ts, originalItem: message });
     }
     events.push({ type: 'done', provider, ts, originalItem: message });
     return events;
@@ -595,10 +1050,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function isAbortError(error: unknown): boolean {
@@ -611,6 +1063,76 @@ function reasonToString(reason: unknown): string | undefined {
   return undefined;
 }
 
+/**
+ * Returns the content blocks of one type in a complete SDK message.
+ */
+function claudeContentBlocks(message: any, type: 'tool_use' | 'tool_result'): any[] {
+  const content = message?.message?.content;
+  return Array.isArray(content) ? content.filter(block => block?.type === type) : [];
+}
+
+/**
+ * Counts the tool calls requested by a complete assistant message.
+ */
+function countClaudeToolUses(message: any): number {
+  if (message?.type !== 'assistant') return 0;
+  return claudeContentBlocks(message, 'tool_use').length;
+}
+
+/**
+ * Feeds an assistant message's tool calls and usage to the run budget.
+ *
+ * Args:
+ *   active: Run whose budget is checked.
+ *   message: SDK message; only complete assistant messages count.
+ *   metrics: Metrics of the current run.
+ *
+ * Returns:
+ *   Number of tool calls the message requested.
+ */
+function observeClaudeBudget(active: ActiveClaudeRun, message: any, metrics: ClaudeRunMetrics): number {
+  const toolUses = countClaudeToolUses(message);
+  for (let index = 0; index < toolUses; index += 1) {
+    active.budget.countToolCall();
+  }
+  const apiMessage = message?.type === 'assistant' ? message.message : undefined;
+  const usage = normalizeClaudeUsage(apiMessage, metrics);
+  if (usage) {
+    active.messageUsage.set(apiMessage.id ?? String(active.messageUsage.size), usage);
+    active.budget.setUsage([...active.messageUsage.values()].reduce(addUsage, {}));
+  }
+  return toolUses;
+}
+
+/**
+ * Maps Claude usage onto `UsageStats`.
+ *
+ * Args:
+ *   message: Result or `message_delta` payload carrying `usage`.
+ *   metrics: Tool calls and start time tracked for the current run.
+ *
+ * Returns:
+ *   Normalised usage, or undefined when the payload has none.
+ */
+function normalizeClaudeUsage(message: any, metrics: ClaudeRunMetrics): UsageStats | undefined {
+  const usage = message?.usage;
+  if (!usage) return undefined;
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cacheCreation = usage.cache_creation_input_tokens ?? 0;
+  const models = message.modelUsage ? Object.keys(message.modelUsage) : [];
+  return createUsageStats({
+    // Claude reports cache reads and writes separately from uncached input tokens.
+    inputTokens: usage.input_tokens === undefined ? undefined : usage.input_tokens + cacheRead + cacheCreation,
+    cachedInputTokens: usage.cache_read_input_tokens,
+    outputTokens: usage.output_tokens,
+    toolCalls: metrics.toolCalls,
+    durationMs: message.duration_ms ?? Date.now() - metrics.startedAt,
+    costUsd: message.total_cost_usd,
+    model: models.length === 1 ? models[0] : message.model,
+    raw: usage,
+  });
+}
+
 function extractClaudeAssistantText(message: any): string {
   if (!message) return '';
 
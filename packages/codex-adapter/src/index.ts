@@ -3,24 +3,60 @@
  * delegating directly to the Codex SDK with AbortSignal-based cancellation.
  */
 
-import type { Thread, TurnOptions } from '@openai/codex-sdk';
+import type { CodexOptions, Input, Thread, TurnOptions } from '@openai/codex-sdk';
+import { mkdir, mkdtemp, readFile, readdir, rm, symlink, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import {
   now,
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  openCassette,
+  recordEvents,
+  replayEvents,
+  normalizeRunOpts,
+  createUsageStats,
+  createBudgetMonitor,
+  createBudgetExceededEvent,
+  requestPermission,
+  createPermissionEvent,
+  describeDenial,
+  applyToolPolicy,
+  validateMcpServers,
+  isMcpStdioServer,
+  hasAttachments,
+  renderContentText,
+  splitSystemMessages,
+  joinInstructions,
+  stageAttachments,
+  toContentParts,
+  isTransientError,
+  InterruptedError,
+  classifyError,
+  toCoderError,
+  ToolCallRegistry,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  BudgetMonitor,
+  CassetteSession,
   HeadlessCoder,
+  McpServerConfig,
   ThreadHandle,
   PromptInput,
+  PromptMessage,
   StartOpts,
   RunOpts,
   RunResult,
   CoderStreamEvent,
   EventIterator,
+  PermissionHandler,
+  PermissionRequest,
   Provider,
+  ToolAction,
+  UsageStats,
+  TypedHeadlessCoder,
 } from '@headless-coder-sdk/core';
 
 const isNodeRuntime = typeof process !== 'undefined' && !!process.versions?.node;
@@ -53,8 +89,20 @@ export function createAdapter(defaults?: StartOpts): HeadlessCoder {
   return new CodexAdapter(defaults);
 }
 (createAdapter as AdapterFactory).coderName = CODER_NAME;
+(createAdapter as AdapterFactory).isRetryableError = isRetryableCodexError;
+(createAdapter as AdapterFactory).normalizeRunResult = normalizeCodexRunResult;
 
-export function createHeadlessCodex(defaults?: StartOpts): HeadlessCoder {
+/**
+ * Classifies Codex failures for the core retry policy: rate limits, disconnects and
+ * server errors are transient, an exhausted usage limit or quota is not.
+ */
+function isRetryableCodexError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  if (/usage limit|quota/i.test(message)) return false;
+  return isTransientError(error);
+}
+
+export function createHeadlessCodex(defaults?: StartOpts): TypedHeadlessCoder {
   if (!getAdapterFactory(CODER_NAME)) {
     registerAdapter(createAdapter as AdapterFactory);
   }
@@ -67,29 +115,56 @@ interface CodexThreadOptions {
   sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
   workingDirectory?: string;
   skipGitRepoCheck?: boolean;
+  networkAccessEnabled?: boolean;
+  webSearchEnabled?: boolean;
 }
 
 interface CodexThreadState {
   id?: string;
   options: CodexThreadOptions;
   codexExecutablePath?: string;
+  /** Temporary `CODEX_HOME` carrying the thread's MCP servers. */
+  codexHome?: string;
+  appendSystemPrompt?: string;
+  /** Instructions currently written to the `AGENTS.md` of `codexHome`. */
+  instructions?: string;
+  cassette?: CassetteSession;
+  onPermissionRequest?: PermissionHandler;
   currentRun?: ActiveRun | null;
 }
 
 interface CodexRunSummary {
+  threadId?: string;
+  /** Every SDK event of the turn, in order. */
+  events: any[];
   items: any[];
   finalResponse: string;
   structured?: unknown;
   usage?: any;
 }
 
+interface CodexRunMetrics {
+  startedAt: number;
+  toolCalls: number;
+}
+
+const CODEX_TOOL_ITEM_TYPES = new Set(['command_execution', 'file_change', 'mcp_tool_call', 'web_search']);
+
 type RunTurnOptions = Pick<TurnOptions, 'outputSchema' | 'signal'>;
 
+interface CodexTurnStream {
+  events: AsyncIterable<any>;
+  threadId(): string | undefined;
+}
+
 interface ActiveRun {
   abortController: AbortController;
   stopExternal: () => void;
   aborted: boolean;
   abortReason?: string;
+  budget: BudgetMonitor;
+  /** Tool items already put to the permission handler. */
+  checkedItems: Set<string>;
 }
 
 export class CodexAdapter implements HeadlessCoder {
@@ -100,6 +175,10 @@ export class CodexAdapter implements HeadlessCoder {
     const state: CodexThreadState = {
       options: this.extractThreadOptions(merged),
       codexExecutablePath: merged.codexExecutablePath,
+      codexHome: await prepareCodexHome(merged),
+      appendSystemPrompt: merged.appendSystemPrompt,
+      cassette: merged.cassette ? openCassette(merged.cassette, CODER_NAME) : undefined,
+      onPermissionRequest: resolvePermissionHandler(merged),
     };
     return this.createThreadHandle(state);
   }
@@ -110,6 +189,10 @@ export class CodexAdapter implements HeadlessCoder {
       id: threadId,
       options: this.extractThreadOptions(merged),
       codexExecutablePath: merged.codexExecutablePath,
+      codexHome: await prepareCodexHome(merged),
+      appendSystemPrompt: merged.appendSystemPrompt,
+      cassette: merged.cassette ? openCassette(merged.cassette, CODER_NAME) : undefined,
+      onPermissionRequest: resolvePermissionHandler(merged),
     };
     return this.createThreadHandle(state);
   }
@@ -118,7 +201,6 @@ export class CodexAdapter implements HeadlessCoder {
     ensureNodeRuntime('call Codex');
     const state = handle.internal as CodexThreadState;
     this.assertIdle(state);
-    const normalizedInput = normalizeInput(input);
     const abortController = new AbortController();
     const stopExternal = linkSignal(opts?.signal, reason => {
       this.abortCurrentRun(state, reason ?? 'Interrupted');
@@ -127,22 +209,34 @@ export class CodexAdapter implements HeadlessCoder {
       abortController,
       stopExternal,
       aborted: false,
+      budget: createBudgetMonitor(opts?.budget, CODER_NAME, error => this.abortCurrentRun(state, error.message)),
+      checkedItems: new Set(),
     };
     state.currentRun = active;
+    const startedAt = Date.now();
 
     try {
-      const thread = await this.createThread(state);
-      const summary = await collectRunSummary(thread, normalizedInput, {
+      const turn = await this.openTurn(state, input, {
         outputSchema: opts?.outputSchema,
         signal: abortController.signal,
       });
-      const threadId = thread.id ?? undefined;
-      if (threadId) {
-        state.id = threadId;
-        handle.id = threadId;
+      const summary = await collectRunSummary(
+        turn.events,
+        opts?.outputSchema,
+        active.budget,
+        state.options.model,
+        event => this.checkPermission(state, event),
+      );
+      if (abortController.signal.aborted) {
+        throw createAbortError(active.abortReason);
       }
-      return this.mapRunResult(summary, threadId);
+      this.captureThreadId(state, handle, turn.threadId() ?? summary.threadId);
+      const toolCalls = summary.items.filter(isCodexToolItem).length;
+      return this.mapRunResult(summary, state.id, { startedAt, toolCalls });
     } catch (error) {
+      if (active.budget.exceeded) {
+        throw active.budget.exceeded;
+      }
       if (isAbortError(error)) {
         const reason =
           active.abortReason ??
@@ -150,9 +244,10 @@ export class CodexAdapter implements HeadlessCoder {
           (error instanceof Error ? error.message : undefined);
         throw createAbortError(reason);
       }
-      throw error;
+      throw toCoderError(error, CODER_NAME);
     } finally {
       stopExternal();
+      active.budget.stop();
       if (state.currentRun === active) {
         state.currentRun = null;
       }
@@ -163,7 +258,6 @@ export class CodexAdapter implements HeadlessCoder {
     ensureNodeRuntime('stream Codex events');
     const state = handle.internal as CodexThreadState;
     this.assertIdle(state);
-    const normalizedInput = normalizeInput(input);
     const abortController = new AbortController();
     const stopExternal = linkSignal(opts?.signal, reason => {
       this.abortCurrentRun(state, reason ?? 'Interrupted');
@@ -172,6 +266,8 @@ export class CodexAdapter implements HeadlessCoder {
       abortController,
       stopExternal,
       aborted: false,
+      budget: createBudgetMonitor(opts?.budget, CODER_NAME, error => this.abortCurrentRun(state, error.message)),
+      checkedItems: new Set(),
     };
     state.currentRun = active;
 
@@ -180,25 +276,44 @@ export class CodexAdapter implements HeadlessCoder {
       async *[Symbol.asyncIterator]() {
         let completed = false;
         let threw = false;
+        const metrics: CodexRunMetrics = { startedAt: Date.now(), toolCalls: 0 };
+        const tools = new ToolCallRegistry(CODER_NAME);
         try {
-          const thread = await adapter.createThread(state);
-          const run = await thread.runStreamed(normalizedInput, {
+          const turn = await adapter.openTurn(state, input, {
             outputSchema: opts?.outputSchema,
             signal: abortController.signal,
           });
-          const threadId = thread.id ?? undefined;
-          if (threadId) {
-            state.id = threadId;
-            handle.id = threadId;
-          }
-          for await (const event of run.events) {
-            for (const normalized of normalizeCodexEvent(event)) {
+          adapter.captureThreadId(state, handle, turn.threadId());
+          for await (const event of turn.events) {
+            if (event?.type === 'thread.started') {
+              adapter.captureThreadId(state, handle, event.thread_id);
+            } else if (event?.type === 'item.completed' && isCodexToolItem(event.item)) {
+              metrics.toolCalls += 1;
+              active.budget.countToolCall();
+            } else if (event?.type === 'turn.completed') {
+              observeCodexUsage(active.budget, event.usage, state.options.model);
+            }
+            for (const normalized of normalizeCodexEvent(event, metrics, tools)) {
+              if (normalized.type === 'done' && active.budget.exceeded) break;
               yield normalized;
             }
+            if (active.budget.exceeded) {
+              yield createCancelledEvent(active.budget.exceeded.message);
+              yield createBudgetExceededEvent(CODER_NAME, active.budget.exceeded);
+              return;
+            }
+            const permission = await adapter.checkPermission(state, event);
+            if (permission) yield permission;
           }
+          adapter.captureThreadId(state, handle, turn.threadId());
           completed = true;
         } catch (error) {
           threw = true;
+          if (active.budget.exceeded) {
+            yield createCancelledEvent(active.budget.exceeded.message);
+            yield createBudgetExceededEvent(CODER_NAME, active.budget.exceeded);
+            return;
+          }
           if (isAbortError(error)) {
             const reason =
               active.abortReason ??
@@ -209,12 +324,13 @@ export class CodexAdapter implements HeadlessCoder {
             yield createInterruptedErrorEvent(reason);
             return;
           }
-          throw error;
+          throw toCoderError(error, CODER_NAME);
         } finally {
           if (!completed && !abortController.signal.aborted && !threw) {
             adapter.abortCurrentRun(state, 'Stream closed');
           }
           stopExternal();
+          active.budget.stop();
           if (state.currentRun === active) {
             state.currentRun = null;
           }
@@ -235,11 +351,17 @@ export class CodexAdapter implements HeadlessCoder {
       provider: CODER_NAME,
       internal: state,
       id: state.id,
-      run: (input, opts) => this.runInternal(handle, input, opts),
-      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, opts),
+      run: (input, opts) => this.runInternal(handle, input, normalizeRunOpts(opts)),
+      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, normalizeRunOpts(opts)),
       interrupt: async reason => {
         this.abortCurrentRun(state, reason ?? 'Interrupted');
       },
+      close: async () => {
+        const home = state.codexHome;
+        state.codexHome = undefined;
+        state.instructions = undefined;
+        if (home) await rm(home, { recursive: true, force: true });
+      },
     };
     return handle;
   }
@@ -254,18 +376,75 @@ export class CodexAdapter implements HeadlessCoder {
       sandboxMode: opts.sandboxMode,
       workingDirectory: opts.workingDirectory,
       skipGitRepoCheck: opts.skipGitRepoCheck,
+      networkAccessEnabled: opts.policy?.network,
+      webSearchEnabled: opts.policy?.network,
     };
   }
 
+  /**
+   * Starts a Codex turn, or pulls the next turn from a replay cassette, and returns
+   * the raw event stream (taped when recording). Staged attachments are removed once the
+   * stream ends.
+   */
+  private async openTurn(
+    state: CodexThreadState,
+    input: PromptInput,
+    options: RunTurnOptions,
+  ): Promise<CodexTurnStream> {
+    const cassette = state.cassette;
+    if (cassette?.mode === 'replay') {
+      const entry = cassette.next();
+      return { events: replayEvents(entry.events, options.signal), threadId: () => entry.threadId };
+    }
+    const { system, input: conversation } = splitSystemMessages(input);
+    await this.applyInstructions(state, joinInstructions(state.appendSystemPrompt, system));
+    const thread = await this.createThread(state);
+    const attachments = stageAttachments(conversation, state.options.workingDirectory);
+    let run: Awaited<ReturnType<Thread['runStreamed']>>;
+    try {
+      run = await thread.runStreamed(toCodexInput(attachments.input), options);
+    } catch (error) {
+      attachments.cleanup();
+      throw error;
+    }
+    const stream = releaseAfter(run.events, attachments.cleanup);
+    const threadId = () => thread.id ?? undefined;
+    if (cassette?.mode === 'record') {
+      return {
+        events: recordEvents(stream, events => cassette.record({ threadId: threadId() ?? state.id, events })),
+        threadId,
+      };
+    }
+    return { events: stream, threadId };
+  }
+
+  private captureThreadId(state: CodexThreadState, handle: ThreadHandle, threadId?: string): void {
+    if (!threadId) return;
+    state.id = threadId;
+    handle.id = threadId;
+  }
+
+  /**
+   * Hands `appendSystemPrompt` and the run's system messages to Codex as global instructions
+   * (see `writeCodexInstructions`), creating a temporary `CODEX_HOME` the first time.
+   */
+  private async applyInstructions(state: CodexThreadState, instructions: string | undefined): Promise<void> {
+    if ((instructions ?? '') === (state.instructions ?? '')) return;
+    state.codexHome ??= await createCodexHome();
+    await writeCodexInstructions(state.codexHome, instructions);
+    state.instructions = instructions;
+  }
+
   private async createThread(state: CodexThreadState): Promise<Thread> {
     const { Codex } = await loadCodexModule();
-    const codex = new Codex(
-      state.codexExecutablePath ? { codexPathOverride: state.codexExecutablePath } : undefined,
-    );
+    const options: CodexOptions = {};
+    if (state.codexExecutablePath) options.codexPathOverride = state.codexExecutablePath;
+    if (state.codexHome) options.env = { ...inheritedEnv(), CODEX_HOME: state.codexHome };
+    const codex = new Codex(options);
     return state.id ? codex.resumeThread(state.id, state.options) : codex.startThread(state.options);
   }
 
-  private mapRunResult(summary: CodexRunSummary, threadId?: string): RunResult {
+  private mapRunResult(summary: CodexRunSummary, threadId: string | undefined, metrics: CodexRunMetrics): RunResult {
     const finalResponse = summary.finalResponse ?? '';
     const structured =
       summary.structured === undefined ? extractJsonPayload(finalResponse) : summary.structured;
@@ -273,11 +452,32 @@ export class CodexAdapter implements HeadlessCoder {
       threadId,
       text: finalResponse || undefined,
       json: structured,
-      usage: summary.usage,
+      usage: normalizeCodexUsage(summary.usage, metrics),
       raw: summary,
     };
   }
 
+  /**
+   * Consults the permission handler (`onPermissionRequest` behind `policy`) when a tool item
+   * starts, or completes without having been reported as started. Codex exec has no approval
+   * channel, so a denial interrupts the run instead of skipping the single tool call.
+   */
+  private async checkPermission(state: CodexThreadState, event: any): Promise<CoderStreamEvent | undefined> {
+    const handler = state.onPermissionRequest;
+    const checked = state.currentRun?.checkedItems;
+    if (!handler || !checked || !isCodexToolItem(event?.item)) return undefined;
+    if ((event.type !== 'item.started' && event.type !== 'item.completed') || checked.has(event.item.id)) {
+      return undefined;
+    }
+    checked.add(event.item.id);
+    const request = toPermissionRequest(event);
+    const permission = await requestPermission(handler, request);
+    if (!permission.allow) {
+      this.abortCurrentRun(state, describeDenial(request, permission));
+    }
+    return createPermissionEvent(request, permission);
+  }
+
   private assertIdle(state: CodexThreadState): void {
     if (state.currentRun) {
       throw new Error('Codex adapter only supports one in-flight run per thread.');
@@ -295,26 +495,196 @@ export class CodexAdapter implements HeadlessCoder {
   }
 }
 
+/**
+ * Serialises MCP servers as Codex `config.toml` tables.
+ */
+export function toCodexMcpConfig(servers: Record<string, McpServerConfig>): string {
+  return Object.entries(servers)
+    .map(([name, server]) => {
+      const lines = [`[mcp_servers.${name}]`];
+      if (isMcpStdioServer(server)) {
+        lines.push(`command = ${JSON.stringify(server.command)}`);
+        if (server.args) lines.push(`args = [${server.args.map(arg => JSON.stringify(arg)).join(', ')}]`);
+        if (server.env) lines.push(`env = ${toTomlTable(server.env)}`);
+      } else {
+        lines.push(`url = ${JSON.stringify(server.url)}`);
+        if (server.headers) lines.push(`http_headers = ${toTomlTable(server.headers)}`);
+      }
+      return `${lines.join('\n')}\n`;
+    })
+    .join('\n');
+}
+
+function toTomlTable(values: Record<string, string>): string {
+  const entries = Object.entries(values).map(([key, value]) => `${JSON.stringify(key)} = ${JSON.stringify(value)}`);
+  return `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * Codex exec only reads MCP servers and base instructions from `config.toml`, so threads
+ * with `mcpServers` or `systemPrompt` get a temporary `CODEX_HOME`: the user's config with
+ * those settings added, and links to everything else (credentials, sessions) so auth and
+ * `resumeThread` keep working.
+ */
+async function prepareCodexHome(opts: StartOpts): Promise<string | undefined> {
+  validateMcpServers(opts.mcpServers, CODER_NAME, ['stdio', 'http']);
+  const servers = opts.mcpServers && Object.keys(opts.mcpServers).length ? opts.mcpServers : undefined;
+  if ((!servers && !opts.systemPrompt) || opts.cassette?.mode === 'replay') {
+    return undefined;
+  }
+  const configPath = path.join(codexSourceHome(), 'config.toml');
+  const config = await readFile(configPath, 'utf8').catch(() => '');
+  for (const name of Object.keys(servers ?? {})) {
+    if (new RegExp(`^\\s*\\[\\s*mcp_servers\\.("?)${name}\\1\\s*\\]`, 'm').test(config)) {
+      throw new Error(`MCP server "${name}" is already defined in ${configPath}.`);
+    }
+  }
+  const topLevel = config.split(/^\s*\[/m)[0];
+  if (opts.systemPrompt && /^\s*experimental_instructions_file\s*=/m.test(topLevel)) {
+    throw new Error(`systemPrompt conflicts with experimental_instructions_file in ${configPath}.`);
+  }
+  return createCodexHome(servers ? toCodexMcpConfig(servers) : '', opts.systemPrompt);
+}
+
+/**
+ * Creates a temporary `CODEX_HOME` linking to every entry of the user's Codex home except
+ * `config.toml`, which is copied with `extraConfig` appended. A `systemPrompt` is written
+ * next to it and set as `experimental_instructions_file`, replacing Codex's base
+ * instructions.
+ */
+async function createCodexHome(extraConfig = '', systemPrompt?: string): Promise<string> {
+  const source = codexSourceHome();
+  const config = await readFile(path.join(source, 'config.toml'), 'utf8').catch(() => '');
+  await mkdir(path.join(source, 'sessions'), { recursive: true });
+  const home = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-codex-home-'));
+  try {
+    for (const entry of await readdir(source)) {
+      if (entry !== 'config.toml') await symlink(path.join(source, entry), path.join(home, entry));
+    }
+    let header = '';
+    if (systemPrompt) {
+      const instructionsPath = path.join(home, 'headless-coder-instructions.md');
+      await writeFile(instructionsPath, `${systemPrompt}\n`, 'utf8');
+      header = `experimental_instructions_file = ${JSON.stringify(instructionsPath)}\n${config ? '\n' : ''}`;
+    }
+    const separator = !config || !extraConfig ? '' : config.endsWith('\n') ? '\n' : '\n\n';
+    await writeFile(path.join(home, 'config.toml'), `${header}${config}${separator}${extraConfig}`, 'utf8');
+    return home;
+  } catch (error) {
+    await rm(home, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Sets the global instructions Codex reads from `AGENTS.md` in a temporary home: the user's
+ * own `AGENTS.md` followed by `instructions`, or just a link to the user's file when there
+ * are none. The link is replaced rather than written through, so the user's file is never
+ * modified.
+ */
+async function writeCodexInstructions(home: string, instructions: string | undefined): Promise<void> {
+  const source = path.join(codexSourceHome(), 'AGENTS.md');
+  const target = path.join(home, 'AGENTS.md');
+  const global = await readFile(source, 'utf8').catch(() => undefined);
+  await rm(target, { force: true });
+  if (instructions) {
+    const prefix = global?.trim() ? `${global.trimEnd()}\n\n` : '';
+    await writeFile(target, `${prefix}${instructions}\n`, 'utf8');
+  } else if (global !== undefined) {
+    await symlink(source, target);
+  }
+}
+
+function codexSourceHome(): string {
+  return process.env.CODEX_HOME ?? path.join(os.homedir(), '.codex');
+}
+
+function inheritedEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) env[key] = value;
+  }
+  return env;
+}
+
+function resolvePermissionHandler(opts: StartOpts): PermissionHandler | undefined {
+  return applyToolPolicy(opts.onPermissionRequest, opts.policy, opts.workingDirectory, classifyCodexTool);
+}
+
+function classifyCodexTool(request: PermissionRequest): ToolAction[] {
+  const args: any = request.args ?? {};
+  switch (request.tool) {
+    case 'command_execution':
+      return [{ kind: 'command', command: String(args.command ?? '') }];
+    case 'file_change':
+      return (args.changes ?? []).map((change: any) => ({ kind: 'write', path: String(change.path) }));
+    case 'mcp_tool_call':
+      return [{ kind: 'mcp', tool: `${args.server}/${args.tool}` }];
+    case 'web_search':
+      return [{ kind: 'network', target: args.query }];
+    default:
+      return [];
+  }
+}
+
 function normalizeInput(input: PromptInput): string {
   if (typeof input === 'string') return input;
-  return input.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n');
+  return input.map(message => `${message.role.toUpperCase()}: ${renderContentText(message.content)}`).join('\n');
+}
+
+/**
+ * Converts a prompt into Codex input: text stays a string, and images become `local_image`
+ * entries after the text. Expects attachments staged by `stageAttachments`, so images are
+ * local files; file parts are referenced by path in the text.
+ */
+export function toCodexInput(input: PromptInput): Input {
+  if (!hasAttachments(input)) return normalizeInput(input);
+  const messages = input as PromptMessage[];
+  const text = normalizeInput(
+    messages.map(message => ({
+      ...message,
+      content: toContentParts(message.content).filter(part => part.type !== 'image'),
+    })),
+  );
+  const images = messages
+    .flatMap(message => toContentParts(message.content))
+    .flatMap(part => (part.type === 'image' && 'path' in part ? [part.path] : []));
+  return [{ type: 'text', text }, ...images.map(file => ({ type: 'local_image' as const, path: file }))];
+}
+
+async function* releaseAfter<T>(events: AsyncIterable<T>, release: () => void): AsyncGenerator<T> {
+  try {
+    yield* events;
+  } finally {
+    release();
+  }
 }
 
 async function collectRunSummary(
-  thread: Thread,
-  input: string,
-  options: RunTurnOptions,
+  events: AsyncIterable<any>,
+  outputSchema: object | undefined,
+  budget: BudgetMonitor,
+  model: string | undefined,
+  checkPermission: (event: any) => Promise<unknown>,
 ): Promise<CodexRunSummary> {
-  const run = await thread.runStreamed(input, options);
+  const seen: any[] = [];
   const items: any[] = [];
   let finalResponse = '';
   let usage: any = undefined;
   let structured: unknown = undefined;
+  let threadId: string | undefined;
 
-  for await (const event of run.events) {
-    if (event.type === 'item.completed') {
+  for await (const event of events) {
+    seen.push(event);
+    await checkPermission(event);
+    if (event.type === 'thread.started') {
+      threadId = event.thread_id;
+    } else if (event.type === 'item.completed') {
       const item = event.item;
       items.push(item);
+      if (isCodexToolItem(item)) {
+        budget.countToolCall();
+      }
       if (item?.type === 'agent_message' && typeof item.text === 'string') {
         finalResponse = item.text;
       }
@@ -323,20 +693,21 @@ async function collectRunSummary(
       }
     } else if (event.type === 'turn.completed') {
       usage = event.usage;
+      observeCodexUsage(budget, usage, model);
       if (structured === undefined) {
         structured = extractStructuredFromTurn(event);
       }
     } else if (event.type === 'turn.failed') {
       const message = event.error?.message ?? 'Codex turn failed';
-      throw new Error(message);
+      throw toCoderError(message, CODER_NAME, event);
     }
   }
 
-  if (options.outputSchema && structured === undefined) {
+  if (outputSchema && structured === undefined) {
     structured = extractJsonPayload(finalResponse);
   }
 
-  return { items, finalResponse, structured, usage };
+  return { threadId, events: seen, items, finalResponse, structured, usage };
 }
 
 function extractJsonPayload(text: string | undefined): unknown | undefined {
@@ -379,7 +750,113 @@ function firstStructured(candidates: unknown[]): unknown {
   return undefined;
 }
 
-function normalizeCodexEvent(event: any): CoderStreamEvent[] {
+function isCodexToolItem(item: any): boolean {
+  return CODEX_TOOL_ITEM_TYPES.has(item?.type);
+}
+
+function toPermissionRequest(event: any): PermissionRequest {
+  const item = event.item;
+  return { provider: CODER_NAME, tool: item.type, args: codexToolArgs(item), callId: item.id, originalItem: event };
+}
+
+function codexToolArgs(item: any): Record<string, unknown> {
+  return item.type === 'command_execution'
+    ? { command: item.command }
+    : item.type === 'file_change'
+      ? { changes: item.changes }
+      : item.type === 'mcp_tool_call'
+        ? { server: item.server, tool: item.tool, arguments: item.arguments }
+        : { query: item.query };
+}
+
+function codexToolOutput(item: any): unknown {
+  return item.type === 'command_execution'
+    ? item.aggregated_output
+    : item.type === 'file_change'
+      ? item.changes
+      : item.type === 'mcp_tool_call'
+        ? item.result
+        : undefined;
+}
+
+/**
+ * Maps a tool item to `tool_use` when it starts and to `tool_result` when it completes.
+ * Items Codex only reports on completion, such as file changes, get both.
+ */
+function normalizeCodexToolItem(event: any, tools: ToolCallRegistry, ts: number): CoderStreamEvent[] {
+  const item = event.item;
+  const normalized: CoderStreamEvent[] = [];
+  if (event.type === 'item.started' || !tools.has(item.id)) {
+    normalized.push({
+      type: 'tool_use',
+      provider: CODER_NAME,
+      name: item.type,
+      callId: tools.start(item.type, item.id),
+      args: codexToolArgs(item),
+      ts,
+      originalItem: event,
+    });
+  }
+  if (event.type === 'item.completed') {
+    // A failed command reports its exit code; other failed items only their status.
+    const failed = item.status === 'failed' && item.exit_code === undefined;
+    normalized.push({
+      type: 'tool_result',
+      provider: CODER_NAME,
+      ...tools.finish(item.type, item.id),
+      result: codexToolOutput(item),
+      exitCode: item.exit_code ?? null,
+      error: item.error?.message ?? (failed ? 'Tool call failed' : undefined),
+      ts,
+      originalItem: event,
+    });
+  }
+  return normalized;
+}
+
+/**
+ * Feeds the token usage of a completed turn to the run's budget, priced by the thread's model.
+ */
+function observeCodexUsage(budget: BudgetMonitor, usage: any, model: string | undefined): void {
+  if (!usage) return;
+  budget.setUsage(
+    createUsageStats({
+      inputTokens: usage.input_tokens,
+      cachedInputTokens: usage.cached_input_tokens,
+      outputTokens: usage.output_tokens,
+      model,
+    }),
+  );
+}
+
+function normalizeCodexUsage(usage: any, metrics: CodexRunMetrics): UsageStats | undefined {
+  if (!usage) return undefined;
+  return createUsageStats({
+    inputTokens: usage.input_tokens,
+    cachedInputTokens: usage.cached_input_tokens,
+    outputTokens: usage.output_tokens,
+    reasoningTokens: usage.reasoning_output_tokens,
+    toolCalls: metrics.toolCalls,
+    durationMs: Date.now() - metrics.startedAt,
+    raw: usage,
+  });
+}
+
+/**
+ * Rebuilds the stream events of a `run()` call from the SDK events kept in its summary.
+ */
+function normalizeCodexRunResult(result: RunResult): CoderStreamEvent[] | undefined {
+  const events = (result.raw as Partial<CodexRunSummary> | undefined)?.events;
+  if (!Array.isArray(events)) return undefined;
+  const metrics: CodexRunMetrics = {
+    startedAt: Date.now() - (result.usage?.durationMs ?? 0),
+    toolCalls: result.usage?.toolCalls ?? 0,
+  };
+  const tools = new ToolCallRegistry(CODER_NAME);
+  return events.flatMap(event => normalizeCodexEvent(event, metrics, tools));
+}
+
+function normalizeCodexEvent(event: any, metrics: CodexRunMetrics, tools: ToolCallRegistry): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const ev = event ?? {};
@@ -409,6 +886,10 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
     return normalized;
   }
 
+  if ((type === 'item.started' || type === 'item.completed') && isCodexToolItem(ev.item)) {
+    return normalizeCodexToolItem(ev, tools, ts);
+  }
+
   if (type === 'item.delta') {
     const item = ev.item ?? {};
     if (item.type === 'agent_message') {
@@ -464,7 +945,7 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
       type: 'tool_use',
       provider,
       name: ev.item?.name ?? 'tool',
-      callId: ev.item?.id,
+      callId: tools.start(ev.item?.name ?? 'tool', ev.item?.id),
       args: ev.item?.input,
       ts,
       originalItem: ev,
@@ -476,8 +957,7 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
     normalized.push({
       type: 'tool_result',
       provider,
-      name: ev.item?.name ?? 'tool',
-      callId: ev.item?.id,
+      ...tools.finish(ev.item?.name, ev.item?.id),
       result: ev.item?.output,
       exitCode: ev.item?.exit_code ?? null,
       ts,
@@ -490,7 +970,7 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
     normalized.push({
       type: 'usage',
       provider,
-      stats: ev.usage,
+      stats: normalizeCodexUsage(ev.usage, metrics),
       ts,
       originalItem: ev,
     });
@@ -499,11 +979,12 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
   }
 
   if (type === 'turn.failed') {
+    const message = ev.error?.message ?? 'Codex turn failed';
     normalized.push({
       type: 'error',
       provider,
-      code: 'turn.failed',
-      message: ev.error?.message ?? 'Codex turn failed',
+      code: classifyError(message),
+      message,
       ts,
       originalItem: ev,
     });
@@ -528,10 +1009,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function isAbortError(error: unknown): boolean {
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Folds the events of a streamed run into a live view (assistant text, tool
+ * calls paired with their results, plan, file changes, usage) and a final `RunResult`.
+ */
+
+import { toCoderError } from './errors.js';
+import { toolCallStatus } from './tool-calls.js';
+import type { AdapterName, CoderStreamEvent, EventIterator, RunResult, UsageStats } from './types.js';
+
+type StreamEventOf<T extends CoderStreamEvent['type']> = Extract<CoderStreamEvent, { type: T }>;
+
+/**
+ * A tool call and, once it arrived, its result.
+ */
+export interface ToolCallView {
+  /** Provider identifier of the call, when it has one. */
+  callId?: string;
+  name: string;
+  args?: unknown;
+  result?: unknown;
+  exitCode?: number | null;
+  error?: unknown;
+  /** `failed` when the result carries an error or a non-zero exit code. */
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt?: number;
+  endedAt?: number;
+}
+
+/**
+ * State of a streamed run after the events seen so far.
+ */
+export interface RunView {
+  threadId?: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  /** Text of the latest assistant message, including deltas still being streamed. */
+  text: string;
+  /** Completed assistant messages, in order. */
+  messages: string[];
+  toolCalls: ToolCallView[];
+  /** Latest plan reported by the provider. */
+  plan?: string;
+  /** Latest `file_change` event per path. */
+  fileChanges: StreamEventOf<'file_change'>[];
+  /** Latest usage reported for the run. */
+  usage?: UsageStats;
+  error?: { code?: string; message: string };
+}
+
+/**
+ * Accumulates the events of one streamed run.
+ *
+ * Assistant deltas build up the message in progress; a complete (non-delta) assistant
+ * message replaces them, so providers that stream deltas and then repeat the full message
+ * (Claude with `streamPartialMessages`) are not counted twice. Tool results are paired with
+ * their call by `callId`, or by name with the oldest running call when the result has none.
+ */
+export class StreamAccumulator {
+  readonly events: CoderStreamEvent[] = [];
+  private threadId?: string;
+  private status: RunView['status'] = 'running';
+  private pending = '';
+  private readonly messages: string[] = [];
+  private readonly toolCalls: ToolCallView[] = [];
+  private plan?: string;
+  private readonly fileChanges = new Map<string, StreamEventOf<'file_change'>>();
+  private usage?: UsageStats;
+  private error?: RunView['error'];
+  private provider?: AdapterName;
+
+  /**
+   * Applies one event and returns the updated view.
+   */
+  push(event: CoderStreamEvent): RunView {
+    this.events.push(event);
+    this.provider ??= event.provider;
+    switch (event.type) {
+      case 'init':
+        this.threadId = event.threadId ?? this.threadId;
+        break;
+      case 'message':
+        if (event.role !== 'assistant' || !event.text) break;
+        if (event.delta) {
+          this.pending += event.text;
+        } else {
+          this.messages.push(event.text);
+          this.pending = '';
+        }
+        break;
+      case 'tool_use':
+        this.recordToolUse(event);
+        break;
+      case 'tool_result':
+        this.recordToolResult(event);
+        break;
+      case 'plan_update':
+        this.plan = event.text ?? this.plan;
+        break;
+      case 'file_change':
+        this.fileChanges.set(event.path ?? `#${this.fileChanges.size}`, event);
+        break;
+      case 'usage':
+        this.usage = event.stats ?? this.usage;
+        break;
+      case 'error':
+        this.error = { code: event.code, message: event.message };
+        this.status = event.code === 'interrupted' ? 'cancelled' : 'failed';
+        break;
+      case 'cancelled':
+        if (this.status === 'running') this.status = 'cancelled';
+        break;
+      case 'done':
+        if (this.status === 'running') this.status = 'completed';
+        break;
+    }
+    return this.view;
+  }
+
+  /**
+   * Snapshot of the run so far; later events do not mutate it.
+   */
+  get view(): RunView {
+    return {
+      threadId: this.threadId,
+      status: this.status,
+      text: this.pending || (this.messages.at(-1) ?? ''),
+      messages: [...this.messages],
+      toolCalls: this.toolCalls.map(call => ({ ...call })),
+      plan: this.plan,
+      fileChanges: [...this.fileChanges.values()],
+      usage: this.usage,
+      error: this.error,
+    };
+  }
+
+  /**
+   * Builds the `RunResult` a non-streamed `run()` would have returned, with the events as
+   * `raw`.
+   *
+   * @throws CoderError when the stream reported an error or was cancelled.
+   */
+  toRunResult(): RunResult {
+    const view = this.view;
+    if (view.error || view.status === 'cancelled') {
+      const error = Object.assign(new Error(view.error?.message ?? 'Interrupted'), {
+        code: view.error?.code ?? 'interrupted',
+      });
+      throw toCoderError(error, this.provider);
+    }
+    return { threadId: view.threadId, text: view.text || undefined, usage: view.usage, raw: [...this.events] };
+  }
+
+  private recordToolUse(event: StreamEventOf<'tool_use'>): void {
+    const known = event.callId ? this.toolCalls.find(call => call.callId === event.callId) : undefined;
+    if (known) {
+      known.args = event.args ?? known.args;
+      return;
+    }
+    this.toolCalls.push({
+      callId: event.callId,
+      name: event.name,
+      args: event.args,
+      status: 'running',
+      startedAt: event.ts,
+    });
+  }
+
+  private recordToolResult(event: StreamEventOf<'tool_result'>): void {
+    let call = event.callId
+      ? this.toolCalls.find(candidate => candidate.callId === event.callId)
+      : this.toolCalls.find(candidate => candidate.status === 'running' && candidate.name === event.name);
+    if (!call) {
+      call = {
+        callId: event.callId,
+        name: event.name,
+        args: event.args,
+        status: 'running',
+        startedAt: event.startedAt,
+      };
+      this.toolCalls.push(call);
+    }
+    call.name ||= event.name;
+    call.result = event.result;
+    call.exitCode = event.exitCode;
+    call.error = event.error;
+    call.endedAt = event.endedAt ?? event.ts;
+    call.status = event.status ?? toolCallStatus(event);
+  }
+}
+
+/**
+ * Consumes a `runStreamed` iterator, calling `onUpdate` with the view after every event,
+ * and resolves with the run's `RunResult`.
+ *
+ * @throws CoderError when the stream reported an error or was cancelled.
+ */
+export async function accumulateStream(
+  events: EventIterator,
+  onUpdate?: (view: RunView, event: CoderStreamEvent) => void,
+): Promise<RunResult> {
+  const accumulator = new StreamAccumulator();
+  for await (const event of events) {
+    const view = accumulator.push(event);
+    onUpdate?.(view, event);
+  }
+  return accumulator.toRunResult();
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Run budgets: limits on tokens, cost, duration and tool calls that
+ * adapters enforce by interrupting the run.
+ */
+
+import { CoderError } from './errors.js';
+import { computeCost } from './usage.js';
+import { now } from './types.js';
+import type { AdapterName, BudgetLimit, CoderStreamEvent, RunBudget, UsageStats } from './types.js';
+
+/**
+ * Raised by `run()` (and surfaced as an `error` event with the same code by
+ * `runStreamed()`) when a run crosses one of its `RunOpts.budget` limits.
+ */
+export class BudgetExceededError extends CoderError {
+  declare readonly code: 'budget_exceeded';
+
+  constructor(
+    readonly limit: BudgetLimit,
+    readonly max: number,
+    readonly actual: number,
+  ) {
+    super('budget_exceeded', `Run exceeded its ${limit} budget (${actual} > ${max}).`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Tracks one run against its budget. Adapters feed it tool calls and usage as the
+ * provider reports them; the first crossed limit invokes `onExceeded` exactly once.
+ */
+export interface BudgetMonitor {
+  /** Error describing the crossed limit, once one was crossed. */
+  readonly exceeded: BudgetExceededError | undefined;
+  countToolCall(): void;
+  /** Replaces the run's usage so far. */
+  setUsage(usage: UsageStats): void;
+  /** Adds usage reported for part of the run (e.g. one model message). */
+  addUsage(usage: UsageStats): void;
+  /** Stops the duration timer; call when the run settles. */
+  stop(): void;
+}
+
+/**
+ * Creates a budget monitor for one run. Without a budget the monitor never fires.
+ */
+export function createBudgetMonitor(
+  budget: RunBudget | undefined,
+  provider: AdapterName,
+  onExceeded: (error: BudgetExceededError) => void,
+): BudgetMonitor {
+  const startedAt = Date.now();
+  let toolCalls = 0;
+  let tokens = 0;
+  let cost = 0;
+  let exceeded: BudgetExceededError | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const check = (limit: BudgetLimit, actual: number) => {
+    const max = budget?.[limit];
+    if (exceeded || max === undefined || actual <= max) return;
+    exceeded = new BudgetExceededError(limit, max, actual);
+    if (timer) clearTimeout(timer);
+    onExceeded(exceeded);
+  };
+
+  const measure = (usage: UsageStats) => ({
+    tokens: usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+    cost: usage.costUsd ?? computeCost(usage, provider) ?? 0,
+  });
+
+  if (budget?.maxDurationMs !== undefined) {
+    timer = setTimeout(() => check('maxDurationMs', Date.now() - startedAt), budget.maxDurationMs + 1);
+    timer.unref?.();
+  }
+
+  return {
+    get exceeded() {
+      return exceeded;
+    },
+    countToolCall() {
+      toolCalls += 1;
+      check('maxToolCalls', toolCalls);
+    },
+    setUsage(usage) {
+      ({ tokens, cost } = measure(usage));
+      check('maxTokens', tokens);
+      check('maxCostUsd', cost);
+    },
+    addUsage(usage) {
+      const part = measure(usage);
+      tokens += part.tokens;
+      cost += part.cost;
+      check('maxTokens', tokens);
+      check('maxCostUsd', cost);
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Builds the `error` event streams emit after a budget interrupted the run.
+ */
+export function createBudgetExceededEvent(provider: AdapterName, error: BudgetExceededError): CoderStreamEvent {
+  return {
+    type: 'error',
+    provider,
+    code: error.code,
+    message: error.message,
+    ts: now(),
+    originalItem: { limit: error.limit, max: error.max, actual: error.actual },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Cassette helpers that let adapters record raw provider events to
+ * disk and replay them later through the same normalizers.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { InterruptedError } from './errors.js';
+import type { AdapterName, CassetteEntry, CassetteOptions } from './types.js';
+
+/**
+ * Cassette bound to a single thread: either appends entries or hands them out in order.
+ */
+export type CassetteSession =
+  | { mode: 'record'; path: string; record(entry: Omit<CassetteEntry, 'provider' | 'recordedAt'>): void }
+  | { mode: 'replay'; path: string; next(): CassetteEntry };
+
+/**
+ * Opens a cassette for one thread.
+ *
+ * Replay sessions read the file eagerly and keep their own cursor, so every thread
+ * started against the same cassette replays it from the first entry recorded for
+ * the provider.
+ *
+ * @throws When replaying a file that does not exist or contains malformed lines.
+ */
+export function openCassette(options: CassetteOptions, provider: AdapterName): CassetteSession {
+  const filePath = path.resolve(options.path);
+  if (options.mode === 'record') {
+    return {
+      mode: 'record',
+      path: filePath,
+      record(entry) {
+        mkdirSync(path.dirname(filePath), { recursive: true });
+        const line: CassetteEntry = { provider, ...entry, recordedAt: Date.now() };
+        appendFileSync(filePath, `${JSON.stringify(line)}\n`, 'utf8');
+      },
+    };
+  }
+
+  const entries = readCassette(filePath).filter(entry => entry.provider === provider);
+  let cursor = 0;
+  return {
+    mode: 'replay',
+    path: filePath,
+    next() {
+      const entry = entries[cursor];
+      if (!entry) {
+        throw new Error(`Cassette ${filePath} has no recorded ${provider} run #${cursor + 1}.`);
+      }
+      cursor += 1;
+      return entry;
+    },
+  };
+}
+
+/**
+ * Reads every entry from a cassette file.
+ */
+export function readCassette(filePath: string): CassetteEntry[] {
+  const contents = readFileSync(filePath, 'utf8');
+  return contents
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as CassetteEntry;
+      } catch {
+        throw new Error(`Cassette ${filePath} has an invalid entry on line ${index + 1}.`);
+      }
+    });
+}
+
+/**
+ * Passes events through unchanged while collecting them, then hands the collected
+ * list to `onComplete` once the source finishes, fails, or is abandoned.
+ */
+export async function* recordEvents<T>(
+  source: AsyncIterable<T>,
+  onComplete: (events: T[]) => void,
+): AsyncGenerator<T> {
+  const events: T[] = [];
+  try {
+    for await (const event of source) {
+      events.push(event);
+      yield event;
+    }
+  } finally {
+    onComplete(events);
+  }
+}
+
+/**
+ * Replays recorded events asynchronously, yielding to the event loop between
+ * items so interrupts can land mid-stream.
+ *
+ * @throws An `InterruptedError` (`code: 'interrupted'`) once the signal fires.
+ */
+export async function* replayEvents<T>(events: readonly T[], signal?: AbortSignal): AsyncGenerator<T> {
+  for (const event of events) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+    if (signal?.aborted) {
+      throw createReplayAbortError(signal.reason);
+    }
+    yield event;
+  }
+}
+
+function createReplayAbortError(reason: unknown): Error {
+  const message =
+    typeof reason === 'string' ? reason : reason instanceof Error ? reason.message : 'Operation was interrupted';
+  return new InterruptedError(message);
+}
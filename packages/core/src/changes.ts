@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Provider-independent change tracking: snapshots of the working directory
+ * before and after each run, turned into a file list and a unified patch.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { git } from './git.js';
+import { now } from './types.js';
+import { getWorkspace } from './workspace.js';
+import type {
+  ChangeTrackingOptions,
+  CoderStreamEvent,
+  FileChange,
+  HeadlessCoder,
+  PromptInput,
+  RunChanges,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Records snapshots of one directory and reports what changed between them.
+ */
+export interface ChangeTracker {
+  readonly directory: string;
+  /** Makes the current contents of the directory the baseline for `changes()` and returns its snapshot id. */
+  snapshot(): Promise<string>;
+  /** Returns the files changed since the last snapshot. */
+  changes(): Promise<RunChanges>;
+  /**
+   * Makes `target` (defaults to the tracked directory) match a snapshot: files are rewritten,
+   * files created since are deleted, and ignored files are left alone.
+   */
+  restore(snapshot: string, target?: string): Promise<void>;
+  /** Deletes the snapshots. */
+  dispose(): Promise<void>;
+}
+
+const DEFAULT_IGNORE = ['node_modules/'];
+const OPS: Record<string, FileChange['op']> = { A: 'create', M: 'modify', T: 'modify', D: 'delete', R: 'rename' };
+
+const trackers = new WeakMap<ThreadHandle, ChangeTracker>();
+
+/**
+ * Creates a change tracker for `directory`.
+ *
+ * Snapshots are git trees written to a private repository in the temp directory, so the
+ * directory does not need to be a git checkout and its own repository is left untouched.
+ * Files matched by the directory's `.gitignore` files or `options.ignore` are skipped.
+ */
+export function createChangeTracker(directory: string, options: ChangeTrackingOptions = {}): ChangeTracker {
+  let gitDir: Promise<string> | undefined;
+  let baseline: string | undefined;
+
+  const setup = () =>
+    (gitDir ??= (async () => {
+      const dir = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-changes-'));
+      await git(['init', '--quiet', '--bare', dir], dir);
+      await git(['--git-dir', dir, 'config', 'gc.auto', '0'], dir);
+      await mkdir(path.join(dir, 'info'), { recursive: true });
+      await writeFile(path.join(dir, 'info', 'exclude'), `${(options.ignore ?? DEFAULT_IGNORE).join('\n')}\n`, 'utf8');
+      return dir;
+    })());
+
+  const writeTree = async () => {
+    const repo = ['--git-dir', await setup(), '--work-tree', directory];
+    await git([...repo, 'add', '--all'], directory);
+    return (await git([...repo, 'write-tree'], directory)).trim();
+  };
+
+  return {
+    directory,
+    snapshot: async () => {
+      baseline = await writeTree();
+      return baseline;
+    },
+    changes: async () => {
+      if (!baseline) throw new Error('ChangeTracker.snapshot() must be called before changes().');
+      const current = await writeTree();
+      if (current === baseline) return { files: [], patch: '' };
+      const diff = ['-c', 'core.quotepath=false', '--git-dir', await setup(), 'diff-tree', '-r', '-M'];
+      const status = await git([...diff, '--name-status', '-z', baseline, current], directory);
+      const patch = await git([...diff, '--binary', '--patch', baseline, current], directory);
+      return { files: parseChanges(status, patch), patch };
+    },
+    restore: async (snapshot, target = directory) => {
+      const repoDir = await setup();
+      if (path.resolve(target) === path.resolve(directory)) {
+        await writeTree();
+        await git(['--git-dir', repoDir, '--work-tree', directory, 'read-tree', '--reset', '-u', snapshot], directory);
+        return;
+      }
+      await mkdir(target, { recursive: true });
+      const env = { ...process.env, GIT_INDEX_FILE: path.join(repoDir, `index-${randomUUID()}`) };
+      try {
+        await git(['--git-dir', repoDir, '--work-tree', target, 'read-tree', '--reset', '-u', snapshot], target, env);
+      } finally {
+        await rm(env.GIT_INDEX_FILE, { force: true });
+      }
+    },
+    dispose: async () => {
+      const dir = await gitDir?.catch(() => undefined);
+      gitDir = undefined;
+      baseline = undefined;
+      if (dir) await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Returns the change tracker of a thread created through `createCoder` with
+ * `trackChanges`, or `undefined` when the thread is not tracked.
+ */
+export function getChangeTracker(thread: ThreadHandle): ChangeTracker | undefined {
+  return trackers.get(thread);
+}
+
+/**
+ * Returns a coder whose threads snapshot their working directory (the isolated workspace,
+ * when there is one) around every run. `run` results carry `changes`; streams emit one
+ * `file_change` event per changed file right before `done`. Runs that throw report nothing.
+ */
+export function applyChangeTracking(
+  coder: HeadlessCoder,
+  defaults?: StartOpts,
+  options: ChangeTrackingOptions = {},
+): HeadlessCoder {
+  const track = (handle: ThreadHandle, opts?: StartOpts) => {
+    const directory = getWorkspace(handle)?.path ?? opts?.workingDirectory ?? defaults?.workingDirectory;
+    return trackThread(coder, handle, createChangeTracker(path.resolve(directory ?? process.cwd()), options));
+  };
+  return {
+    startThread: async opts => track(await coder.startThread(opts), opts),
+    resumeThread: async (threadId, opts) => track(await coder.resumeThread(threadId, opts), opts),
+    getThreadId: thread => coder.getThreadId(thread),
+    close: async thread => {
+      if (!trackers.has(thread)) {
+        await coder.close?.(thread);
+        return;
+      }
+      await thread.close?.();
+    },
+  };
+}
+
+function trackThread(coder: HeadlessCoder, handle: ThreadHandle, tracker: ChangeTracker): ThreadHandle {
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+  const close = handle.close?.bind(handle);
+  trackers.set(handle, tracker);
+
+  handle.run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    await tracker.snapshot();
+    const result = await run(input, opts);
+    return { ...result, changes: await tracker.changes() };
+  };
+
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts) => ({
+    async *[Symbol.asyncIterator]() {
+      await tracker.snapshot();
+      let reported = false;
+      const report = async function* (): AsyncGenerator<CoderStreamEvent> {
+        reported = true;
+        for (const change of (await tracker.changes()).files) {
+          yield createFileChangeEvent(handle, change);
+        }
+      };
+      for await (const event of runStreamed(input, opts)) {
+        if (event.type === 'done' && !reported) yield* report();
+        yield event;
+      }
+      if (!reported) yield* report();
+    },
+  });
+
+  handle.close = async () => {
+    await (close ? close() : coder.close?.(handle));
+    await tracker.dispose();
+  };
+
+  return handle;
+}
+
+function parseChanges(status: string, patch: string): FileChange[] {
+  const fields = status.split('\0').filter(Boolean);
+  const patches = patch.split(/^(?=diff --git )/m).filter(Boolean);
+  const files: FileChange[] = [];
+  for (let index = 0; index < fields.length; ) {
+    const op = OPS[fields[index][0]] ?? 'modify';
+    const change: FileChange =
+      op === 'rename'
+        ? { path: fields[index + 2], op, previousPath: fields[index + 1], patch: '' }
+        : { path: fields[index + 1], op, patch: '' };
+    index += op === 'rename' ? 3 : 2;
+    change.patch = patches[files.length] ?? '';
+    files.push(change);
+  }
+  return files;
+}
+
+/**
+ * Builds the `file_change` event reported for one changed file.
+ */
+export function createFileChangeEvent(handle: ThreadHandle, change: FileChange): CoderStreamEvent {
+  return {
+    type: 'file_change',
+    provider: handle.provider,
+    path: change.path,
+    op: change.op,
+    patch: change.patch,
+    ts: now(),
+    originalItem: change,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Per-turn checkpoints of a thread's working directory and conversation,
+ * with rollback of the files and forking new threads from any turn.
+ */
+
+import { mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createChangeTracker, getChangeTracker } from './changes.js';
+import type { ChangeTracker } from './changes.js';
+import { now } from './types.js';
+import { getWorkspace } from './workspace.js';
+import type {
+  Checkpoint,
+  CoderStreamEvent,
+  HeadlessCoder,
+  PromptInput,
+  PromptMessage,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+interface CheckpointState {
+  tracker: ChangeTracker;
+  checkpoints: Array<Checkpoint & { historyLength: number }>;
+  /** User and assistant messages of the completed turns. */
+  history: PromptMessage[];
+  /** Conversation inherited from a fork, sent ahead of the next prompt. */
+  replay?: PromptMessage[];
+}
+
+const states = new WeakMap<ThreadHandle, CheckpointState>();
+
+/**
+ * Returns the checkpoints recorded for a thread created through `createCoder` with
+ * `checkpoints`, oldest first, or an empty list when the thread is not checkpointed.
+ */
+export function getCheckpoints(thread: ThreadHandle): Checkpoint[] {
+  return (states.get(thread)?.checkpoints ?? []).map(toCheckpoint);
+}
+
+/**
+ * Returns a coder whose threads record a checkpoint when they are opened (`turn-0`) and
+ * after every completed run. `run` results carry the `turnId`; streams report it as a
+ * `progress` event labelled `checkpoint` right before `done`. Failed runs are not checkpointed.
+ *
+ * `thread.rollback(turnId)` makes the working directory match the checkpoint again while
+ * the provider conversation carries on. `thread.fork(turnId, opts?)` starts a new thread
+ * through this coder in a copy of the checkpoint's files (a temporary directory unless
+ * `opts.workingDirectory` is set) and replays the conversation up to that turn ahead of
+ * its first prompt. Ignored files such as `node_modules` are neither rolled back nor copied.
+ */
+export function applyCheckpoints(coder: HeadlessCoder, defaults?: StartOpts): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => checkpointThread(await coder.startThread(opts), opts),
+    resumeThread: async (threadId, opts) => checkpointThread(await coder.resumeThread(threadId, opts), opts),
+    getThreadId: thread => coder.getThreadId(thread),
+    close: async thread => {
+      if (!states.has(thread)) {
+        await coder.close?.(thread);
+        return;
+      }
+      await thread.close?.();
+    },
+  };
+
+  const checkpointThread = async (handle: ThreadHandle, opts?: StartOpts, replay?: PromptMessage[]) => {
+    const directory = getWorkspace(handle)?.path ?? opts?.workingDirectory ?? defaults?.workingDirectory;
+    const tracker = getChangeTracker(handle) ?? createChangeTracker(path.resolve(directory ?? process.cwd()));
+    const state: CheckpointState = { tracker, checkpoints: [], history: replay ? [...replay] : [], replay };
+    states.set(handle, state);
+    await record(handle, state);
+
+    const run = handle.run.bind(handle);
+    const runStreamed = handle.runStreamed.bind(handle);
+    const close = handle.close?.bind(handle);
+
+    handle.run = async (input: PromptInput, runOpts?: RunOpts): Promise<RunResult> => {
+      const result = await run(withReplay(state, input), runOpts);
+      remember(state, input, result.text);
+      return { ...result, turnId: (await record(handle, state)).turnId };
+    };
+
+    handle.runStreamed = (input: PromptInput, runOpts?: RunOpts) => ({
+      async *[Symbol.asyncIterator]() {
+        let text = '';
+        let deltas = '';
+        for await (const event of runStreamed(withReplay(state, input), runOpts)) {
+          if (event.type === 'message' && event.role === 'assistant' && event.text) {
+            if (event.delta) deltas += event.text;
+            else text = event.text;
+          }
+          if (event.type === 'done') {
+            remember(state, input, text || deltas);
+            yield createCheckpointEvent(handle, await record(handle, state));
+          }
+          yield event;
+        }
+      },
+    });
+
+    handle.rollback = async turnId => {
+      await tracker.restore(find(state, turnId).snapshot);
+    };
+
+    handle.fork = async (turnId, forkOpts) => {
+      const checkpoint = find(state, turnId);
+      const target = forkOpts?.workingDirectory ?? (await mkdtemp(path.join(os.tmpdir(), 'headless-coder-fork-')));
+      await tracker.restore(checkpoint.snapshot, target);
+      const startOpts: StartOpts = { ...opts, isolation: false, ...forkOpts, workingDirectory: target };
+      return checkpointThread(
+        await coder.startThread(startOpts),
+        startOpts,
+        state.history.slice(0, checkpoint.historyLength),
+      );
+    };
+
+    handle.close = async () => {
+      await (close ? close() : coder.close?.(handle));
+      await tracker.dispose();
+    };
+
+    return handle;
+  };
+
+  return wrapped;
+}
+
+async function record(handle: ThreadHandle, state: CheckpointState): Promise<Checkpoint> {
+  const checkpoint = {
+    turnId: `turn-${state.checkpoints.length}`,
+    threadId: handle.id,
+    createdAt: Date.now(),
+    snapshot: await state.tracker.snapshot(),
+    historyLength: state.history.length,
+  };
+  state.checkpoints.push(checkpoint);
+  return toCheckpoint(checkpoint);
+}
+
+function toCheckpoint({ turnId, threadId, createdAt, snapshot }: Checkpoint): Checkpoint {
+  return { turnId, threadId, createdAt, snapshot };
+}
+
+function find(state: CheckpointState, turnId: string): CheckpointState['checkpoints'][number] {
+  const checkpoint = state.checkpoints.find(entry => entry.turnId === turnId);
+  if (!checkpoint) {
+    const known = state.checkpoints.map(entry => entry.turnId).join(', ');
+    throw new Error(`Unknown checkpoint "${turnId}". Known turns: ${known}.`);
+  }
+  return checkpoint;
+}
+
+function toMessages(input: PromptInput): PromptMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
+
+function withReplay(state: CheckpointState, input: PromptInput): PromptInput {
+  return state.replay ? [...state.replay, ...toMessages(input)] : input;
+}
+
+function remember(state: CheckpointState, input: PromptInput, text: string | undefined): void {
+  state.history.push(...toMessages(input));
+  if (text) state.history.push({ role: 'assistant', content: text });
+  state.replay = undefined;
+}
+
+function createCheckpointEvent(handle: ThreadHandle, checkpoint: Checkpoint): CoderStreamEvent {
+  return {
+    type: 'progress',
+    provider: handle.provider,
+    label: 'checkpoint',
+    detail: checkpoint.turnId,
+    ts: now(),
+    originalItem: checkpoint,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Conformance harness that checks an adapter factory honours the
+ * HeadlessCoder contract shared by the built-in adapters.
+ */
+
+import type {
+  AdapterFactory,
+  AdapterName,
+  CoderStreamEvent,
+  HeadlessCoder,
+  PromptInput,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Options controlling how the harness drives the adapter under test.
+ */
+export interface ConformanceOptions {
+  /** Start options for every thread the harness opens (e.g. a replay cassette or fake binary). */
+  startOpts?: StartOpts | (() => StartOpts);
+  /** Prompt sent for every run. The backend must answer it with at least two events. */
+  prompt?: PromptInput;
+  /** Thread id used for the `resumeThread` check. */
+  resumeThreadId?: string;
+  /** Per-check timeout in milliseconds. */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome of a single contract check.
+ */
+export interface ConformanceCheckResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+/**
+ * Aggregated conformance outcome for one adapter.
+ */
+export interface ConformanceReport {
+  adapter: AdapterName;
+  passed: boolean;
+  checks: ConformanceCheckResult[];
+}
+
+const DEFAULT_PROMPT = 'Reply with a short greeting.';
+const DEFAULT_TIMEOUT_MS = 30_000;
+const TERMINAL_TYPES = new Set<CoderStreamEvent['type']>(['done', 'cancelled', 'error']);
+
+interface ConformanceContext {
+  createCoder(): HeadlessCoder;
+  startOpts(): StartOpts | undefined;
+  prompt: PromptInput;
+  resumeThreadId: string;
+}
+
+type ConformanceCheck = {
+  name: string;
+  run(ctx: ConformanceContext): Promise<void>;
+};
+
+const CHECKS: ConformanceCheck[] = [
+  {
+    name: 'startThread returns a handle with provider and id',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.startThread(ctx.startOpts());
+      expectHandle(thread);
+      expect(
+        coder.getThreadId(thread) === thread.id,
+        `getThreadId() returned ${String(coder.getThreadId(thread))} but handle.id is ${String(thread.id)}`,
+      );
+      await coder.close?.(thread);
+    },
+  },
+  {
+    name: 'resumeThread returns a handle bound to the thread id',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.resumeThread(ctx.resumeThreadId, ctx.startOpts());
+      expectHandle(thread);
+      expect(thread.id === ctx.resumeThreadId, `handle.id is ${String(thread.id)}, expected ${ctx.resumeThreadId}`);
+      expect(coder.getThreadId(thread) === ctx.resumeThreadId, 'getThreadId() does not match the resumed id');
+      await coder.close?.(thread);
+    },
+  },
+  {
+    name: 'runStreamed ends with exactly one terminal event',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.startThread(ctx.startOpts());
+      const events = await collect(thread.runStreamed(ctx.prompt));
+      const terminals = events.filter(event => TERMINAL_TYPES.has(event.type));
+      expect(terminals.length === 1, `expected one terminal event, saw ${describe(terminals)}`);
+      const last = events[events.length - 1];
+      expect(!!last && TERMINAL_TYPES.has(last.type), `stream ended with ${last?.type ?? 'no events'}`);
+      await coder.close?.(thread);
+    },
+  },
+  {
+    name: 'interrupt yields cancelled plus an interrupted error',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.startThread(ctx.startOpts());
+      expect(typeof thread.interrupt === 'function', 'thread handle does not expose interrupt()');
+      const events: CoderStreamEvent[] = [];
+      for await (const event of thread.runStreamed(ctx.prompt)) {
+        events.push(event);
+        if (events.length === 1) {
+          await thread.interrupt!('conformance interrupt');
+        }
+      }
+      expect(events.some(event => event.type === 'cancelled'), `no cancelled event in ${describe(events)}`);
+      expect(
+        events.some(event => event.type === 'error' && event.code === 'interrupted'),
+        `no error event with code "interrupted" in ${describe(events)}`,
+      );
+      expect(!events.some(event => event.type === 'done'), 'stream emitted done after being interrupted');
+      await coder.close?.(thread);
+    },
+  },
+  {
+    name: 'concurrent runs on one thread are rejected',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.startThread(ctx.startOpts());
+      const iterator = thread.runStreamed(ctx.prompt)[Symbol.asyncIterator]();
+      try {
+        await iterator.next();
+        let rejected = false;
+        try {
+          await Promise.resolve().then(() => thread.run(ctx.prompt));
+        } catch {
+          rejected = true;
+        }
+        expect(rejected, 'a second run started while the first was still streaming');
+      } finally {
+        await thread.interrupt?.('conformance cleanup');
+        await drain(iterator);
+        await coder.close?.(thread);
+      }
+    },
+  },
+  {
+    name: 'getThreadId tracks handle.id after a run',
+    async run(ctx) {
+      const coder = ctx.createCoder();
+      const thread = await coder.startThread(ctx.startOpts());
+      await collect(thread.runStreamed(ctx.prompt));
+      expect(typeof thread.id === 'string' && thread.id.length > 0, 'handle.id is empty after a completed run');
+      expect(coder.getThreadId(thread) === thread.id, 'getThreadId() does not match handle.id after a run');
+      await coder.close?.(thread);
+    },
+  },
+];
+
+/**
+ * Runs every contract check against an adapter factory and reports the outcome of each.
+ *
+ * Checks never share threads, so a failure in one does not cascade into the rest.
+ */
+export async function runAdapterConformance(
+  factory: AdapterFactory,
+  options: ConformanceOptions = {},
+): Promise<ConformanceReport> {
+  const defaults = typeof options.startOpts === 'function' ? undefined : options.startOpts;
+  const ctx: ConformanceContext = {
+    createCoder: () => factory(defaults),
+    startOpts: () => (typeof options.startOpts === 'function' ? options.startOpts() : undefined),
+    prompt: options.prompt ?? DEFAULT_PROMPT,
+    resumeThreadId: options.resumeThreadId ?? 'conformance-thread',
+  };
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const checks: ConformanceCheckResult[] = [];
+  for (const check of CHECKS) {
+    try {
+      await withTimeout(check.run(ctx), timeoutMs, check.name);
+      checks.push({ name: check.name, passed: true });
+    } catch (error) {
+      checks.push({ name: check.name, passed: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return {
+    adapter: factory.coderName ?? 'unknown',
+    passed: checks.every(check => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Runs the conformance suite and throws when any check fails.
+ *
+ * @throws Error listing every failed check.
+ */
+export async function assertAdapterConformance(
+  factory: AdapterFactory,
+  options?: ConformanceOptions,
+): Promise<ConformanceReport> {
+  const report = await runAdapterConformance(factory, options);
+  if (!report.passed) {
+    const failures = report.checks
+      .filter(check => !check.passed)
+      .map(check => `- ${check.name}: ${check.error}`)
+      .join('\n');
+    throw new Error(`Adapter "${report.adapter}" failed conformance:\n${failures}`);
+  }
+  return report;
+}
+
+function expectHandle(thread: ThreadHandle): void {
+  expect(typeof thread.provider === 'string' && thread.provider.length > 0, 'handle.provider is missing');
+  expect(
+    thread.id === undefined || typeof thread.id === 'string',
+    `handle.id must be a string or undefined, got ${typeof thread.id}`,
+  );
+  expect(typeof thread.run === 'function' && typeof thread.runStreamed === 'function', 'handle is missing run helpers');
+}
+
+function expect(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function collect(iterable: AsyncIterable<CoderStreamEvent>): Promise<CoderStreamEvent[]> {
+  const events: CoderStreamEvent[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+  }
+  return events;
+}
+
+async function drain(iterator: AsyncIterator<CoderStreamEvent>): Promise<void> {
+  try {
+    while (!(await iterator.next()).done) {
+      // discard remaining events
+    }
+  } catch {
+    // the interrupted run may surface its abort as an exception
+  }
+}
+
+function describe(events: CoderStreamEvent[]): string {
+  return `[${events.map(event => event.type).join(', ')}]`;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`"${label}" timed out after ${ms}ms`)), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
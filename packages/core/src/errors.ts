@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Error taxonomy shared by all adapters, plus helpers that classify raw
+ * provider failures.
+ */
+
+import type { AdapterName, CoderErrorCode } from './types.js';
+
+/**
+ * Extra context attached to a `CoderError`.
+ */
+export interface CoderErrorOptions {
+  provider?: AdapterName;
+  /** Original error or provider payload. */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by adapters. Branch on `code` (or `instanceof` a
+ * subclass) instead of matching provider-specific messages.
+ */
+export class CoderError extends Error {
+  readonly provider?: AdapterName;
+
+  constructor(
+    readonly code: CoderErrorCode,
+    message: string,
+    options?: CoderErrorOptions,
+  ) {
+    super(message, options?.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'CoderError';
+    this.provider = options?.provider;
+  }
+}
+
+/**
+ * The run was interrupted via `RunOpts.signal` or `thread.interrupt()`. Keeps the
+ * `AbortError` name for code that checks `error.name`.
+ */
+export class InterruptedError extends CoderError {
+  declare readonly code: 'interrupted';
+
+  constructor(message = 'Operation was interrupted', options?: CoderErrorOptions) {
+    super('interrupted', message, options);
+    this.name = 'AbortError';
+  }
+}
+
+/** Missing, invalid or expired credentials. */
+export class AuthError extends CoderError {
+  declare readonly code: 'auth';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** The provider throttled the request; retrying later usually succeeds. */
+export class RateLimitError extends CoderError {
+  declare readonly code: 'rate_limited';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('rate_limited', message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** A usage limit, quota or credit balance is exhausted. */
+export class QuotaError extends CoderError {
+  declare readonly code: 'quota';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('quota', message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The provider CLI could not be found or started. */
+export class BinaryNotFoundError extends CoderError {
+  declare readonly code: 'binary_not_found';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('binary_not_found', message, options);
+    this.name = 'BinaryNotFoundError';
+  }
+}
+
+/** The provider's output could not be used (e.g. it does not match the output schema). */
+export class InvalidOutputError extends CoderError {
+  declare readonly code: 'invalid_output';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('invalid_output', message, options);
+    this.name = 'InvalidOutputError';
+  }
+}
+
+/** The provider process or SDK failed for a reason not covered by another code. */
+export class ProviderCrashError extends CoderError {
+  declare readonly code: 'provider_crash';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('provider_crash', message, options);
+    this.name = 'ProviderCrashError';
+  }
+}
+
+/** The provider or the network timed out. */
+export class TimeoutError extends CoderError {
+  declare readonly code: 'timeout';
+
+  constructor(message: string, options?: CoderErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+type CoderErrorClass = new (message: string, options?: CoderErrorOptions) => CoderError;
+
+const ERROR_CLASSES: Record<Exclude<CoderErrorCode, 'budget_exceeded'>, CoderErrorClass> = {
+  interrupted: InterruptedError,
+  auth: AuthError,
+  rate_limited: RateLimitError,
+  quota: QuotaError,
+  binary_not_found: BinaryNotFoundError,
+  invalid_output: InvalidOutputError,
+  provider_crash: ProviderCrashError,
+  timeout: TimeoutError,
+};
+
+// Checked in order: quota messages often mention 429 or rate limits too.
+const MESSAGE_PATTERNS: Array<[CoderErrorCode, RegExp]> = [
+  ['binary_not_found', /\bENOENT\b|command not found|executable not found|not found in PATH/i],
+  ['auth', /\b401\b|unauthori[sz]ed|invalid[\s_-]?api[\s_-]?key|authentication|not logged in|please (run \/)?login/i],
+  ['quota', /usage limit|credit balance|insufficient[\s_-]?quota|billing|quota.*(per day|daily)|daily.*quota/i],
+  ['rate_limited', /rate[\s_-]?limit|too many requests|\b429\b|RESOURCE_EXHAUSTED/i],
+  ['timeout', /timed? ?out|\bETIMEDOUT\b|DEADLINE_EXCEEDED/i],
+];
+
+/**
+ * Returns whether `value` is one of the shared error codes.
+ */
+export function isCoderErrorCode(value: unknown): value is CoderErrorCode {
+  return typeof value === 'string' && (value === 'budget_exceeded' || Object.hasOwn(ERROR_CLASSES, value));
+}
+
+/**
+ * Returns whether `error` is a `CoderError`, optionally with the given code.
+ */
+export function isCoderError(error: unknown, code?: CoderErrorCode): error is CoderError {
+  return error instanceof CoderError && (code === undefined || error.code === code);
+}
+
+/**
+ * Creates the `CoderError` subclass for `code`.
+ */
+export function createCoderError(
+  code: Exclude<CoderErrorCode, 'budget_exceeded'>,
+  message: string,
+  options?: CoderErrorOptions,
+): CoderError {
+  return new ERROR_CLASSES[code](message, options);
+}
+
+/**
+ * Classifies a raw provider failure: an existing shared `code`, an `AbortError`, or
+ * well-known message patterns. Anything unrecognised is a `provider_crash`.
+ */
+export function classifyError(error: unknown): CoderErrorCode {
+  if (error instanceof CoderError) return error.code;
+  const code = (error as { code?: unknown } | undefined)?.code;
+  if (isCoderErrorCode(code)) return code;
+  if (error instanceof Error && error.name === 'AbortError') return 'interrupted';
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  const haystack = typeof code === 'string' ? `${code} ${message}` : message;
+  for (const [kind, pattern] of MESSAGE_PATTERNS) {
+    if (pattern.test(haystack)) return kind;
+  }
+  return 'provider_crash';
+}
+
+/**
+ * Wraps a raw provider failure (an error or a message) in the matching `CoderError`
+ * subclass, keeping its message. `cause` defaults to the failure itself; `CoderError`s
+ * are returned unchanged.
+ */
+export function toCoderError(error: unknown, provider?: AdapterName, cause: unknown = error): CoderError {
+  if (error instanceof CoderError) return error;
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const code = classifyError(error);
+  return createCoderError(code === 'budget_exceeded' ? 'provider_crash' : code, message, { provider, cause });
+}
@@ -2,9 +2,29 @@
  * @fileoverview Adapter registry utilities for headless-coder-sdk.
  */
 
-import type { AdapterFactory, AdapterName, HeadlessCoder, StartOpts } from './types.js';
+import { applyMiddleware } from './middleware.js';
+import { applyThreadStore } from './thread-store.js';
+import { applyUsageAccounting } from './usage.js';
+import { applyRetry } from './retry.js';
+import { createFallbackCoder } from './fallback.js';
+import { applyWorkspaceIsolation } from './workspace.js';
+import { applyChangeTracking } from './changes.js';
+import { applyCheckpoints } from './checkpoints.js';
+import { applyToolCallTracking } from './tool-calls.js';
+import { applyStructuredOutput } from './structured-output.js';
+import type {
+  AdapterFactory,
+  AdapterName,
+  CoderMiddleware,
+  CreateCoderOptions,
+  FallbackTarget,
+  HeadlessCoder,
+  StartOpts,
+  TypedHeadlessCoder,
+} from './types.js';
 
 const registry = new Map<AdapterName, AdapterFactory>();
+const globalMiddleware: CoderMiddleware[] = [];
 
 /**
  * Registers an adapter factory discovered from the factory's `coderName` property.
@@ -34,16 +54,102 @@ export function clearRegisteredAdapters(): void {
 }
 
 /**
- * Creates a headless coder instance using a registered adapter factory.
+ * Registers middleware applied to every coder created afterwards via `createCoder`.
+ */
+export function registerMiddleware(middleware: CoderMiddleware): void {
+  if (!globalMiddleware.includes(middleware)) {
+    globalMiddleware.push(middleware);
+  }
+}
+
+/**
+ * Removes previously registered global middleware.
+ */
+export function unregisterMiddleware(middleware: CoderMiddleware): void {
+  const index = globalMiddleware.indexOf(middleware);
+  if (index !== -1) {
+    globalMiddleware.splice(index, 1);
+  }
+}
+
+/**
+ * Removes all global middleware (primarily useful in tests).
+ */
+export function clearMiddleware(): void {
+  globalMiddleware.length = 0;
+}
+
+/**
+ * Creates a headless coder instance using a registered adapter factory. Threads are
+ * wrapped in these layers, innermost first (see the `CreateCoderOptions` fields):
+ *
+ * 1. `applyWorkspaceIsolation` for `StartOpts.isolation`
+ * 2. `applyToolCallTracking`
+ * 3. `applyRetry` for `options.retry`
+ * 4. `applyChangeTracking` for `options.trackChanges`
+ * 5. `applyUsageAccounting`
+ * 6. `applyStructuredOutput`
+ * 7. `applyThreadStore` for `options.threadStore`
+ * 8. global middleware, then `options.middleware`
+ * 9. `applyCheckpoints` for `options.checkpoints`
  *
- * @throws When no adapter is registered under the supplied name.
+ * Passing an ordered list of providers creates a fallback chain instead (see
+ * `createFallbackCoder`). Unregistered providers in the list are skipped.
+ *
+ * @throws When no adapter is registered under the supplied name(s).
  */
-export function createCoder(name: AdapterName, defaults?: StartOpts): HeadlessCoder {
+export function createCoder(
+  name: AdapterName | FallbackTarget[],
+  defaults?: StartOpts,
+  options?: CreateCoderOptions,
+): TypedHeadlessCoder {
+  if (Array.isArray(name)) {
+    return createChain(name, defaults, options);
+  }
   const factory = registry.get(name);
   if (!factory) {
     throw new Error(`Adapter "${name}" not registered. Did you forget registerAdapter()?`);
   }
-  return factory(defaults);
+  let coder = applyToolCallTracking(applyWorkspaceIsolation(factory(defaults), defaults));
+  coder = applyRetry(coder, name, options?.retry, factory.isRetryableError);
+  if (options?.trackChanges) {
+    coder = applyChangeTracking(coder, defaults, options.trackChanges === true ? {} : options.trackChanges);
+  }
+  coder = applyStructuredOutput(applyUsageAccounting(coder, defaults, options?.prices));
+  if (options?.threadStore) {
+    coder = applyThreadStore(coder, options.threadStore, name, defaults);
+  }
+  coder = applyMiddleware(coder, [...globalMiddleware, ...(options?.middleware ?? [])]);
+  // `applyStructuredOutput` validates `outputSchema`, and the layers above forward `run` unchanged.
+  return (options?.checkpoints ? applyCheckpoints(coder, defaults) : coder) as TypedHeadlessCoder;
+}
+
+function createChain(
+  targets: FallbackTarget[],
+  defaults?: StartOpts,
+  options?: CreateCoderOptions,
+): TypedHeadlessCoder {
+  // Workspaces, change tracking and checkpoints belong to the chain thread, so they wrap the
+  // fallback coder instead of each provider.
+  const linkOptions: CreateCoderOptions = { ...options, trackChanges: false, checkpoints: false };
+  const links = targets
+    .map(target => (typeof target === 'string' ? { provider: target } : target))
+    .filter(target => registry.has(target.provider))
+    .map(target => ({
+      provider: target.provider,
+      create: () => createCoder(target.provider, { ...defaults, ...target.defaults, isolation: false }, linkOptions),
+    }));
+  if (!links.length) {
+    const names = targets.map(target => (typeof target === 'string' ? target : target.provider)).join(', ');
+    throw new Error(`None of the adapters in the fallback chain (${names}) are registered.`);
+  }
+  let coder = applyWorkspaceIsolation(createFallbackCoder(links, options?.fallbackOn), defaults);
+  if (options?.trackChanges) {
+    coder = applyChangeTracking(coder, defaults, options.trackChanges === true ? {} : options.trackChanges);
+  }
+  // Providers price their own runs; this layer totals the chain thread's usage across them.
+  coder = applyUsageAccounting(coder, defaults, options?.prices);
+  return (options?.checkpoints ? applyCheckpoints(coder, defaults) : coder) as TypedHeadlessCoder;
 }
 
 /**
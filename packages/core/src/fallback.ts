@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Provider fallback chains: threads that move to the next adapter when a
+ * provider fails with a non-recoverable error, replaying the conversation so far.
+ */
+
+import { classifyError } from './errors.js';
+import { now } from './types.js';
+import type {
+  AdapterName,
+  CoderErrorCode,
+  CoderStreamEvent,
+  HeadlessCoder,
+  PromptInput,
+  PromptMessage,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Lazily created coder for one provider of a chain.
+ */
+export interface FallbackLink {
+  provider: AdapterName;
+  create(): HeadlessCoder;
+}
+
+interface FallbackState {
+  index: number;
+  coder: HeadlessCoder;
+  handle: ThreadHandle;
+  startOpts?: StartOpts;
+  /** Messages exchanged so far, replayed to the next provider after a switch. */
+  history: PromptMessage[];
+  /** Whether the current provider still has to receive `history`. */
+  replay: boolean;
+}
+
+const DEFAULT_FALLBACK_CODES: CoderErrorCode[] = ['auth', 'quota', 'binary_not_found'];
+
+/** Chain thread owning each provider thread it opened. */
+const chainThreads = new WeakMap<ThreadHandle, ThreadHandle>();
+
+/**
+ * Returns the fallback chain thread that runs `thread` on one of its providers, or
+ * `thread` itself when it does not belong to a chain.
+ */
+export function getChainThread(thread: ThreadHandle): ThreadHandle {
+  return chainThreads.get(thread) ?? thread;
+}
+
+/**
+ * Returns a coder whose threads start on the first provider of `links` and switch to
+ * the next one when a run fails with one of the `fallbackOn` codes.
+ *
+ * After a switch the new provider starts a fresh thread and receives the earlier user and
+ * assistant messages ahead of the prompt, and the abandoned provider thread is closed.
+ * Streams report the switch as a `progress` event labelled `fallback`. `resumeThread`
+ * resumes on the first provider, without history.
+ */
+export function createFallbackCoder(
+  links: FallbackLink[],
+  fallbackOn: CoderErrorCode[] = DEFAULT_FALLBACK_CODES,
+): HeadlessCoder {
+  const coders = new Map<number, HeadlessCoder>();
+  const coderAt = (index: number) => {
+    let coder = coders.get(index);
+    if (!coder) {
+      coder = links[index].create();
+      coders.set(index, coder);
+    }
+    return coder;
+  };
+
+  const canFallBack = (state: { index: number }, error: unknown) =>
+    state.index < links.length - 1 && fallbackOn.includes(classifyError(error));
+
+  const open = async (
+    from: number,
+    start: (coder: HeadlessCoder) => Promise<ThreadHandle>,
+  ): Promise<Pick<FallbackState, 'index' | 'coder' | 'handle'>> => {
+    for (let index = from; ; index += 1) {
+      try {
+        const coder = coderAt(index);
+        return { index, coder, handle: await start(coder) };
+      } catch (error) {
+        if (!canFallBack({ index }, error)) throw error;
+      }
+    }
+  };
+
+  const switchProvider = async (state: FallbackState, owner: ThreadHandle) => {
+    const previous = { coder: state.coder, handle: state.handle };
+    const next = await open(state.index + 1, coder => coder.startThread(state.startOpts));
+    Object.assign(state, next, { replay: state.history.length > 0 });
+    chainThreads.set(state.handle, owner);
+    try {
+      await (previous.handle.close ? previous.handle.close() : previous.coder.close?.(previous.handle));
+    } catch {
+      // The failed provider's cleanup must not fail the run that moved on.
+    }
+  };
+
+  const wrap = (state: FallbackState): ThreadHandle => {
+    const handle: ThreadHandle = {
+      provider: state.handle.provider,
+      internal: state,
+      id: state.handle.id,
+      run: async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+        for (;;) {
+          try {
+            const result = await state.handle.run(withHistory(state, input), opts);
+            remember(state, input, result.text);
+            return result;
+          } catch (error) {
+            if (!canFallBack(state, error)) throw error;
+            await switchProvider(state, handle);
+          } finally {
+            sync(handle, state);
+          }
+        }
+      },
+      runStreamed: (input: PromptInput, opts?: RunOpts) => ({
+        async *[Symbol.asyncIterator]() {
+          for (;;) {
+            let failure: unknown;
+            let text = '';
+            let deltas = '';
+            try {
+              for await (const event of state.handle.runStreamed(withHistory(state, input), opts)) {
+                if (event.type === 'error' && canFallBack(state, event)) {
+                  failure = Object.assign(new Error(event.message), { code: event.code });
+                  break;
+                }
+                if (event.type === 'message' && event.role === 'assistant' && event.text) {
+                  if (event.delta) deltas += event.text;
+                  else text = event.text;
+                }
+                yield event;
+              }
+            } catch (error) {
+              if (!canFallBack(state, error)) throw error;
+              failure = error;
+            } finally {
+              sync(handle, state);
+            }
+            if (failure === undefined) {
+              remember(state, input, text || deltas);
+              return;
+            }
+            const from = state.handle.provider;
+            await switchProvider(state, handle);
+            sync(handle, state);
+            yield createFallbackEvent(from, state.handle.provider, failure);
+          }
+        },
+      }),
+      interrupt: async reason => {
+        await state.handle.interrupt?.(reason);
+      },
+      close: async () => {
+        await (state.handle.close ? state.handle.close() : state.coder.close?.(state.handle));
+      },
+    };
+    chainThreads.set(state.handle, handle);
+    return handle;
+  };
+
+  return {
+    startThread: async opts => {
+      const opened = await open(0, coder => coder.startThread(opts));
+      return wrap({ ...opened, startOpts: opts, history: [], replay: false });
+    },
+    resumeThread: async (threadId, opts) => {
+      const opened = await open(0, coder => coder.resumeThread(threadId, opts));
+      return wrap({ ...opened, startOpts: opts, history: [], replay: false });
+    },
+    getThreadId: thread => {
+      const state = thread.internal as FallbackState;
+      return state.coder.getThreadId(state.handle);
+    },
+    close: async thread => {
+      await thread.close?.();
+    },
+  };
+}
+
+function toMessages(input: PromptInput): PromptMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
+
+function withHistory(state: FallbackState, input: PromptInput): PromptInput {
+  return state.replay ? [...state.history, ...toMessages(input)] : input;
+}
+
+function remember(state: FallbackState, input: PromptInput, text: string | undefined): void {
+  state.history.push(...toMessages(input));
+  if (text) state.history.push({ role: 'assistant', content: text });
+  state.replay = false;
+}
+
+function sync(handle: ThreadHandle, state: FallbackState): void {
+  handle.provider = state.handle.provider;
+  handle.id = state.handle.id;
+}
+
+function createFallbackEvent(from: AdapterName, to: AdapterName, error: unknown): CoderStreamEvent {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = classifyError(error);
+  return {
+    type: 'progress',
+    provider: to,
+    label: 'fallback',
+    detail: `Switched from ${from} to ${to} after ${code}: ${message}`,
+    ts: now(),
+    originalItem: { from, to, code, error: message },
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Fan-out runs: one prompt sent to several adapters at once, each in its
+ * own working-directory copy, with merged tagged events and side-by-side results.
+ */
+
+import { cp, mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { toCoderError } from './errors.js';
+import type { CoderError } from './errors.js';
+import { createCoder } from './factory.js';
+import type {
+  AdapterName,
+  CoderStreamEvent,
+  CreateCoderOptions,
+  PromptInput,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  UsageStats,
+} from './types.js';
+
+/**
+ * Adapter to fan out to: a name, or a name plus start options for that adapter only.
+ * `label` tells apart several entries for the same adapter (defaults to the name).
+ */
+export type FanOutTarget = AdapterName | { provider: AdapterName; defaults?: StartOpts; label?: string };
+
+export interface FanOutOptions {
+  targets: FanOutTarget[];
+  /** Start options shared by every target. */
+  defaults?: StartOpts;
+  /** Options passed to `createCoder` for every target. */
+  coderOptions?: CreateCoderOptions;
+  runOpts?: RunOpts;
+  /**
+   * `all` (default) waits for every target to settle; `first` interrupts the others as
+   * soon as one target completes successfully.
+   */
+  mode?: 'all' | 'first';
+  /**
+   * Copies the working directory (without `node_modules`) into a temporary directory per
+   * target so providers cannot see each other's edits. Defaults to `true`; the copies are
+   * kept for inspection.
+   */
+  isolate?: boolean;
+}
+
+/** Stream event tagged with the label of the target that produced it. */
+export type FanOutEvent = CoderStreamEvent & { source: string };
+
+export interface FanOutResult {
+  source: string;
+  provider: AdapterName;
+  status: 'completed' | 'failed' | 'cancelled';
+  /** Built from the target's stream: last assistant message, last usage event, thread id. */
+  result?: RunResult;
+  error?: CoderError;
+  usage?: UsageStats;
+  durationMs: number;
+  workingDirectory?: string;
+}
+
+/**
+ * Handle to a fan-out run. Iterate it for the merged event stream; `results` settles once
+ * every target finished, whether or not the events were consumed.
+ */
+export interface FanOutRun extends AsyncIterable<FanOutEvent> {
+  results: Promise<FanOutResult[]>;
+  interrupt(reason?: string): Promise<void>;
+}
+
+const DONE = Symbol('fan-out-done');
+
+/**
+ * Runs `input` on every target concurrently through `createCoder`, so registered
+ * middleware, retries and pricing apply per target.
+ */
+export function fanOut(input: PromptInput, options: FanOutOptions): FanOutRun {
+  const targets = labelTargets(options.targets);
+  const threads = new Map<string, ThreadHandle>();
+  const queue: Array<FanOutEvent | typeof DONE> = [];
+  const waiters: Array<(entry: FanOutEvent | typeof DONE) => void> = [];
+  let stopReason: string | undefined;
+
+  const push = (entry: FanOutEvent | typeof DONE) => {
+    if (waiters.length) {
+      waiters.shift()!(entry);
+    } else {
+      queue.push(entry);
+    }
+  };
+
+  const stop = async (reason: string, except?: string) => {
+    stopReason ??= reason;
+    await Promise.all(
+      [...threads].filter(([source]) => source !== except).map(([, thread]) => thread.interrupt?.(reason)),
+    );
+  };
+
+  const runTarget = async (target: LabelledTarget): Promise<FanOutResult> => {
+    const startedAt = Date.now();
+    const base: Pick<FanOutResult, 'source' | 'provider'> = { source: target.label, provider: target.provider };
+    let workingDirectory: string | undefined;
+    const events: CoderStreamEvent[] = [];
+    let thread: ThreadHandle | undefined;
+    try {
+      const startOpts = { ...options.defaults, ...target.defaults };
+      if (options.isolate !== false) {
+        workingDirectory = await copyWorkingDirectory(startOpts.workingDirectory ?? process.cwd(), target.label);
+        startOpts.workingDirectory = workingDirectory;
+      }
+      thread = await createCoder(target.provider, startOpts, options.coderOptions).startThread();
+      if (stopReason) {
+        return { ...base, status: 'cancelled', durationMs: Date.now() - startedAt, workingDirectory };
+      }
+      threads.set(target.label, thread);
+      for await (const event of thread.runStreamed(input, options.runOpts)) {
+        events.push(event);
+        push({ ...event, source: target.label });
+      }
+      const outcome = summarize(thread, events);
+      if (outcome.status === 'completed' && options.mode === 'first') {
+        void stop(`${target.label} finished first`, target.label);
+      }
+      return { ...base, ...outcome, durationMs: Date.now() - startedAt, workingDirectory };
+    } catch (error) {
+      const coderError = toCoderError(error, target.provider);
+      const status = coderError.code === 'interrupted' ? 'cancelled' : 'failed';
+      return { ...base, status, error: coderError, durationMs: Date.now() - startedAt, workingDirectory };
+    } finally {
+      await closeTarget(thread);
+    }
+  };
+
+  const results = Promise.all(targets.map(runTarget)).finally(() => push(DONE));
+
+  return {
+    results,
+    interrupt: reason => stop(reason ?? 'Interrupted'),
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        const entry = queue.length
+          ? queue.shift()!
+          : await new Promise<FanOutEvent | typeof DONE>(resolve => waiters.push(resolve));
+        if (entry === DONE) return;
+        yield entry;
+      }
+    },
+  };
+}
+
+type LabelledTarget = { provider: AdapterName; defaults?: StartOpts; label: string };
+
+function labelTargets(targets: FanOutTarget[]): LabelledTarget[] {
+  const seen = new Map<string, number>();
+  return targets.map(target => {
+    const entry = typeof target === 'string' ? { provider: target } : target;
+    const wanted = entry.label ?? entry.provider;
+    const count = seen.get(wanted) ?? 0;
+    seen.set(wanted, count + 1);
+    return { ...entry, label: count ? `${wanted}-${count + 1}` : wanted };
+  });
+}
+
+async function copyWorkingDirectory(source: string, label: string): Promise<string> {
+  const target = await mkdtemp(path.join(os.tmpdir(), `headless-coder-fanout-${label.replace(/[^\w-]/g, '_')}-`));
+  await cp(source, target, { recursive: true, filter: file => path.basename(file) !== 'node_modules' });
+  return target;
+}
+
+function summarize(
+  thread: ThreadHandle,
+  events: CoderStreamEvent[],
+): Pick<FanOutResult, 'status' | 'result' | 'error' | 'usage'> {
+  let text: string | undefined;
+  let deltas = '';
+  let usage: UsageStats | undefined;
+  let error: CoderError | undefined;
+  let cancelled = false;
+  for (const event of events) {
+    if (event.type === 'message' && event.role === 'assistant' && event.text) {
+      if (event.delta) deltas += event.text;
+      else text = event.text;
+    } else if (event.type === 'usage' && event.stats) {
+      usage = event.stats;
+    } else if (event.type === 'error') {
+      error = toCoderError(Object.assign(new Error(event.message), { code: event.code }), thread.provider);
+    } else if (event.type === 'cancelled') {
+      cancelled = true;
+    }
+  }
+  if (error) return { status: error.code === 'interrupted' ? 'cancelled' : 'failed', error, usage };
+  if (cancelled) return { status: 'cancelled', usage };
+  const result: RunResult = { threadId: thread.id, text: text ?? (deltas || undefined), usage, raw: events };
+  return { status: 'completed', result, usage };
+}
+
+/**
+ * Closes a target thread once its run settled. A failing close does not change the result.
+ */
+async function closeTarget(thread: ThreadHandle | undefined): Promise<void> {
+  try {
+    await thread?.close?.();
+  } catch {
+    // The run's outcome is already recorded.
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Thin wrapper around the git CLI used by workspace isolation and change tracking.
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { BinaryNotFoundError } from './errors.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs git and returns its stdout.
+ *
+ * @throws BinaryNotFoundError when git is not installed, or an Error carrying git's stderr.
+ */
+export async function git(args: string[], cwd: string, env?: NodeJS.ProcessEnv): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, env, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new BinaryNotFoundError('git is required for workspace isolation and change tracking but was not found.', {
+        cause: error,
+      });
+    }
+    const stderr = String((error as { stderr?: unknown }).stderr ?? '').trim();
+    throw new Error(`git ${args[0]} failed in ${cwd}${stderr ? `: ${stderr}` : ''}`, { cause: error });
+  }
+}
@@ -9,4 +9,86 @@ export {
   clearRegisteredAdapters,
   getAdapterFactory,
   createCoder,
+  registerMiddleware,
+  unregisterMiddleware,
+  clearMiddleware,
 } from './factory.js';
+export { applyMiddleware, wrapThreadHandle } from './middleware.js';
+export { openCassette, readCassette, recordEvents, replayEvents } from './cassette.js';
+export type { CassetteSession } from './cassette.js';
+export { runAdapterConformance, assertAdapterConformance } from './conformance.js';
+export type { ConformanceOptions, ConformanceCheckResult, ConformanceReport } from './conformance.js';
+export { assertValidJsonSchema, validateJsonSchema } from './schema.js';
+export {
+  StructuredOutputError,
+  validateStructuredOutput,
+  runWithStructuredOutput,
+  applyStructuredOutput,
+  buildRepairPrompt,
+  defineOutputSchema,
+  isOutputSchema,
+  resolveOutputSchema,
+  normalizeRunOpts,
+} from './structured-output.js';
+export { MemoryThreadStore, FileThreadStore, applyThreadStore } from './thread-store.js';
+export { TranscriptRecorder, exportTranscript } from './transcript.js';
+export type { Transcript, TranscriptEntry, TranscriptFormat, TranscriptRecorderOptions } from './transcript.js';
+export {
+  registerPrices,
+  clearPrices,
+  createUsageStats,
+  computeCost,
+  addUsage,
+  getThreadUsage,
+  applyUsageAccounting,
+} from './usage.js';
+export { BudgetExceededError, createBudgetMonitor, createBudgetExceededEvent } from './budget.js';
+export type { BudgetMonitor } from './budget.js';
+export { applyRetry, isTransientError, computeRetryDelay } from './retry.js';
+export { createFallbackCoder, getChainThread } from './fallback.js';
+export type { FallbackLink } from './fallback.js';
+export { fanOut } from './fanout.js';
+export type { FanOutTarget, FanOutOptions, FanOutEvent, FanOutResult, FanOutRun } from './fanout.js';
+export { applyWorkspaceIsolation, getWorkspace } from './workspace.js';
+export type { Workspace } from './workspace.js';
+export { createChangeTracker, getChangeTracker, applyChangeTracking } from './changes.js';
+export type { ChangeTracker } from './changes.js';
+export { applyCheckpoints, getCheckpoints } from './checkpoints.js';
+export { requestPermission, createPermissionEvent, describeDenial } from './permissions.js';
+export type { ResolvedPermission } from './permissions.js';
+export { applyToolPolicy, checkToolPolicy, inferToolActions, matchesGlob } from './policy.js';
+export type { ToolAction, ToolClassifier } from './policy.js';
+export { validateMcpServers, isMcpStdioServer } from './mcp.js';
+export type { McpTransport } from './mcp.js';
+export {
+  toContentParts,
+  hasAttachments,
+  renderContentText,
+  splitSystemMessages,
+  joinInstructions,
+  describeAttachment,
+  imageMediaType,
+  readImagePart,
+  stageAttachments,
+} from './prompt.js';
+export type { PromptImagePart } from './prompt.js';
+export { StreamAccumulator, accumulateStream } from './accumulator.js';
+export { ToolCallRegistry, applyToolCallTracking, toolCallStatus } from './tool-calls.js';
+export type { RunView, ToolCallView } from './accumulator.js';
+export {
+  CoderError,
+  InterruptedError,
+  AuthError,
+  RateLimitError,
+  QuotaError,
+  BinaryNotFoundError,
+  InvalidOutputError,
+  ProviderCrashError,
+  TimeoutError,
+  isCoderError,
+  isCoderErrorCode,
+  createCoderError,
+  classifyError,
+  toCoderError,
+} from './errors.js';
+export type { CoderErrorOptions } from './errors.js';
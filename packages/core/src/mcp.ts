@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Validation of provider-neutral MCP server definitions (`StartOpts.mcpServers`)
+ * before adapters translate them into provider configuration.
+ */
+
+import type { AdapterName, McpServerConfig, McpStdioServerConfig } from './types.js';
+
+/**
+ * Transport of an MCP server; `stdio` when `type` is omitted.
+ */
+export type McpTransport = 'stdio' | 'http' | 'sse';
+
+const SERVER_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Tells stdio servers (`type` omitted or `stdio`) from remote ones.
+ */
+export function isMcpStdioServer(server: McpServerConfig): server is McpStdioServerConfig {
+  return server.type === undefined || server.type === 'stdio';
+}
+
+/**
+ * Checks `servers` and throws one error listing every problem, so misconfigured servers
+ * fail when the thread starts rather than when the provider tries to launch them.
+ * `transports` restricts the transports the provider supports.
+ */
+export function validateMcpServers(
+  servers: Record<string, McpServerConfig> | undefined,
+  provider: AdapterName,
+  transports: McpTransport[] = ['stdio', 'http', 'sse'],
+): void {
+  if (servers === undefined) return;
+  const problems: string[] = [];
+  if (!isRecord(servers)) {
+    problems.push('mcpServers must be an object keyed by server name');
+  } else {
+    for (const [name, server] of Object.entries(servers)) {
+      problems.push(...describeProblems(name, server, transports).map(problem => `${name}: ${problem}`));
+    }
+  }
+  if (problems.length) {
+    throw new Error(`Invalid mcpServers for ${provider}:\n- ${problems.join('\n- ')}`);
+  }
+}
+
+function describeProblems(name: string, server: unknown, transports: McpTransport[]): string[] {
+  const problems: string[] = [];
+  if (!SERVER_NAME.test(name)) problems.push('server names may only contain letters, digits, `_` and `-`');
+  if (!isRecord(server)) return [...problems, 'expected an object'];
+  const transport = server.type ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http' && transport !== 'sse') {
+    return [...problems, `unknown type "${String(transport)}" (expected stdio, http or sse)`];
+  }
+  if (!transports.includes(transport)) {
+    problems.push(`${transport} servers are not supported (supported: ${transports.join(', ')})`);
+  }
+  if (transport === 'stdio') {
+    if (typeof server.command !== 'string' || !server.command.trim()) problems.push('`command` is required');
+    if (server.args !== undefined && !isStringArray(server.args)) problems.push('`args` must be an array of strings');
+    if (server.env !== undefined && !isStringRecord(server.env)) problems.push('`env` must map names to strings');
+  } else {
+    if (!isHttpUrl(server.url)) problems.push('`url` must be an http(s) URL');
+    if (server.headers !== undefined && !isStringRecord(server.headers)) {
+      problems.push('`headers` must map names to strings');
+    }
+  }
+  return problems;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+function isStringRecord(value: unknown): boolean {
+  return isRecord(value) && Object.values(value).every(entry => typeof entry === 'string');
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Middleware pipeline that wraps thread handles so cross-cutting
+ * behaviour (logging, redaction, metrics, templating) works across every adapter.
+ */
+
+import type {
+  CoderMiddleware,
+  CoderStreamEvent,
+  EventIterator,
+  HeadlessCoder,
+  MiddlewareContext,
+  MiddlewareRequest,
+  PromptInput,
+  RunOpts,
+  RunResult,
+  ThreadHandle,
+} from './types.js';
+
+const appliedMiddleware = new WeakMap<ThreadHandle, Set<CoderMiddleware>>();
+
+/**
+ * Returns a coder whose thread handles run through the supplied middleware chain.
+ *
+ * Handles are decorated in place, so adapter-managed fields such as `handle.id`
+ * keep updating as usual. With an empty chain the coder is returned unchanged.
+ */
+export function applyMiddleware(coder: HeadlessCoder, middleware: readonly CoderMiddleware[]): HeadlessCoder {
+  if (!middleware.length) return coder;
+  const chain = [...middleware];
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => wrapThreadHandle(await coder.startThread(opts), chain),
+    resumeThread: async (threadId, opts) => wrapThreadHandle(await coder.resumeThread(threadId, opts), chain),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+/**
+ * Decorates a single thread handle with the middleware chain.
+ *
+ * Wrapping a handle again composes the chains: the new chain runs outside the previous
+ * one. Middleware already applied to the handle is skipped, so the same layer never runs
+ * twice for one run.
+ */
+export function wrapThreadHandle(handle: ThreadHandle, chain: readonly CoderMiddleware[]): ThreadHandle {
+  const applied = appliedMiddleware.get(handle) ?? new Set<CoderMiddleware>();
+  const middleware = chain.filter(layer => !applied.has(layer));
+  if (!middleware.length) return handle;
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+
+  handle.run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    const ctx = await prepareRun(handle, 'run', { input, opts }, middleware);
+    let result: RunResult;
+    try {
+      result = await run(ctx.request.input, ctx.request.opts);
+    } catch (error) {
+      await notifyError(error, ctx, middleware);
+      throw error;
+    }
+    for (const layer of middleware) {
+      if (!layer.transformResult) continue;
+      const next = await layer.transformResult(result, ctx);
+      if (next !== undefined) result = next;
+    }
+    return result;
+  };
+
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts): EventIterator => ({
+    async *[Symbol.asyncIterator]() {
+      const ctx = await prepareRun(handle, 'runStreamed', { input, opts }, middleware);
+      try {
+        for await (const event of runStreamed(ctx.request.input, ctx.request.opts)) {
+          yield* transformEvent(event, ctx, middleware);
+        }
+      } catch (error) {
+        await notifyError(error, ctx, middleware);
+        throw error;
+      }
+    },
+  });
+
+  middleware.forEach(layer => applied.add(layer));
+  appliedMiddleware.set(handle, applied);
+  return handle;
+}
+
+async function prepareRun(
+  thread: ThreadHandle,
+  mode: MiddlewareContext['mode'],
+  request: MiddlewareRequest,
+  middleware: readonly CoderMiddleware[],
+): Promise<MiddlewareContext> {
+  const ctx: MiddlewareContext = { provider: thread.provider, thread, mode, request, state: {} };
+  for (const layer of middleware) {
+    if (!layer.prepare) continue;
+    const next = await layer.prepare(ctx.request, ctx);
+    if (next !== undefined) ctx.request = next;
+  }
+  return ctx;
+}
+
+async function notifyError(
+  error: unknown,
+  ctx: MiddlewareContext,
+  middleware: readonly CoderMiddleware[],
+): Promise<void> {
+  for (const layer of middleware) {
+    await layer.onError?.(error, ctx);
+  }
+}
+
+function transformEvent(
+  event: CoderStreamEvent,
+  ctx: MiddlewareContext,
+  middleware: readonly CoderMiddleware[],
+): CoderStreamEvent[] {
+  let events = [event];
+  for (const layer of middleware) {
+    if (!layer.transformEvent) continue;
+    const next: CoderStreamEvent[] = [];
+    for (const current of events) {
+      const output = layer.transformEvent(current, ctx);
+      if (output === undefined) {
+        next.push(current);
+      } else if (output !== null) {
+        next.push(...(Array.isArray(output) ? output : [output]));
+      }
+    }
+    events = next;
+  }
+  return events;
+}
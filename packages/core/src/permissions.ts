@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tool approvals: helpers adapters use to consult `StartOpts.onPermissionRequest`
+ * and report its decision as a `permission` event.
+ */
+
+import { now } from './types.js';
+import type { CoderStreamEvent, PermissionHandler, PermissionRequest } from './types.js';
+
+/**
+ * Decision of a permission handler with the string shorthands expanded.
+ */
+export interface ResolvedPermission {
+  allow: boolean;
+  modifiedArgs?: Record<string, unknown>;
+  message?: string;
+}
+
+/**
+ * Asks `handler` about a tool call. A handler that throws denies the call, so a broken
+ * callback never lets a tool run unchecked.
+ */
+export async function requestPermission(
+  handler: PermissionHandler,
+  request: PermissionRequest,
+): Promise<ResolvedPermission> {
+  try {
+    const decision = await handler(request);
+    if (decision === 'allow' || decision === 'deny') return { allow: decision === 'allow' };
+    return { allow: Boolean(decision?.allow), modifiedArgs: decision?.modifiedArgs, message: decision?.message };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { allow: false, message: `onPermissionRequest failed: ${reason}` };
+  }
+}
+
+/**
+ * Builds the `permission` event reporting a decision; `request` is the `PermissionRequest`.
+ */
+export function createPermissionEvent(request: PermissionRequest, permission: ResolvedPermission): CoderStreamEvent {
+  return {
+    type: 'permission',
+    provider: request.provider,
+    request,
+    decision: permission.allow ? 'granted' : 'denied',
+    reason: permission.allow ? undefined : permission.message,
+    ts: now(),
+    originalItem: { ...permission },
+  };
+}
+
+/**
+ * Message used when a run is stopped because a tool call was denied.
+ */
+export function describeDenial(request: PermissionRequest, permission: ResolvedPermission): string {
+  return `Permission denied for ${request.tool}${permission.message ? `: ${permission.message}` : ''}`;
+}
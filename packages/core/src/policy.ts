@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Declarative tool policies: allow/deny globs for shell commands, file paths,
+ * network access and MCP tools, checked against what a tool call is about to do.
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import type { PermissionHandler, PermissionRequest, PolicyRules, ToolPolicy } from './types.js';
+
+/**
+ * Effect of a tool call that a `ToolPolicy` can rule on.
+ */
+export type ToolAction =
+  | { kind: 'command'; command: string }
+  | { kind: 'read'; path: string }
+  | { kind: 'write'; path: string }
+  | { kind: 'network'; target?: string }
+  | { kind: 'mcp'; tool: string };
+
+/**
+ * Maps a permission request to the actions it would perform.
+ */
+export type ToolClassifier = (request: PermissionRequest) => ToolAction[];
+
+const COMMAND_SEPARATOR = /\s*(?:&&|\|\||;|\||&|\n)\s*/;
+const FD_DUPLICATION = /\d*[<>]&(?:\d+|-)/g;
+const FILE_REDIRECTION = /(?:&|\d*)(>>|>\||>|<)\s*("[^"]*"|'[^']*'|[^\s;&|<>()]+)/g;
+const DEVICE_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/stdin']);
+const UNCHECKABLE_SHELL: Array<[RegExp, string]> = [
+  [/\$\(|`/, 'command substitution'],
+  [/[<>]\(/, 'process substitution'],
+  [/<</, 'a here-document'],
+];
+const WRITE_TOOL = /write|edit|replace|create|delete|remove|move|patch/i;
+const NETWORK_TOOL = /web|fetch|search|browse|http/i;
+
+/**
+ * Returns why `actions` break `policy`, or `undefined` when they are all allowed. Relative
+ * paths, and relative path globs, are resolved against `cwd`.
+ */
+export function checkToolPolicy(policy: ToolPolicy, actions: ToolAction[], cwd = process.cwd()): string | undefined {
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'command': {
+        const violation = checkCommand(policy, action.command, cwd);
+        if (violation) return violation;
+        break;
+      }
+      case 'read':
+      case 'write': {
+        const absolute = path.resolve(cwd, action.path);
+        const rule = violatedRule(policy[action.kind], pattern => matchesPath(pattern, absolute, cwd));
+        if (rule) return `${action.kind} of ${action.path} ${rule}`;
+        break;
+      }
+      case 'network':
+        if (policy.network === false) return `network access to ${action.target ?? 'the web'} is disabled by policy`;
+        break;
+      case 'mcp': {
+        const rule = violatedRule(policy.mcpTools, pattern => matchesGlob(pattern, action.tool, true));
+        if (rule) return `MCP tool ${action.tool} ${rule}`;
+        break;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns a permission handler that denies calls breaking `policy` (with the violation as
+ * message) and passes the others on to `handler`, or allows them when there is none.
+ * Without a policy, `handler` is returned unchanged.
+ */
+export function applyToolPolicy(
+  handler: PermissionHandler | undefined,
+  policy: ToolPolicy | undefined,
+  cwd?: string,
+  classify: ToolClassifier = inferToolActions,
+): PermissionHandler | undefined {
+  if (!policy) return handler;
+  return request => {
+    const violation = checkToolPolicy(policy, classify(request), cwd);
+    if (violation) return { allow: false, message: violation };
+    return handler ? handler(request) : 'allow';
+  };
+}
+
+/**
+ * Best-effort classifier for adapters without a provider-specific one: reads commands,
+ * paths and URLs from common argument names and guesses writes from the tool name.
+ */
+export function inferToolActions(request: PermissionRequest): ToolAction[] {
+  const args = request.args ?? {};
+  const actions: ToolAction[] = [];
+  const command = args.command ?? args.cmd;
+  if (typeof command === 'string') actions.push({ kind: 'command', command });
+  const file = args.file_path ?? args.absolute_path ?? args.notebook_path ?? args.path;
+  if (typeof file === 'string') {
+    actions.push({ kind: WRITE_TOOL.test(request.tool) ? 'write' : 'read', path: file });
+  }
+  const url = args.url ?? args.query;
+  if (typeof url === 'string' && NETWORK_TOOL.test(request.tool)) actions.push({ kind: 'network', target: url });
+  return actions;
+}
+
+/**
+ * Matches `value` against a glob. `**` matches anything, `?` one character, and `*` any
+ * run of characters that (for path globs) does not cross a `/`.
+ */
+export function matchesGlob(pattern: string, value: string, pathGlob: boolean): boolean {
+  let source = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      source += pattern[index + 2] === '/' ? '(?:.*/)?' : '.*';
+      index += pattern[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += pathGlob ? '[^/]*' : '.*';
+    } else if (char === '?') {
+      source += pathGlob ? '[^/]' : '.';
+    } else {
+      source += char.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+/**
+ * Checks each segment of a shell command against the command rules, and its file
+ * redirections as reads and writes. Substitutions and here-documents hide commands and
+ * paths from the check, so they are refused whenever the policy rules on any of them.
+ */
+function checkCommand(policy: ToolPolicy, command: string, cwd: string): string | undefined {
+  if (policy.commands || policy.read || policy.write) {
+    const construct = UNCHECKABLE_SHELL.find(([pattern]) => pattern.test(command))?.[1];
+    if (construct) return `command "${command}" uses ${construct}, which policies cannot check`;
+  }
+  const redirections: ToolAction[] = [];
+  const stripped = command
+    .replace(FD_DUPLICATION, ' ')
+    .replace(FILE_REDIRECTION, (_match, operator: string, target: string) => {
+      const file = target.replace(/^(["'])(.*)\1$/s, '$2').replace(/^~(?=\/|$)/, os.homedir());
+      if (!DEVICE_TARGETS.has(file)) redirections.push({ kind: operator === '<' ? 'read' : 'write', path: file });
+      return ' ';
+    });
+  for (const segment of stripped.split(COMMAND_SEPARATOR).map(part => part.trim()).filter(Boolean)) {
+    const rule = violatedRule(policy.commands, pattern => matchesGlob(pattern, segment, false));
+    if (rule) return `command "${segment}" ${rule}`;
+  }
+  return checkToolPolicy(policy, redirections, cwd);
+}
+
+function matchesPath(pattern: string, absolute: string, cwd: string): boolean {
+  const target = path.isAbsolute(pattern) ? absolute : path.relative(path.resolve(cwd), absolute);
+  if (!path.isAbsolute(pattern) && (target === '..' || target.startsWith(`..${path.sep}`))) return false;
+  return matchesGlob(pattern, target.split(path.sep).join('/') || '.', true);
+}
+
+function violatedRule(rules: PolicyRules | undefined, matches: (pattern: string) => boolean): string | undefined {
+  const denied = rules?.deny?.find(matches);
+  if (denied) return `is denied by policy rule "${denied}"`;
+  if (rules?.allow && !rules.allow.some(matches)) return 'is not allowed by policy';
+  return undefined;
+}
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Helpers adapters use to hand prompts to providers: separating system
+ * messages, rendering attachments (`PromptContentPart`) as text, reading images and staging
+ * them as files.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { PromptContentPart, PromptInput, PromptMessage } from './types.js';
+
+/**
+ * Image part of a prompt, either a local file or base64 data.
+ */
+export type PromptImagePart = Extract<PromptContentPart, { type: 'image' }>;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Returns the content of a message as parts; string content becomes one text part.
+ */
+export function toContentParts(content: PromptMessage['content']): PromptContentPart[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Tells whether `input` carries images or files in addition to text.
+ */
+export function hasAttachments(input: PromptInput): boolean {
+  if (typeof input === 'string') return false;
+  return input.some(message => toContentParts(message.content).some(part => part.type !== 'text'));
+}
+
+/**
+ * Renders message content as text, one line per part. Attachments go through `describe`,
+ * which defaults to `describeAttachment`.
+ */
+export function renderContentText(
+  content: PromptMessage['content'],
+  describe: (part: Exclude<PromptContentPart, { type: 'text' }>) => string = describeAttachment,
+): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => (part.type === 'text' ? part.text : describe(part))).join('\n');
+}
+
+/**
+ * Separates system messages from the rest of a conversation so adapters can send them
+ * through the provider's system channel. `system` joins their text with blank lines and is
+ * `undefined` when there are none; input made only of system messages is left untouched.
+ */
+export function splitSystemMessages(input: PromptInput): { system?: string; input: PromptInput } {
+  if (typeof input === 'string') return { input };
+  const conversation = input.filter(message => message.role !== 'system');
+  if (conversation.length === input.length || !conversation.length) return { input };
+  const system = input
+    .filter(message => message.role === 'system')
+    .map(message => renderContentText(message.content))
+    .join('\n\n');
+  return { system, input: conversation };
+}
+
+/**
+ * Joins the non-empty pieces of a system prompt (e.g. `StartOpts.appendSystemPrompt` and
+ * the run's system messages) with blank lines, or returns `undefined` when there are none.
+ */
+export function joinInstructions(...pieces: Array<string | undefined>): string | undefined {
+  const present = pieces.filter((piece): piece is string => Boolean(piece?.trim()));
+  return present.length ? present.join('\n\n') : undefined;
+}
+
+/**
+ * Placeholder text for an attachment, for providers and logs that only take text.
+ */
+export function describeAttachment(part: Exclude<PromptContentPart, { type: 'text' }>): string {
+  if (part.type === 'file') return `[file: ${part.path}]`;
+  return 'path' in part ? `[image: ${part.path}]` : `[image: ${part.mediaType}]`;
+}
+
+/**
+ * Media type of an image file from its extension, or `undefined` for unsupported formats.
+ */
+export function imageMediaType(file: string): string | undefined {
+  return IMAGE_MEDIA_TYPES[path.extname(file).toLowerCase()];
+}
+
+/**
+ * Loads an image part as base64 data, reading local files relative to `cwd`.
+ *
+ * @throws Error when the file is not a PNG, JPEG, GIF or WebP image.
+ */
+export async function readImagePart(
+  part: PromptImagePart,
+  cwd = process.cwd(),
+): Promise<{ data: string; mediaType: string }> {
+  if (!('path' in part)) return { data: part.data, mediaType: part.mediaType };
+  const mediaType = imageMediaType(part.path);
+  if (!mediaType) {
+    throw new Error(`Unsupported image format for ${part.path} (expected png, jpeg, gif or webp).`);
+  }
+  return { data: (await readFile(path.resolve(cwd, part.path))).toString('base64'), mediaType };
+}
+
+/**
+ * Rewrites `input` so every attachment is an absolute local path: relative paths are
+ * resolved against `cwd` and base64 images are written to a temporary directory, which
+ * `cleanup` removes once the provider has read them.
+ */
+export function stageAttachments(
+  input: PromptInput,
+  cwd = process.cwd(),
+): { input: PromptInput; cleanup: () => void } {
+  if (!hasAttachments(input)) return { input, cleanup: () => {} };
+  let dir: string | undefined;
+  let count = 0;
+  const stage = (part: PromptContentPart): PromptContentPart => {
+    if (part.type === 'text') return part;
+    if ('path' in part) return { ...part, path: path.resolve(cwd, part.path) };
+    dir ??= mkdtempSync(path.join(os.tmpdir(), 'headless-coder-attachments-'));
+    count += 1;
+    const extension = Object.keys(IMAGE_MEDIA_TYPES).find(key => IMAGE_MEDIA_TYPES[key] === part.mediaType);
+    const file = path.join(dir, `image-${count}${extension ?? ''}`);
+    writeFileSync(file, Buffer.from(part.data, 'base64'));
+    return { type: 'image', path: file };
+  };
+  const staged = (input as PromptMessage[]).map(message =>
+    typeof message.content === 'string' ? message : { ...message, content: message.content.map(stage) },
+  );
+  return {
+    input: staged,
+    cleanup: () => {
+      if (dir) rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
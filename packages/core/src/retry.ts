@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Retry policy for transient provider failures, applied around thread runs.
+ */
+
+import { InterruptedError } from './errors.js';
+import { now } from './types.js';
+import type {
+  AdapterName,
+  CoderStreamEvent,
+  EventIterator,
+  HeadlessCoder,
+  PromptInput,
+  RetryPolicy,
+  RunOpts,
+  RunResult,
+  ThreadHandle,
+} from './types.js';
+
+type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'isRetryable'>> & Pick<RetryPolicy, 'isRetryable'>;
+
+const DEFAULT_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+const PERMANENT_CODES = new Set([
+  'interrupted',
+  'budget_exceeded',
+  'invalid_output',
+  'auth',
+  'quota',
+  'binary_not_found',
+]);
+const TRANSIENT_CODES = new Set(['rate_limited', 'timeout']);
+/** Events a retried stream would deliver twice; streams that yielded one are not retried. */
+const CONTENT_EVENTS = new Set<CoderStreamEvent['type']>([
+  'message',
+  'tool_use',
+  'tool_result',
+  'file_change',
+  'plan_update',
+  'permission',
+]);
+
+const TRANSIENT_PATTERN = new RegExp(
+  [
+    'rate[\\s_-]?limit',
+    'too many requests',
+    '\\b429\\b',
+    '\\b50[0234]\\b',
+    'overloaded',
+    'temporarily unavailable',
+    'service unavailable',
+    'ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN',
+    'socket hang up',
+    'stream disconnected',
+    'network error',
+  ].join('|'),
+  'i',
+);
+
+/**
+ * Default classifier: `rate_limited` and `timeout` errors, overloaded or unavailable
+ * services and network failures are transient; interrupts, budget stops, invalid output,
+ * auth, quota and missing binaries never are.
+ */
+export function isTransientError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  if (typeof code === 'string' && PERMANENT_CODES.has(code)) return false;
+  if (typeof code === 'string' && (TRANSIENT_CODES.has(code) || TRANSIENT_PATTERN.test(code))) return true;
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  return TRANSIENT_PATTERN.test(message);
+}
+
+/**
+ * Returns the backoff before retry number `attempt` (1 for the first retry).
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const { initialDelayMs, maxDelayMs, factor, jitter } = { ...DEFAULT_POLICY, ...policy };
+  const base = Math.min(maxDelayMs, initialDelayMs * factor ** (attempt - 1));
+  const spread = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
+
+/**
+ * Returns a coder whose runs are retried on transient failures.
+ *
+ * `RunOpts.retry` overrides `policy` per run. Retries reuse the same thread handle, so
+ * providers that resume sessions continue the same thread. Streams replace a retryable
+ * `error` event (or thrown error) with a `progress` event labelled `retry` and then
+ * replay the new attempt's events, but only while the failed attempt had not yet
+ * yielded content (messages, tool calls, file changes, plans or permissions).
+ */
+export function applyRetry(
+  coder: HeadlessCoder,
+  provider: AdapterName,
+  policy?: RetryPolicy,
+  classify: (error: unknown) => boolean = isTransientError,
+): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => retryThread(await coder.startThread(opts), provider, policy, classify),
+    resumeThread: async (threadId, opts) =>
+      retryThread(await coder.resumeThread(threadId, opts), provider, policy, classify),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+function retryThread(
+  handle: ThreadHandle,
+  provider: AdapterName,
+  policy: RetryPolicy | undefined,
+  classify: (error: unknown) => boolean,
+): ThreadHandle {
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+  const interrupt = handle.interrupt?.bind(handle);
+  let backoff: AbortController | undefined;
+
+  const resolve = (opts?: RunOpts): ResolvedRetryPolicy | undefined => {
+    const selected = opts?.retry === undefined ? policy : opts.retry;
+    return selected ? { ...DEFAULT_POLICY, ...selected } : undefined;
+  };
+
+  const shouldRetry = (active: ResolvedRetryPolicy, error: unknown, attempt: number) =>
+    attempt < active.maxAttempts && (active.isRetryable ? active.isRetryable(error, attempt) : classify(error));
+
+  const wait = async (delayMs: number, signal?: AbortSignal) => {
+    const controller = new AbortController();
+    backoff = controller;
+    const stopExternal = linkSignal(signal, controller);
+    try {
+      await sleep(delayMs, controller.signal);
+    } finally {
+      stopExternal();
+      backoff = undefined;
+    }
+  };
+
+  handle.run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    const active = resolve(opts);
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await run(input, opts);
+      } catch (error) {
+        if (!active || !shouldRetry(active, error, attempt)) throw error;
+        await wait(computeRetryDelay(active, attempt), opts?.signal);
+      }
+    }
+  };
+
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts): EventIterator => ({
+    async *[Symbol.asyncIterator]() {
+      const active = resolve(opts);
+      if (!active) {
+        yield* runStreamed(input, opts);
+        return;
+      }
+      for (let attempt = 1; ; attempt += 1) {
+        let failure: unknown;
+        let delivered = false;
+        try {
+          for await (const event of runStreamed(input, opts)) {
+            const error = event.type === 'error' ? toError(event) : undefined;
+            if (error && !delivered && shouldRetry(active, error, attempt)) {
+              failure = error;
+              break;
+            }
+            delivered ||= CONTENT_EVENTS.has(event.type);
+            yield event;
+          }
+        } catch (error) {
+          if (delivered || !shouldRetry(active, error, attempt)) throw error;
+          failure = error;
+        }
+        if (failure === undefined) return;
+        const delayMs = computeRetryDelay(active, attempt);
+        yield createRetryEvent(provider, attempt + 1, active.maxAttempts, delayMs, failure);
+        try {
+          await wait(delayMs, opts?.signal);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Interrupted';
+          yield { type: 'cancelled', provider, ts: now(), originalItem: { reason } };
+          yield { type: 'error', provider, code: 'interrupted', message: reason, ts: now(), originalItem: { reason } };
+          return;
+        }
+      }
+    },
+  });
+
+  if (interrupt) {
+    handle.interrupt = async reason => {
+      backoff?.abort(reason ?? 'Interrupted');
+      await interrupt(reason);
+    };
+  }
+
+  return handle;
+}
+
+function toError(event: Extract<CoderStreamEvent, { type: 'error' }>): Error {
+  return Object.assign(new Error(event.message), { code: event.code, event });
+}
+
+function createRetryEvent(
+  provider: AdapterName,
+  attempt: number,
+  maxAttempts: number,
+  delayMs: number,
+  error: unknown,
+): CoderStreamEvent {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    type: 'progress',
+    provider,
+    label: 'retry',
+    detail: `Attempt ${attempt}/${maxAttempts} in ${delayMs}ms after: ${message}`,
+    ts: now(),
+    originalItem: { attempt, maxAttempts, delayMs, error: message, code: (error as { code?: unknown })?.code },
+  };
+}
+
+/**
+ * Waits for `ms`, rejecting with an `InterruptedError` when the signal fires first.
+ */
+/**
+ * Aborts `controller` when `signal` aborts, by hand since `AbortSignal.any` needs Node 20.3.
+ * Returns a function that removes the listener.
+ */
+function linkSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const reason = signal.reason;
+      const message = typeof reason === 'string' ? reason : reason instanceof Error ? reason.message : undefined;
+      reject(new InterruptedError(message));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
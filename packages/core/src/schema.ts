@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Minimal JSON Schema validator used to check structured run output
+ * without pulling a runtime dependency into core.
+ */
+
+import { InvalidOutputError } from './errors.js';
+import type { SchemaValidationIssue } from './types.js';
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Validates a value against a JSON Schema and returns every violation found.
+ *
+ * Supports the keywords structured-output schemas rely on: `type`, `enum`, `const`,
+ * `properties`, `required`, `additionalProperties`, `items`, `minItems`/`maxItems`,
+ * `minLength`/`maxLength`, `pattern`, numeric bounds, `allOf`/`anyOf`/`oneOf`, `not`,
+ * and local `$ref`s (`#/definitions/...`, `#/$defs/...`). Unknown keywords are ignored.
+ *
+ * @throws InvalidOutputError when the schema itself is unusable (see `assertValidJsonSchema`).
+ */
+export function validateJsonSchema(schema: object, value: unknown): SchemaValidationIssue[] {
+  assertValidJsonSchema(schema);
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema as JsonSchema, value, '$', schema as JsonSchema, issues);
+  return issues;
+}
+
+/**
+ * Checks that a schema can be validated against: every `pattern` is a valid regular
+ * expression and every `$ref` is local and resolves.
+ *
+ * @throws InvalidOutputError naming the first problem and where it is in the schema.
+ */
+export function assertValidJsonSchema(schema: object): void {
+  checkSchemaNode(schema, '#', schema as JsonSchema, new Set());
+}
+
+function checkSchemaNode(schema: unknown, location: string, root: JsonSchema, seen: Set<object>): void {
+  if (!isPlainObject(schema) || seen.has(schema)) return;
+  seen.add(schema);
+  if (typeof schema.$ref === 'string') resolveRef(root, schema.$ref, location);
+  if (typeof schema.pattern === 'string') compilePattern(schema.pattern, location);
+  for (const keyword of ['items', 'additionalProperties', 'not']) {
+    checkSchemaNode(schema[keyword], `${location}/${keyword}`, root, seen);
+  }
+  for (const keyword of ['allOf', 'anyOf', 'oneOf']) {
+    const branches = schema[keyword];
+    if (!Array.isArray(branches)) continue;
+    branches.forEach((branch, index) => checkSchemaNode(branch, `${location}/${keyword}/${index}`, root, seen));
+  }
+  for (const keyword of ['properties', 'definitions', '$defs']) {
+    const children = schema[keyword];
+    if (!isPlainObject(children)) continue;
+    for (const [name, child] of Object.entries(children)) {
+      checkSchemaNode(child, `${location}/${keyword}/${name}`, root, seen);
+    }
+  }
+}
+
+function validateNode(
+  schema: JsonSchema | boolean | undefined,
+  value: unknown,
+  path: string,
+  root: JsonSchema,
+  issues: SchemaValidationIssue[],
+): void {
+  if (schema === undefined || schema === true) return;
+  if (schema === false) {
+    issues.push({ path, message: 'value is not allowed' });
+    return;
+  }
+  if (typeof schema.$ref === 'string') {
+    validateNode(resolveRef(root, schema.$ref), value, path, root, issues);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      issues.push({ path, message: `expected ${types.join(' | ')}, got ${describeType(value)}` });
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    const options = schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ');
+    issues.push({ path, message: `expected one of ${options}` });
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    issues.push({ path, message: `expected ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path, message: `expected at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path, message: `expected at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string' && !compilePattern(schema.pattern).test(value)) {
+      issues.push({ path, message: `expected to match /${schema.pattern}/` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path, message: `expected >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path, message: `expected <= ${schema.maximum}` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `expected > ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `expected < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path, message: `expected at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path, message: `expected at most ${schema.maxItems} items` });
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validateNode(schema.items, item, `${path}[${index}]`, root, issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!Object.hasOwn(value, key)) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (Object.hasOwn(properties, key)) {
+        validateNode(properties[key], child, joinPath(path, key), root, issues);
+      } else if (schema.additionalProperties !== undefined) {
+        validateNode(schema.additionalProperties, child, joinPath(path, key), root, issues);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf) {
+      validateNode(branch, value, path, root, issues);
+    }
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((branch: JsonSchema) => matches(branch, value, root))) {
+    issues.push({ path, message: 'does not match any allowed schema' });
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matched = schema.oneOf.filter((branch: JsonSchema) => matches(branch, value, root)).length;
+    if (matched !== 1) {
+      issues.push({ path, message: `expected exactly one matching schema, matched ${matched}` });
+    }
+  }
+  if (schema.not !== undefined && matches(schema.not, value, root)) {
+    issues.push({ path, message: 'matches a disallowed schema' });
+  }
+}
+
+function matches(schema: JsonSchema, value: unknown, root: JsonSchema): boolean {
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema, value, '$', root, issues);
+  return issues.length === 0;
+}
+
+function resolveRef(root: JsonSchema, ref: string, location?: string): JsonSchema | boolean {
+  if (!ref.startsWith('#')) {
+    throw schemaError(location, `only local $ref values are supported, got "${ref}"`);
+  }
+  let node: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    node = isPlainObject(node) && Object.hasOwn(node, key) ? node[key] : undefined;
+  }
+  if (!isPlainObject(node) && typeof node !== 'boolean') {
+    throw schemaError(location, `$ref "${ref}" does not resolve to a schema`);
+  }
+  return node;
+}
+
+function compilePattern(pattern: string, location?: string): RegExp {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw schemaError(location, `pattern is not a valid regular expression (${reason})`);
+  }
+}
+
+function schemaError(location: string | undefined, detail: string): InvalidOutputError {
+  return new InvalidOutputError(`Invalid output schema${location ? ` at ${location}` : ''}: ${detail}.`);
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => deepEqual((a as any)[key], (b as any)[key]));
+}
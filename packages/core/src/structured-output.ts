@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Provider-agnostic validation and repair of structured run output.
+ */
+
+import { InvalidOutputError } from './errors.js';
+import { assertValidJsonSchema, validateJsonSchema } from './schema.js';
+import { addUsage } from './usage.js';
+import type {
+  HeadlessCoder,
+  InferJsonSchema,
+  InferOutput,
+  OutputSchema,
+  PromptInput,
+  RunBudget,
+  RunOpts,
+  RunResult,
+  SchemaValidationIssue,
+  ThreadHandle,
+  TypedRunOpts,
+  UsageStats,
+} from './types.js';
+
+/**
+ * Raised when `RunResult.json` still violates `RunOpts.outputSchema` after every
+ * repair attempt and `structuredOutput.throwOnInvalid` is set.
+ */
+export class StructuredOutputError extends InvalidOutputError {
+  constructor(
+    readonly issues: SchemaValidationIssue[],
+    readonly result: RunResult,
+    readonly attempts: number,
+  ) {
+    const summary = issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+    super(`Structured output does not match the schema after ${attempts} attempt(s): ${summary}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Creates a typed output schema.
+ *
+ * Pass a literal JSON Schema to infer the payload type from it, or a JSON Schema plus a
+ * parser (a function or a Zod-like object with `parse`) to type the payload by the
+ * parser's return value.
+ */
+export function defineOutputSchema<const S extends object>(jsonSchema: S): OutputSchema<InferJsonSchema<S>>;
+export function defineOutputSchema<T>(
+  jsonSchema: object,
+  parser: ((value: unknown) => T) | { parse(value: unknown): T },
+): OutputSchema<T>;
+export function defineOutputSchema(
+  jsonSchema: object,
+  parser?: ((value: unknown) => unknown) | { parse(value: unknown): unknown },
+): OutputSchema<unknown> {
+  if (!parser) {
+    return { jsonSchema };
+  }
+  return {
+    jsonSchema,
+    parse: typeof parser === 'function' ? parser : value => parser.parse(value),
+  };
+}
+
+/**
+ * Returns true when the value was created by `defineOutputSchema`.
+ */
+export function isOutputSchema(value: unknown): value is OutputSchema<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as OutputSchema<unknown>).jsonSchema === 'object' &&
+    (value as OutputSchema<unknown>).jsonSchema !== null
+  );
+}
+
+/**
+ * Returns the plain JSON Schema that adapters send to the provider.
+ */
+export function resolveOutputSchema(schema: RunOpts['outputSchema']): object | undefined {
+  return isOutputSchema(schema) ? schema.jsonSchema : schema;
+}
+
+/**
+ * Returns run options whose `outputSchema` is a plain JSON Schema, ready for adapter plumbing.
+ */
+export function normalizeRunOpts(opts?: RunOpts): RunOpts | undefined {
+  if (!opts || !isOutputSchema(opts.outputSchema)) return opts;
+  return { ...opts, outputSchema: opts.outputSchema.jsonSchema };
+}
+
+/**
+ * Checks a run result's `json` against the schema.
+ *
+ * Returns an empty list when the payload conforms.
+ */
+export function validateStructuredOutput(schema: object, json: unknown): SchemaValidationIssue[] {
+  if (json === undefined) {
+    return [{ path: '$', message: 'no JSON payload was found in the response' }];
+  }
+  return validateJsonSchema(schema, json);
+}
+
+/**
+ * Runs a turn and validates its structured output, re-prompting the same thread
+ * with the validation errors until it conforms or the repair budget runs out.
+ *
+ * `createCoder` routes `ThreadHandle.run` through this helper (see `applyStructuredOutput`),
+ * so every provider gets the same behaviour. Runs without `outputSchema` pass straight through.
+ * The returned `usage` sums every attempt, and repair attempts only get the part of
+ * `RunOpts.budget` (tokens, cost, duration) that earlier attempts left.
+ *
+ * @throws InvalidOutputError before the first attempt when the schema itself is unusable.
+ * @throws StructuredOutputError when the output stays invalid and `throwOnInvalid` is set.
+ */
+export async function runWithStructuredOutput<S extends object = object>(
+  run: (input: PromptInput, opts?: RunOpts) => Promise<RunResult>,
+  input: PromptInput,
+  opts?: TypedRunOpts<S>,
+): Promise<RunResult<InferOutput<S>>> {
+  const typedSchema = isOutputSchema(opts?.outputSchema) ? opts.outputSchema : undefined;
+  const runOpts = normalizeRunOpts(opts);
+  const schema = runOpts?.outputSchema;
+  if (!runOpts || !schema) {
+    return (await run(input, runOpts)) as RunResult<InferOutput<S>>;
+  }
+  assertValidJsonSchema(schema);
+  const { structuredOutput, ...attemptOpts } = runOpts;
+  const check = (result: RunResult) => {
+    const issues = validateStructuredOutput(schema, result.json);
+    if (issues.length || !typedSchema?.parse) {
+      return { result, issues };
+    }
+    try {
+      return { result: { ...result, json: typedSchema.parse(result.json) }, issues };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { result, issues: [{ path: '$', message }] };
+    }
+  };
+
+  const startedAt = Date.now();
+  const maxRepairs = Math.max(0, structuredOutput?.maxRepairAttempts ?? 0);
+  let { result, issues } = check(await run(input, attemptOpts));
+  let usage = result.usage;
+  let attempts = 1;
+  while (issues.length && attempts <= maxRepairs) {
+    if (runOpts.signal?.aborted) break;
+    const budget = remainingBudget(runOpts.budget, usage, Date.now() - startedAt);
+    if (budget === null) break;
+    ({ result, issues } = check(await run(buildRepairPrompt(issues), { ...attemptOpts, budget })));
+    usage = usage && result.usage ? addUsage(usage, result.usage) : (usage ?? result.usage);
+    attempts += 1;
+  }
+  if (usage) {
+    result = { ...result, usage };
+  }
+  if (!issues.length) {
+    return result as RunResult<InferOutput<S>>;
+  }
+  if (structuredOutput?.throwOnInvalid) {
+    throw new StructuredOutputError(issues, result, attempts);
+  }
+  return { ...result, validationErrors: issues } as RunResult<InferOutput<S>>;
+}
+
+/**
+ * Returns a coder whose threads validate `run()` output against `RunOpts.outputSchema`
+ * and repair it (see `runWithStructuredOutput`). Streams pass through with their schema
+ * resolved to plain JSON Schema.
+ */
+export function applyStructuredOutput(coder: HeadlessCoder): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => validateOutput(await coder.startThread(opts)),
+    resumeThread: async (threadId, opts) => validateOutput(await coder.resumeThread(threadId, opts)),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+function validateOutput(handle: ThreadHandle): ThreadHandle {
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+  handle.run = (input: PromptInput, opts?: RunOpts): Promise<RunResult> => runWithStructuredOutput(run, input, opts);
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts) => runStreamed(input, normalizeRunOpts(opts));
+  return handle;
+}
+
+/**
+ * Returns what is left of a budget after earlier attempts, or `null` when a token, cost or
+ * duration limit is used up.
+ */
+function remainingBudget(
+  budget: RunBudget | undefined,
+  used: UsageStats | undefined,
+  elapsedMs: number,
+): RunBudget | null | undefined {
+  if (!budget) return undefined;
+  const left: RunBudget = { ...budget };
+  const tokens = used ? (used.totalTokens ?? (used.inputTokens ?? 0) + (used.outputTokens ?? 0)) : 0;
+  if (budget.maxTokens !== undefined) left.maxTokens = budget.maxTokens - tokens;
+  if (budget.maxCostUsd !== undefined) left.maxCostUsd = budget.maxCostUsd - (used?.costUsd ?? 0);
+  if (budget.maxDurationMs !== undefined) left.maxDurationMs = budget.maxDurationMs - elapsedMs;
+  const limits = [left.maxTokens, left.maxCostUsd, left.maxDurationMs];
+  return limits.some(limit => limit !== undefined && limit <= 0) ? null : left;
+}
+
+/**
+ * Builds the follow-up prompt that asks the model to fix its previous answer.
+ */
+export function buildRepairPrompt(issues: SchemaValidationIssue[]): string {
+  return [
+    'Your previous response did not match the required JSON schema:',
+    ...issues.map(issue => `- ${issue.path}: ${issue.message}`),
+    'Respond again with only the corrected JSON object that satisfies the schema.',
+  ].join('\n');
+}
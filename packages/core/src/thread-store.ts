@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Thread registry with pluggable storage so callers can resume threads
+ * by their own keys, across process restarts.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  AdapterName,
+  CoderStreamEvent,
+  HeadlessCoder,
+  PromptInput,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  ThreadRecord,
+  ThreadRunRecord,
+  ThreadStore,
+} from './types.js';
+
+/**
+ * Thread store that keeps records in process memory.
+ */
+export class MemoryThreadStore implements ThreadStore {
+  private readonly records = new Map<string, ThreadRecord>();
+
+  async get(key: string): Promise<ThreadRecord | undefined> {
+    const record = this.records.get(key);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async set(record: ThreadRecord): Promise<void> {
+    this.records.set(record.key, structuredClone(record));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async list(): Promise<ThreadRecord[]> {
+    return [...this.records.values()].map(record => structuredClone(record));
+  }
+}
+
+interface ThreadStoreFile {
+  version: 1;
+  threads: Record<string, ThreadRecord>;
+}
+
+/**
+ * Thread store persisted as a single JSON file.
+ *
+ * The file is re-read for every operation and replaced atomically on writes, so
+ * several processes sharing the file see each other's records. Writes from one
+ * process are serialised.
+ */
+export class FileThreadStore implements ThreadStore {
+  readonly filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async get(key: string): Promise<ThreadRecord | undefined> {
+    const file = await this.enqueue(() => this.load());
+    return file.threads[key];
+  }
+
+  async set(record: ThreadRecord): Promise<void> {
+    await this.enqueue(async () => {
+      const file = await this.load();
+      file.threads[record.key] = record;
+      await this.save(file);
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const file = await this.load();
+      if (!(key in file.threads)) return false;
+      delete file.threads[key];
+      await this.save(file);
+      return true;
+    });
+  }
+
+  async list(): Promise<ThreadRecord[]> {
+    const file = await this.enqueue(() => this.load());
+    return Object.values(file.threads);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<ThreadStoreFile> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, threads: {} };
+      }
+      throw error;
+    }
+    try {
+      const parsed = JSON.parse(contents) as ThreadStoreFile;
+      return { version: 1, threads: parsed.threads ?? {} };
+    } catch {
+      throw new Error(`Thread store ${this.filePath} is not valid JSON.`);
+    }
+  }
+
+  private async save(file: ThreadStoreFile): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Returns a coder that records every thread it starts or resumes in the store.
+ *
+ * `startThread` records the thread under `StartOpts.threadKey`, or under its thread id
+ * once the provider assigns one. `resumeThread(key)` looks the key up first and
+ * resumes the stored thread id with the stored `StartOpts`; unknown keys are treated
+ * as provider thread ids.
+ *
+ * @throws When a stored key belongs to a different provider.
+ */
+export function applyThreadStore(
+  coder: HeadlessCoder,
+  store: ThreadStore,
+  provider: AdapterName,
+  defaults?: StartOpts,
+): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    async startThread(opts) {
+      const startOpts = { ...defaults, ...opts };
+      const handle = await coder.startThread(opts);
+      return trackThread(handle, store, provider, opts?.threadKey, startOpts);
+    },
+    async resumeThread(key, opts) {
+      const record = await store.get(key);
+      if (!record) {
+        const handle = await coder.resumeThread(key, opts);
+        return trackThread(handle, store, provider, key, { ...defaults, ...opts });
+      }
+      if (record.provider !== provider) {
+        throw new Error(`Thread "${key}" belongs to provider "${record.provider}", not "${provider}".`);
+      }
+      const startOpts = { ...record.startOpts, ...opts };
+      const handle = record.threadId
+        ? await coder.resumeThread(record.threadId, startOpts)
+        : await coder.startThread(startOpts);
+      return trackThread(handle, store, provider, key, startOpts, record);
+    },
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+async function trackThread(
+  handle: ThreadHandle,
+  store: ThreadStore,
+  provider: AdapterName,
+  key: string | undefined,
+  startOpts: StartOpts,
+  existing?: ThreadRecord,
+): Promise<ThreadHandle> {
+  const createdAt = Date.now();
+  let record: ThreadRecord | undefined = existing;
+  const save = async (lastRun?: ThreadRunRecord) => {
+    const recordKey = record?.key ?? key ?? handle.id;
+    if (!recordKey) return;
+    record = {
+      key: recordKey,
+      provider,
+      threadId: handle.id ?? record?.threadId,
+      startOpts: toStoredStartOpts(startOpts),
+      createdAt: record?.createdAt ?? createdAt,
+      updatedAt: Date.now(),
+      lastRun: lastRun ?? record?.lastRun,
+      metadata: record?.metadata,
+    };
+    await store.set(record);
+  };
+  await save();
+
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+
+  handle.run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    const startedAt = Date.now();
+    try {
+      const result = await run(input, opts);
+      await save({ startedAt, finishedAt: Date.now(), status: 'completed', usage: result.usage });
+      return result;
+    } catch (error) {
+      const interrupted = (error as { code?: string })?.code === 'interrupted';
+      await save({
+        startedAt,
+        finishedAt: Date.now(),
+        status: interrupted ? 'cancelled' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts) => ({
+    async *[Symbol.asyncIterator]() {
+      const startedAt = Date.now();
+      const summary: ThreadRunRecord = { startedAt, status: 'cancelled' };
+      try {
+        for await (const event of runStreamed(input, opts)) {
+          summarizeEvent(summary, event);
+          yield event;
+        }
+      } catch (error) {
+        summary.status = 'failed';
+        summary.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        summary.finishedAt = Date.now();
+        await save(summary);
+      }
+    },
+  });
+
+  return handle;
+}
+
+function summarizeEvent(summary: ThreadRunRecord, event: CoderStreamEvent): void {
+  if (event.type === 'usage') {
+    summary.usage = event.stats;
+  } else if (event.type === 'done') {
+    summary.status = 'completed';
+  } else if (event.type === 'cancelled') {
+    summary.status = 'cancelled';
+  } else if (event.type === 'error') {
+    if (event.code === 'interrupted') {
+      summary.status = 'cancelled';
+    } else {
+      summary.status = 'failed';
+      summary.error = event.message;
+    }
+  }
+}
+
+/**
+ * Drops the routing key and anything that cannot round-trip through JSON (callbacks, signals).
+ */
+function toStoredStartOpts(opts: StartOpts): StartOpts {
+  const { threadKey: _threadKey, ...rest } = opts;
+  return JSON.parse(JSON.stringify(rest)) as StartOpts;
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Tool call bookkeeping: stable call ids for adapters and enrichment of
+ * `tool_result` events with the call they answer.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { CoderStreamEvent, HeadlessCoder, PromptInput, RunOpts, ThreadHandle } from './types.js';
+
+type ToolUseEvent = Extract<CoderStreamEvent, { type: 'tool_use' }>;
+type ToolResultEvent = Extract<CoderStreamEvent, { type: 'tool_result' }>;
+
+/**
+ * Tracks the open tool calls of one run.
+ *
+ * Adapters use it to guarantee a `callId` when the provider omits one, and to recover the
+ * call a result belongs to when the provider reports results without an id or tool name.
+ */
+export class ToolCallRegistry {
+  private readonly open = new Map<string, string>();
+
+  /**
+   * @param prefix Prefix of generated ids, e.g. the adapter name.
+   */
+  constructor(private readonly prefix: string) {}
+
+  /**
+   * Registers a started call and returns its id, generating one when `callId` is empty.
+   */
+  start(name: string, callId?: string | null): string {
+    const id = callId || this.generateId();
+    this.open.set(id, name);
+    return id;
+  }
+
+  /**
+   * Returns whether a call with this id was started and has no result yet.
+   */
+  has(callId: string): boolean {
+    return this.open.has(callId);
+  }
+
+  /**
+   * Closes the call a result belongs to: the one with `callId`, or else the oldest open call
+   * of the same tool (of any tool when `name` is empty). Results of unknown calls get a new
+   * id. The returned name is the one the call started with, when known.
+   */
+  finish(name?: string | null, callId?: string | null): { callId: string; name: string } {
+    let id = callId || undefined;
+    if (!id) {
+      for (const [candidate, tool] of this.open) {
+        if (!name || tool === name) {
+          id = candidate;
+          break;
+        }
+      }
+    }
+    id ??= this.generateId();
+    const started = this.open.get(id);
+    this.open.delete(id);
+    return { callId: id, name: started || name || 'tool' };
+  }
+
+  private generateId(): string {
+    return `${this.prefix}-${randomUUID()}`;
+  }
+}
+
+/**
+ * Normalised outcome of a tool result: `failed` when it carries an error or a non-zero
+ * exit code.
+ */
+export function toolCallStatus(event: ToolResultEvent): 'succeeded' | 'failed' {
+  if (event.error != null && event.error !== false) return 'failed';
+  return typeof event.exitCode === 'number' && event.exitCode !== 0 ? 'failed' : 'succeeded';
+}
+
+/**
+ * Returns a coder whose streamed `tool_use` events always carry a `callId` and whose
+ * `tool_result` events carry the originating call's name and args, its start and end
+ * timestamps, its duration and a normalised `status`.
+ */
+export function applyToolCallTracking(coder: HeadlessCoder): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => trackToolCalls(await coder.startThread(opts)),
+    resumeThread: async (threadId, opts) => trackToolCalls(await coder.resumeThread(threadId, opts)),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+function trackToolCalls(handle: ThreadHandle): ThreadHandle {
+  const runStreamed = handle.runStreamed.bind(handle);
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts) => ({
+    async *[Symbol.asyncIterator]() {
+      const registry = new ToolCallRegistry('tool');
+      const calls = new Map<string, ToolUseEvent>();
+      for await (const event of runStreamed(input, opts)) {
+        if (event.type === 'tool_use') {
+          const use = { ...event, callId: registry.start(event.name, event.callId) };
+          calls.set(use.callId, use);
+          yield use;
+        } else if (event.type === 'tool_result') {
+          yield enrichToolResult(event, registry.finish(event.name, event.callId), calls);
+        } else {
+          yield event;
+        }
+      }
+    },
+  });
+  return handle;
+}
+
+function enrichToolResult(
+  event: ToolResultEvent,
+  call: { callId: string; name: string },
+  calls: Map<string, ToolUseEvent>,
+): ToolResultEvent {
+  const use = calls.get(call.callId);
+  calls.delete(call.callId);
+  return {
+    ...event,
+    callId: call.callId,
+    name: call.name,
+    args: event.args ?? use?.args,
+    status: toolCallStatus(event),
+    startedAt: use?.ts,
+    endedAt: event.ts,
+    durationMs: use ? Math.max(0, event.ts - use.ts) : undefined,
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * @fileoverview Opt-in transcript recorder that captures every prompt, event, and
+ * result of a thread and exports it as JSONL, Markdown, or HTML.
+ */
+
+import { createFileChangeEvent } from './changes.js';
+import { getAdapterFactory } from './factory.js';
+import { getChainThread } from './fallback.js';
+import { renderContentText } from './prompt.js';
+import { resolveOutputSchema } from './structured-output.js';
+import type {
+  AdapterName,
+  CoderMiddleware,
+  CoderStreamEvent,
+  MiddlewareContext,
+  MiddlewareRequest,
+  PromptInput,
+  RunResult,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Single recorded step of a thread. `run` numbers the turn within the thread.
+ * `raw` entries keep the provider payload (`RunResult.raw`) of `run()` calls. `warning`
+ * entries flag `run()` calls whose events the adapter could not rebuild.
+ */
+export type TranscriptEntry =
+  | {
+      type: 'prompt';
+      run: number;
+      ts: number;
+      mode: MiddlewareContext['mode'];
+      input: PromptInput;
+      outputSchema?: object;
+    }
+  | { type: 'event'; run: number; ts: number; event: CoderStreamEvent }
+  | {
+      type: 'result';
+      run: number;
+      ts: number;
+      result: Pick<RunResult, 'threadId' | 'text' | 'json' | 'usage' | 'validationErrors'>;
+    }
+  | { type: 'raw'; run: number; ts: number; raw: unknown }
+  | { type: 'warning'; run: number; ts: number; message: string }
+  | { type: 'error'; run: number; ts: number; message: string; code?: string };
+
+/**
+ * Everything recorded for one thread handle.
+ */
+export interface Transcript {
+  provider: AdapterName;
+  threadId?: string;
+  startedAt: number;
+  entries: TranscriptEntry[];
+}
+
+export type TranscriptFormat = 'jsonl' | 'markdown' | 'html';
+
+/**
+ * Options for `TranscriptRecorder`.
+ */
+export interface TranscriptRecorderOptions {
+  /** Keep each event's raw provider payload (`originalItem`) and `run()`'s `RunResult.raw`. Defaults to false. */
+  includeOriginalItems?: boolean;
+}
+
+const RUN_KEY = 'transcript.run';
+const HTML_STYLE = [
+  'body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem}',
+  'pre{background:#f5f5f5;padding:.75rem;overflow:auto}',
+  'h3{font-size:1rem;margin-bottom:.25rem}',
+].join('');
+
+/**
+ * Middleware that records a transcript per thread handle.
+ *
+ * Add it to `createCoder(..., { middleware: [recorder] })` or `registerMiddleware`.
+ * Place it after redaction middleware so transcripts only contain redacted data.
+ * Streamed runs record every normalized event. `run()` records the events the adapter rebuilds
+ * from `RunResult.raw` (`AdapterFactory.normalizeRunResult`), a `file_change` event per file in
+ * `RunResult.changes` and the result. Those events never pass through other middleware's
+ * `transformEvent`, so redaction middleware must also redact `raw`. When the adapter cannot
+ * rebuild them, a `warning` entry marks the run as missing its events.
+ */
+export class TranscriptRecorder implements CoderMiddleware {
+  readonly name = 'transcript';
+  private readonly transcripts: Transcript[] = [];
+  private readonly byHandle = new WeakMap<ThreadHandle, Transcript>();
+
+  constructor(private readonly options: TranscriptRecorderOptions = {}) {}
+
+  prepare(request: MiddlewareRequest, ctx: MiddlewareContext): void {
+    const transcript = this.ensureTranscript(ctx.thread);
+    const run = transcript.entries.filter(entry => entry.type === 'prompt').length + 1;
+    ctx.state[RUN_KEY] = run;
+    transcript.entries.push({
+      type: 'prompt',
+      run,
+      ts: Date.now(),
+      mode: ctx.mode,
+      input: structuredClone(request.input),
+      outputSchema: resolveOutputSchema(request.opts?.outputSchema),
+    });
+  }
+
+  transformEvent(event: CoderStreamEvent, ctx: MiddlewareContext): void {
+    const transcript = this.ensureTranscript(ctx.thread);
+    const recorded = this.options.includeOriginalItems ? event : withoutOriginalItem(event);
+    transcript.entries.push({ type: 'event', run: runNumber(ctx), ts: event.ts, event: recorded });
+    if (event.type === 'init' && event.threadId) transcript.threadId = event.threadId;
+  }
+
+  transformResult(result: RunResult, ctx: MiddlewareContext): void {
+    const transcript = this.ensureTranscript(ctx.thread);
+    const run = runNumber(ctx);
+    const events = getAdapterFactory(ctx.provider)?.normalizeRunResult?.(result);
+    if (!events) {
+      transcript.entries.push({
+        type: 'warning',
+        run,
+        ts: Date.now(),
+        message: `The ${ctx.provider} adapter cannot rebuild the events of run(); tool calls are not recorded.`,
+      });
+    }
+    const changes = (result.changes?.files ?? []).map(change => createFileChangeEvent(ctx.thread, change));
+    for (const event of withFileChanges(events ?? [], changes)) {
+      this.transformEvent(event, ctx);
+    }
+    if (this.options.includeOriginalItems && result.raw !== undefined) {
+      transcript.entries.push({ type: 'raw', run, ts: Date.now(), raw: result.raw });
+    }
+    const { threadId, text, json, usage, validationErrors } = result;
+    transcript.entries.push({
+      type: 'result',
+      run,
+      ts: Date.now(),
+      result: { threadId, text, json, usage, validationErrors },
+    });
+    transcript.threadId = threadId ?? transcript.threadId;
+  }
+
+  onError(error: unknown, ctx: MiddlewareContext): void {
+    const transcript = this.ensureTranscript(ctx.thread);
+    transcript.entries.push({
+      type: 'error',
+      run: runNumber(ctx),
+      ts: Date.now(),
+      message: error instanceof Error ? error.message : String(error),
+      code: (error as { code?: string })?.code,
+    });
+  }
+
+  /**
+   * Returns the transcript recorded for a thread handle.
+   */
+  get(thread: ThreadHandle): Transcript | undefined {
+    const transcript = this.byHandle.get(thread);
+    if (transcript) transcript.threadId = thread.id ?? transcript.threadId;
+    return transcript;
+  }
+
+  /**
+   * Returns every transcript recorded so far, in the order threads first ran.
+   */
+  list(): Transcript[] {
+    return [...this.transcripts];
+  }
+
+  /**
+   * Drops all recorded transcripts.
+   */
+  clear(): void {
+    this.transcripts.length = 0;
+  }
+
+  private ensureTranscript(handle: ThreadHandle): Transcript {
+    // Runs of a fallback chain record into the chain thread's transcript, whichever provider serves them.
+    const thread = getChainThread(handle);
+    let transcript = this.byHandle.get(thread);
+    if (!transcript || !this.transcripts.includes(transcript)) {
+      transcript = { provider: thread.provider, threadId: thread.id, startedAt: Date.now(), entries: [] };
+      this.byHandle.set(thread, transcript);
+      this.transcripts.push(transcript);
+    }
+    if (thread.id) transcript.threadId = thread.id;
+    return transcript;
+  }
+}
+
+/**
+ * Serialises a transcript in the requested format.
+ */
+export function exportTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return toJsonl(transcript);
+    case 'markdown':
+      return toMarkdown(transcript);
+    case 'html':
+      return toHtml(transcript);
+    default:
+      throw new Error(`Unsupported transcript format "${format as string}".`);
+  }
+}
+
+function withoutOriginalItem(event: CoderStreamEvent): CoderStreamEvent {
+  const { originalItem: _originalItem, ...rest } = event;
+  return rest as CoderStreamEvent;
+}
+
+/**
+ * Places tracked file changes right before `done`, where change tracking yields them while streaming.
+ */
+function withFileChanges(events: CoderStreamEvent[], changes: CoderStreamEvent[]): CoderStreamEvent[] {
+  const done = events.findIndex(event => event.type === 'done');
+  if (done === -1) return [...events, ...changes];
+  return [...events.slice(0, done), ...changes, ...events.slice(done)];
+}
+
+function runNumber(ctx: MiddlewareContext): number {
+  return (ctx.state[RUN_KEY] as number | undefined) ?? 0;
+}
+
+function toJsonl(transcript: Transcript): string {
+  const { provider, threadId, startedAt } = transcript;
+  const header = { type: 'transcript', provider, threadId, startedAt };
+  return `${[header, ...transcript.entries].map(line => JSON.stringify(line)).join('\n')}\n`;
+}
+
+type Block =
+  | { kind: 'heading'; text: string }
+  | { kind: 'text'; label: string; text: string }
+  | { kind: 'code'; label: string; language: string; text: string }
+  | { kind: 'line'; label: string; text: string };
+
+/**
+ * Converts entries into presentation blocks shared by the Markdown and HTML exporters.
+ * Consecutive assistant deltas are merged into a single message.
+ */
+function toBlocks(transcript: Transcript): Block[] {
+  const blocks: Block[] = [];
+  let pendingDelta: { label: string; text: string } | undefined;
+  const flush = () => {
+    if (pendingDelta) blocks.push({ kind: 'text', ...pendingDelta });
+    pendingDelta = undefined;
+  };
+
+  for (const entry of transcript.entries) {
+    if (!(entry.type === 'event' && entry.event.type === 'message' && entry.event.delta)) flush();
+    switch (entry.type) {
+      case 'prompt': {
+        const startedAt = new Date(entry.ts).toISOString();
+        blocks.push({ kind: 'heading', text: `Run ${entry.run} · ${startedAt} · ${entry.mode}` });
+        blocks.push({ kind: 'text', label: 'Prompt', text: formatPrompt(entry.input) });
+        if (entry.outputSchema) {
+          blocks.push({ kind: 'code', label: 'Output schema', language: 'json', text: stringify(entry.outputSchema) });
+        }
+        break;
+      }
+      case 'result':
+        if (entry.result.text) blocks.push({ kind: 'text', label: 'Result', text: entry.result.text });
+        if (entry.result.json !== undefined) {
+          blocks.push({ kind: 'code', label: 'JSON', language: 'json', text: stringify(entry.result.json) });
+        }
+        if (entry.result.usage) blocks.push({ kind: 'line', label: 'Usage', text: formatUsage(entry.result.usage) });
+        break;
+      case 'error':
+        blocks.push({ kind: 'line', label: 'Error', text: formatError(entry.code, entry.message) });
+        break;
+      case 'warning':
+        blocks.push({ kind: 'line', label: 'Warning', text: entry.message });
+        break;
+      case 'raw':
+        break;
+      case 'event': {
+        const event = entry.event;
+        if (event.type === 'message' && event.delta) {
+          const label = capitalize(event.role);
+          if (pendingDelta && pendingDelta.label !== label) flush();
+          pendingDelta = { label, text: `${pendingDelta?.text ?? ''}${event.text ?? ''}` };
+          break;
+        }
+        blocks.push(...eventBlocks(event));
+        break;
+      }
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function eventBlocks(event: CoderStreamEvent): Block[] {
+  switch (event.type) {
+    case 'init': {
+      const details = [event.threadId, event.model].filter(Boolean).join(' · ');
+      return [{ kind: 'line', label: 'Session', text: details || 'started' }];
+    }
+    case 'message':
+      return event.text ? [{ kind: 'text', label: capitalize(event.role), text: event.text }] : [];
+    case 'tool_use':
+      return [
+        {
+          kind: 'code',
+          label: `Tool call ${event.name}${event.callId ? ` (${event.callId})` : ''}`,
+          language: 'json',
+          text: stringify(event.args ?? {}),
+        },
+      ];
+    case 'tool_result': {
+      const status = event.exitCode !== undefined && event.exitCode !== null ? ` · exit ${event.exitCode}` : '';
+      const body = event.error !== undefined ? event.error : event.result;
+      return [
+        {
+          kind: 'code',
+          label: `Tool result ${event.name}${event.callId ? ` (${event.callId})` : ''}${status}`,
+          language: 'text',
+          text: typeof body === 'string' ? body : stringify(body ?? ''),
+        },
+      ];
+    }
+    case 'file_change':
+      return [
+        { kind: 'line', label: 'File change', text: `${event.op ?? 'change'} ${event.path ?? '(unknown path)'}` },
+        ...(event.patch ? [{ kind: 'code' as const, label: 'Patch', language: 'diff', text: event.patch }] : []),
+      ];
+    case 'plan_update':
+      return event.text ? [{ kind: 'text', label: 'Plan', text: event.text }] : [];
+    case 'permission': {
+      const request = stringify(event.request ?? '');
+      const reason = event.reason ? ` (${event.reason})` : '';
+      return [{ kind: 'line', label: 'Permission', text: `${event.decision ?? 'requested'} ${request}${reason}` }];
+    }
+    case 'usage':
+      return [{ kind: 'line', label: 'Usage', text: formatUsage(event.stats) }];
+    case 'error':
+      return [{ kind: 'line', label: 'Error', text: formatError(event.code, event.message) }];
+    case 'cancelled':
+      return [{ kind: 'line', label: 'Status', text: 'cancelled' }];
+    case 'done':
+      return [{ kind: 'line', label: 'Status', text: 'done' }];
+    case 'progress':
+      return [];
+  }
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const lines = [`# Transcript: ${transcript.provider} thread ${transcript.threadId ?? '(unassigned)'}`, ''];
+  for (const block of toBlocks(transcript)) {
+    switch (block.kind) {
+      case 'heading':
+        lines.push(`## ${block.text}`, '');
+        break;
+      case 'text':
+        lines.push(`**${block.label}**`, '', block.text, '');
+        break;
+      case 'code': {
+        const fence = block.text.includes('```') ? '````' : '```';
+        lines.push(`**${block.label}**`, '', `${fence}${block.language}`, block.text, fence, '');
+        break;
+      }
+      case 'line':
+        lines.push(`- **${block.label}:** ${block.text}`, '');
+        break;
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function toHtml(transcript: Transcript): string {
+  const title = `Transcript: ${transcript.provider} thread ${transcript.threadId ?? '(unassigned)'}`;
+  const body = toBlocks(transcript)
+    .map(block => {
+      switch (block.kind) {
+        case 'heading':
+          return `<h2>${escapeHtml(block.text)}</h2>`;
+        case 'text': {
+          const text = escapeHtml(block.text).replace(/\n/g, '<br>');
+          return `<section><h3>${escapeHtml(block.label)}</h3><p>${text}</p></section>`;
+        }
+        case 'code': {
+          const code = `<code class="language-${block.language}">${escapeHtml(block.text)}</code>`;
+          return `<section><h3>${escapeHtml(block.label)}</h3><pre>${code}</pre></section>`;
+        }
+        case 'line':
+          return `<p><strong>${escapeHtml(block.label)}:</strong> ${escapeHtml(block.text)}</p>`;
+      }
+    })
+    .join('\n');
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function formatPrompt(input: PromptInput): string {
+  if (typeof input === 'string') return input;
+  return input.map(message => `[${message.role}] ${renderContentText(message.content)}`).join('\n\n');
+}
+
+function formatUsage(stats: unknown): string {
+  if (!stats || typeof stats !== 'object') return String(stats ?? 'n/a');
+  return Object.entries(stats as Record<string, unknown>)
+    .filter(([, value]) => typeof value === 'number' || typeof value === 'string')
+    .map(([key, value]) => `${key} ${value}`)
+    .join(' · ');
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? String(value);
+}
+
+function formatError(code: string | undefined, message: string): string {
+  return code ? `${code}: ${message}` : message;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
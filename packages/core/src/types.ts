@@ -17,12 +17,28 @@ export type AdapterName = Provider | (string & {});
  */
 export type CoderType = Provider;
 
+/**
+ * Part of a multimodal message: text, an image (a local file or base64 data) or a file the
+ * agent should read. Relative paths are resolved against the working directory.
+ */
+export type PromptContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; path: string }
+  | { type: 'image'; data: string; mediaType: string }
+  | { type: 'file'; path: string };
+
+/**
+ * Message of a conversation-style prompt.
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string | PromptContentPart[];
+}
+
 /**
  * Input accepted by coders when executing a run.
  */
-export type PromptInput =
-  | string
-  | Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+export type PromptInput = string | PromptMessage[];
 
 /**
  * Options for starting or resuming a thread across providers.
@@ -34,7 +50,12 @@ export interface StartOpts {
   skipGitRepoCheck?: boolean;
   codexExecutablePath?: string;
   allowedTools?: string[];
-  mcpServers?: Record<string, unknown>;
+  /** Replaces the provider's built-in system prompt for every run of the thread. */
+  systemPrompt?: string;
+  /** Appended to the system prompt (built-in or `systemPrompt`) for every run of the thread. */
+  appendSystemPrompt?: string;
+  /** MCP servers made available to the provider, keyed by server name (see `validateMcpServers`). */
+  mcpServers?: Record<string, McpServerConfig>;
   continue?: boolean;
   resume?: string;
   forkSession?: boolean;
@@ -43,39 +64,337 @@ export interface StartOpts {
   yolo?: boolean;
   permissionMode?: string;
   permissionPromptToolName?: string;
+  /**
+   * Decides tool calls the provider asks to approve. Each decision is reported as a
+   * `permission` event; see the README for how each provider honours it.
+   */
+  onPermissionRequest?: PermissionHandler;
+  /** Provider-neutral rules for commands, file access, network and MCP tools. */
+  policy?: ToolPolicy;
+  cassette?: CassetteOptions;
+  /** Key under which a `createCoder` thread store records the thread (defaults to the thread id). */
+  threadKey?: string;
+  /** Runs a `createCoder` thread in its own git worktree or directory copy (see `getWorkspace`). */
+  isolation?: boolean | WorkspaceIsolationOptions;
+}
+
+/**
+ * How a thread's isolated workspace is created and what happens to it on close.
+ */
+export interface WorkspaceIsolationOptions {
+  /** `auto` (default) uses a git worktree inside repositories and a temporary copy elsewhere. */
+  mode?: 'auto' | 'worktree' | 'copy';
+  /** Directory under which workspaces are created. Defaults to the OS temp directory. */
+  baseDir?: string;
+  /** Applied when the thread is closed. Defaults to `keep`. */
+  onClose?: 'keep' | 'merge' | 'discard';
+}
+
+/**
+ * Tool call a provider asks the caller to approve.
+ */
+export interface PermissionRequest {
+  provider: AdapterName;
+  /** Tool name as reported by the provider (e.g. `Bash`, `command_execution`). */
+  tool: string;
+  args?: Record<string, unknown>;
+  /** Provider identifier of the tool call, when it has one. */
+  callId?: string;
+  /** Why the provider asks, when it says. */
+  reason?: string;
+  originalItem?: any;
+}
+
+/**
+ * Answer to a `PermissionRequest`. `modifiedArgs` replaces the tool input where the
+ * provider supports it; `message` tells the model why a call was denied.
+ */
+export type PermissionDecision =
+  | 'allow'
+  | 'deny'
+  | { allow: boolean; modifiedArgs?: Record<string, unknown>; message?: string };
+
+/**
+ * Callback consulted for every tool call that needs approval.
+ */
+export type PermissionHandler = (request: PermissionRequest) => PermissionDecision | Promise<PermissionDecision>;
+
+/**
+ * MCP server started as a child process that speaks JSON-RPC over stdio.
+ */
+export interface McpStdioServerConfig {
+  type?: 'stdio';
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * MCP server reached over Streamable HTTP (`http`) or Server-Sent Events (`sse`).
+ */
+export interface McpRemoteServerConfig {
+  type: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider-neutral MCP server definition, translated by each adapter.
+ */
+export type McpServerConfig = McpStdioServerConfig | McpRemoteServerConfig;
+
+/**
+ * Allow and deny globs for one kind of tool action. Deny rules win; when `allow` is set,
+ * anything it does not match is denied.
+ */
+export interface PolicyRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * What tools may do, enforced by every adapter (see `StartOpts.policy`).
+ */
+export interface ToolPolicy {
+  /**
+   * Shell commands, checked per `&&`, `||`, `;`, `|` and `&` segment; `*` matches anything.
+   * File redirections are checked as reads and writes; substitutions and here-documents
+   * are denied.
+   */
+  commands?: PolicyRules;
+  /** Paths tools may read. Relative globs are resolved against the working directory. */
+  read?: PolicyRules;
+  /** Paths tools may create, modify or delete. */
+  write?: PolicyRules;
+  /** `false` blocks web fetches and searches. */
+  network?: boolean;
+  /** MCP tools, named `server/tool`. */
+  mcpTools?: PolicyRules;
+}
+
+/**
+ * Records raw provider events to a cassette file, or replays them instead of
+ * contacting the provider.
+ */
+export interface CassetteOptions {
+  mode: 'record' | 'replay';
+  path: string;
+}
+
+/**
+ * One recorded run inside a cassette file (stored as a JSONL line).
+ */
+export interface CassetteEntry {
+  provider: AdapterName;
+  threadId?: string;
+  /** Raw provider events, in the order the adapter received them. */
+  events: unknown[];
+  /** Provider payload that is not event-shaped (e.g. buffered CLI output). */
+  output?: unknown;
+  recordedAt: number;
 }
 
 /**
  * Run-time modifiers that tweak how execution is performed.
  */
 export interface RunOpts {
-  outputSchema?: object;
+  /** JSON Schema for structured output, or a typed schema created with `defineOutputSchema`. */
+  outputSchema?: object | OutputSchema<unknown>;
+  /** Validation and repair behaviour for `outputSchema` runs (non-streamed only). */
+  structuredOutput?: StructuredOutputOptions;
   streamPartialMessages?: boolean;
   extraEnv?: Record<string, string>;
   signal?: AbortSignal;
+  /** Limits that interrupt the run once crossed (`budget_exceeded`). */
+  budget?: RunBudget;
+  /** Overrides the coder's retry policy for this run; `false` disables retries. */
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * Failure kinds shared by every adapter, carried by `CoderError.code` and by the `code`
+ * of `error` stream events.
+ */
+export type CoderErrorCode =
+  | 'interrupted'
+  | 'auth'
+  | 'rate_limited'
+  | 'quota'
+  | 'binary_not_found'
+  | 'invalid_output'
+  | 'provider_crash'
+  | 'timeout'
+  | 'budget_exceeded';
+
+/**
+ * Retry behaviour for transient provider failures.
+ *
+ * Attempt `n` waits `initialDelayMs * factor^(n-1)`, capped at `maxDelayMs` and spread
+ * by `jitter` (a ratio: 0.2 means ±20%).
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: number;
+  /** Overrides the adapter's classifier. */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Per-run limits. Token and cost limits are checked whenever the provider reports usage
+ * mid-run; tool calls as they happen; duration on a timer.
+ */
+export interface RunBudget {
+  maxTokens?: number;
+  /** Priced with the global price table (`registerPrices`) or the provider-reported cost. */
+  maxCostUsd?: number;
+  maxDurationMs?: number;
+  maxToolCalls?: number;
+}
+
+export type BudgetLimit = keyof RunBudget;
+
+/**
+ * JSON Schema paired with the TypeScript type its payload parses to.
+ *
+ * Adapters send `jsonSchema` to the provider; `parse` (e.g. a Zod schema's `parse`)
+ * runs on the validated payload before it lands in `RunResult.json`.
+ */
+export interface OutputSchema<T> {
+  readonly jsonSchema: object;
+  parse?(value: unknown): T;
+  /** Phantom field carrying the inferred type; never set at runtime. */
+  readonly __type?: T;
+}
+
+type JsonSchemaPrimitives = { string: string; number: number; integer: number; boolean: boolean; null: null };
+
+type InferJsonSchemaType<S, T> = T extends 'object'
+  ? InferJsonSchemaObject<S>
+  : T extends 'array'
+    ? S extends { items: infer I }
+      ? InferJsonSchema<I>[]
+      : unknown[]
+    : T extends keyof JsonSchemaPrimitives
+      ? JsonSchemaPrimitives[T]
+      : unknown;
+
+type InferJsonSchemaObject<S> = S extends { properties: infer P }
+  ? JsonSchemaRequiredKeys<S> extends infer R
+    ? {
+        -readonly [K in keyof P as K extends R ? K : never]: InferJsonSchema<P[K]>;
+      } & {
+        -readonly [K in keyof P as K extends R ? never : K]?: InferJsonSchema<P[K]>;
+      } extends infer O
+      ? { [K in keyof O]: O[K] }
+      : never
+    : never
+  : Record<string, unknown>;
+
+type JsonSchemaRequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+/**
+ * TypeScript type described by a literal JSON Schema (declare it `as const`).
+ *
+ * Understands `type` (single or array), `properties`/`required`, `items`, `enum`,
+ * `const`, `anyOf` and `oneOf`; anything else infers as `unknown`.
+ */
+export type InferJsonSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { anyOf: readonly (infer B)[] }
+      ? InferJsonSchema<B>
+      : S extends { oneOf: readonly (infer B)[] }
+        ? InferJsonSchema<B>
+        : S extends { type: readonly (infer T)[] }
+          ? InferJsonSchemaType<S, T>
+          : S extends { type: infer T }
+            ? InferJsonSchemaType<S, T>
+            : unknown;
+
+/**
+ * Type of `RunResult.json` produced by an `outputSchema` value.
+ */
+export type InferOutput<S> = S extends OutputSchema<infer T>
+  ? T
+  : object extends S
+    ? unknown
+    : InferJsonSchema<S>;
+
+/**
+ * Run options whose `outputSchema` drives the type of `RunResult.json`.
+ */
+export type TypedRunOpts<S extends object = object> = Omit<RunOpts, 'outputSchema'> & { outputSchema?: S };
+
+/**
+ * Controls how `run()` treats `RunResult.json` that does not match `RunOpts.outputSchema`.
+ */
+export interface StructuredOutputOptions {
+  /** Re-prompts the same thread with the validation errors up to this many times. Defaults to 0. */
+  maxRepairAttempts?: number;
+  /** Throws a `StructuredOutputError` instead of returning a result with `validationErrors`. */
+  throwOnInvalid?: boolean;
+}
+
+/**
+ * Single schema violation found in structured output.
+ */
+export interface SchemaValidationIssue {
+  /** JSONPath-like pointer to the offending value, e.g. `$.items[0].name`. */
+  path: string;
+  message: string;
 }
 
 /**
  * Handle returned by provider-specific threads, exposing execution helpers.
  */
 export interface ThreadHandle {
-  provider: Provider;
+  provider: AdapterName;
   internal: unknown;
   id?: string;
   run(input: PromptInput, opts?: RunOpts): Promise<RunResult>;
   runStreamed(input: PromptInput, opts?: RunOpts): EventIterator;
   interrupt?(reason?: string): Promise<void>;
   close?(): Promise<void>;
+  /** Restores the working directory to a checkpoint, keeping the conversation (see `checkpoints`). */
+  rollback?(turnId: string): Promise<void>;
+  /** Starts a new thread with the conversation and files of a checkpoint (see `checkpoints`). */
+  fork?(turnId: string, opts?: StartOpts): Promise<ThreadHandle>;
+}
+
+/**
+ * Thread handle of a coder built by `createCoder`, whose `run()` types `RunResult.json`
+ * from `outputSchema`.
+ */
+export interface TypedThreadHandle extends ThreadHandle {
+  run<const S extends object = object>(input: PromptInput, opts?: TypedRunOpts<S>): Promise<RunResult<InferOutput<S>>>;
+  fork?(turnId: string, opts?: StartOpts): Promise<TypedThreadHandle>;
+}
+
+/**
+ * State of a thread's working directory and conversation at the end of a turn.
+ */
+export interface Checkpoint {
+  /** `turn-0` is the state when the thread was opened, `turn-N` the state after its N-th completed run. */
+  turnId: string;
+  threadId?: string;
+  createdAt: number;
+  /** Snapshot of the working directory (a git tree id). */
+  snapshot: string;
 }
 
 /**
  * Streaming events emitted by adapters during live runs.
  */
 export type CoderStreamEvent =
-  | { type: 'init'; provider: Provider; threadId?: string; model?: string; ts: number; originalItem?: any }
+  | { type: 'init'; provider: AdapterName; threadId?: string; model?: string; ts: number; originalItem?: any }
   | {
       type: 'message';
-      provider: Provider;
+      provider: AdapterName;
       role: 'assistant' | 'user' | 'system';
       text?: string;
       delta?: boolean;
@@ -84,8 +403,9 @@ export type CoderStreamEvent =
     }
   | {
       type: 'tool_use';
-      provider: Provider;
+      provider: AdapterName;
       name: string;
+      /** Identifier shared with the call's `tool_result`; the bundled adapters always set it. */
       callId?: string;
       args?: any;
       ts: number;
@@ -93,18 +413,26 @@ export type CoderStreamEvent =
     }
   | {
       type: 'tool_result';
-      provider: Provider;
+      provider: AdapterName;
       name: string;
       callId?: string;
       result?: any;
       exitCode?: number | null;
       error?: unknown;
+      /** Arguments of the originating `tool_use`; this and the fields below are set by `createCoder`. */
+      args?: any;
+      /** `failed` when the result carries an error or a non-zero exit code. */
+      status?: 'succeeded' | 'failed';
+      /** `ts` of the originating `tool_use`, when one was seen. */
+      startedAt?: number;
+      endedAt?: number;
+      durationMs?: number;
       ts: number;
       originalItem?: any;
     }
   | {
       type: 'progress';
-      provider: Provider;
+      provider: AdapterName;
       label?: string;
       detail?: string;
       ts: number;
@@ -112,15 +440,17 @@ export type CoderStreamEvent =
     }
   | {
       type: 'permission';
-      provider: Provider;
+      provider: AdapterName;
       request?: any;
       decision?: 'granted' | 'denied' | 'auto';
+      /** Why the call was denied, when known. */
+      reason?: string;
       ts: number;
       originalItem?: any;
     }
   | {
       type: 'file_change';
-      provider: Provider;
+      provider: AdapterName;
       path?: string;
       op?: 'create' | 'modify' | 'delete' | 'rename';
       patch?: string;
@@ -129,42 +459,127 @@ export type CoderStreamEvent =
     }
   | {
       type: 'plan_update';
-      provider: Provider;
+      provider: AdapterName;
       text?: string;
       ts: number;
       originalItem?: any;
     }
   | {
       type: 'usage';
-      provider: Provider;
-      stats?: { inputTokens?: number; outputTokens?: number; [k: string]: any };
+      provider: AdapterName;
+      stats?: UsageStats;
       ts: number;
       originalItem?: any;
     }
   | {
       type: 'error';
-      provider: Provider;
-      code?: string;
+      provider: AdapterName;
+      /** A `CoderErrorCode` for adapter failures; scripted or custom sources may use others. */
+      code?: CoderErrorCode | (string & {});
       message: string;
       ts: number;
       originalItem?: any;
     }
-  | { type: 'cancelled'; provider: Provider; ts: number; originalItem?: any }
-  | { type: 'done'; provider: Provider; ts: number; originalItem?: any };
+  | { type: 'cancelled'; provider: AdapterName; ts: number; originalItem?: any }
+  | { type: 'done'; provider: AdapterName; ts: number; originalItem?: any };
 
 export type EventIterator = AsyncIterable<CoderStreamEvent>;
 
+/**
+ * Provider-neutral usage counters for one run.
+ *
+ * `inputTokens` includes `cachedInputTokens` and `outputTokens` includes `reasoningTokens`,
+ * whatever the provider's own accounting looks like.
+ */
+export interface UsageStats {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+  totalTokens?: number;
+  toolCalls?: number;
+  durationMs?: number;
+  /** Model the counters were reported for, when known. */
+  model?: string;
+  /** Cost in USD, from the price table or, failing that, as reported by the provider. */
+  costUsd?: number;
+  /** Provider usage payload the stats were derived from. */
+  raw?: unknown;
+}
+
+/**
+ * Per-million-token prices in USD for one model.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  /** Price for cache hits; defaults to `inputPerMillion`. */
+  cachedInputPerMillion?: number;
+}
+
+/**
+ * Prices keyed by model name, or by adapter name as a fallback for unlisted models.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Usage accumulated over every run of a thread.
+ */
+export interface ThreadUsage {
+  runs: number;
+  usage: UsageStats;
+}
+
 export const now = () => Date.now();
 
 /**
  * Result returned after a run completes.
  */
-export interface RunResult {
+export interface RunResult<T = unknown> {
   threadId?: string;
   text?: string;
-  json?: unknown;
-  usage?: any;
+  json?: T;
+  usage?: UsageStats;
   raw?: any;
+  /** Present when `json` does not match `RunOpts.outputSchema` after all repair attempts. */
+  validationErrors?: SchemaValidationIssue[];
+  /** Files the run changed in the working directory, when `CreateCoderOptions.trackChanges` is on. */
+  changes?: RunChanges;
+  /** Checkpoint recorded after the run, when `CreateCoderOptions.checkpoints` is on. */
+  turnId?: string;
+}
+
+/**
+ * A file created, modified, deleted or renamed during a run.
+ */
+export interface FileChange {
+  /** Path relative to the working directory (the new path for renames). */
+  path: string;
+  op: 'create' | 'modify' | 'delete' | 'rename';
+  /** Path before a rename. */
+  previousPath?: string;
+  /** Unified diff of this file (binary-safe git format). */
+  patch: string;
+}
+
+/**
+ * Changes a run made to its working directory.
+ */
+export interface RunChanges {
+  files: FileChange[];
+  /** Unified diff of all files, applicable with `git apply`. */
+  patch: string;
+}
+
+/**
+ * Controls which files the change tracker looks at.
+ */
+export interface ChangeTrackingOptions {
+  /**
+   * Extra gitignore-style patterns to skip, on top of the directory's `.gitignore` files.
+   * Defaults to `['node_modules/']`.
+   */
+  ignore?: string[];
 }
 
 /**
@@ -177,6 +592,143 @@ export interface HeadlessCoder {
   close?(thread: ThreadHandle): Promise<void>;
 }
 
+/**
+ * Coder returned by `createCoder`; its threads type `RunResult.json` from `outputSchema`.
+ */
+export interface TypedHeadlessCoder extends HeadlessCoder {
+  startThread(opts?: StartOpts): Promise<TypedThreadHandle>;
+  resumeThread(threadId: string, opts?: StartOpts): Promise<TypedThreadHandle>;
+}
+
 export type AdapterFactory = ((defaults?: StartOpts) => HeadlessCoder) & {
   coderName?: AdapterName;
+  /** Decides which of the adapter's errors are transient and worth retrying. */
+  isRetryableError?: (error: unknown) => boolean;
+  /**
+   * Rebuilds the normalized events of a `run()` call from its `RunResult.raw`, or returns
+   * `undefined` when the payload does not carry them. `TranscriptRecorder` uses it.
+   */
+  normalizeRunResult?: (result: RunResult) => CoderStreamEvent[] | undefined;
 };
+
+/**
+ * Input and options handed to a run after middleware has had a chance to rewrite them.
+ */
+export interface MiddlewareRequest {
+  input: PromptInput;
+  opts?: RunOpts;
+}
+
+/**
+ * Per-run context shared by every middleware hook of one `run()`/`runStreamed()` call.
+ */
+export interface MiddlewareContext {
+  provider: AdapterName;
+  thread: ThreadHandle;
+  mode: 'run' | 'runStreamed';
+  /** Request after all `prepare` hooks ran. */
+  request: MiddlewareRequest;
+  /** Scratch space middleware can use to carry data between hooks of the same run. */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Interceptor applied around `ThreadHandle.run` and `ThreadHandle.runStreamed`.
+ *
+ * Hooks run in registration order (global middleware first). Returning `undefined`
+ * from a hook keeps the value unchanged.
+ */
+export interface CoderMiddleware {
+  name?: string;
+  /** Rewrites the prompt or run options before the adapter sees them. */
+  prepare?(
+    request: MiddlewareRequest,
+    ctx: MiddlewareContext,
+  ): MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  /** Observes or rewrites streamed events; return `null` to drop an event or an array to expand it. */
+  transformEvent?(
+    event: CoderStreamEvent,
+    ctx: MiddlewareContext,
+  ): CoderStreamEvent | CoderStreamEvent[] | null | void;
+  /** Post-processes the result of `run()`. */
+  transformResult?(result: RunResult, ctx: MiddlewareContext): RunResult | void | Promise<RunResult | void>;
+  /** Observes errors thrown by `run()` or while iterating `runStreamed()`; the error is rethrown. */
+  onError?(error: unknown, ctx: MiddlewareContext): void | Promise<void>;
+}
+
+/**
+ * Outcome of the most recent run on a stored thread.
+ */
+export interface ThreadRunRecord {
+  startedAt: number;
+  finishedAt?: number;
+  status: 'completed' | 'failed' | 'cancelled';
+  usage?: UsageStats;
+  error?: string;
+}
+
+/**
+ * Persisted description of a thread, addressable by a caller-chosen key.
+ */
+export interface ThreadRecord {
+  key: string;
+  provider: AdapterName;
+  threadId?: string;
+  /** JSON-safe start options used to resume the thread. */
+  startOpts?: StartOpts;
+  createdAt: number;
+  updatedAt: number;
+  lastRun?: ThreadRunRecord;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Storage backend for thread records.
+ */
+export interface ThreadStore {
+  get(key: string): Promise<ThreadRecord | undefined>;
+  set(record: ThreadRecord): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<ThreadRecord[]>;
+}
+
+/**
+ * Extra options accepted by `createCoder`.
+ */
+export interface CreateCoderOptions {
+  /**
+   * Middleware applied to this coder's threads after the global middleware, which is
+   * captured when the coder is created.
+   */
+  middleware?: CoderMiddleware[];
+  /** Records started/resumed threads and resolves `resumeThread` keys through the store. */
+  threadStore?: ThreadStore;
+  /**
+   * Prices used for this coder's runs, consulted before the globally registered ones. Usage
+   * is accumulated per thread (see `getThreadUsage`).
+   */
+  prices?: PriceTable;
+  /** Retries runs that fail with transient errors, as classified by the adapter's `isRetryableError`. */
+  retry?: RetryPolicy;
+  /**
+   * For provider chains: error codes that move a thread to the next registered provider.
+   * Defaults to `auth`, `quota` and `binary_not_found`.
+   */
+  fallbackOn?: CoderErrorCode[];
+  /**
+   * Snapshots the working directory before every run and reports the files the run changed
+   * in `RunResult.changes` and as `file_change` events with `patch` filled in.
+   */
+  trackChanges?: boolean | ChangeTrackingOptions;
+  /**
+   * Checkpoints the working directory after every completed run so threads can `rollback`
+   * their files or `fork` from any turn.
+   */
+  checkpoints?: boolean;
+}
+
+/**
+ * One link of a provider fallback chain: an adapter name, or a name plus start options
+ * that apply to that adapter only (merged over the chain's defaults).
+ */
+export type FallbackTarget = AdapterName | { provider: AdapterName; defaults?: StartOpts };
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Normalised usage helpers, the price table and per-thread usage accounting.
+ */
+
+import type {
+  AdapterName,
+  HeadlessCoder,
+  ModelPrice,
+  PriceTable,
+  PromptInput,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  ThreadUsage,
+  UsageStats,
+} from './types.js';
+
+const COUNTERS = [
+  'inputTokens',
+  'outputTokens',
+  'cachedInputTokens',
+  'reasoningTokens',
+  'totalTokens',
+  'toolCalls',
+  'durationMs',
+  'costUsd',
+] as const;
+
+const globalPrices: PriceTable = {};
+const threadUsage = new WeakMap<ThreadHandle, ThreadUsage>();
+
+/**
+ * Adds or replaces prices used by every coder. Keys are model names, or adapter names
+ * to price models that have no entry of their own.
+ */
+export function registerPrices(table: PriceTable): void {
+  Object.assign(globalPrices, table);
+}
+
+/**
+ * Removes all globally registered prices (primarily useful in tests).
+ */
+export function clearPrices(): void {
+  for (const key of Object.keys(globalPrices)) {
+    delete globalPrices[key];
+  }
+}
+
+/**
+ * Builds a `UsageStats` object, dropping counters that are missing or not finite and
+ * deriving `totalTokens` from input and output tokens when the provider omits it.
+ */
+export function createUsageStats(fields: UsageStats): UsageStats {
+  const stats: UsageStats = {};
+  for (const key of COUNTERS) {
+    const value = fields[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      stats[key] = value;
+    }
+  }
+  if (stats.totalTokens === undefined && (stats.inputTokens !== undefined || stats.outputTokens !== undefined)) {
+    stats.totalTokens = (stats.inputTokens ?? 0) + (stats.outputTokens ?? 0);
+  }
+  if (fields.model) stats.model = fields.model;
+  if (fields.raw !== undefined) stats.raw = fields.raw;
+  return stats;
+}
+
+/**
+ * Computes the USD cost of a run from the price table.
+ *
+ * The model price wins over the adapter-wide price; `prices` is consulted before the
+ * global table. Returns `undefined` when no price applies or no tokens were reported.
+ */
+export function computeCost(usage: UsageStats, provider?: AdapterName, prices?: PriceTable): number | undefined {
+  const price = findPrice(usage.model, provider, prices);
+  if (!price || (usage.inputTokens === undefined && usage.outputTokens === undefined)) return undefined;
+  const input = usage.inputTokens ?? 0;
+  const cached = Math.min(usage.cachedInputTokens ?? 0, input);
+  const cost =
+    (input - cached) * price.inputPerMillion +
+    cached * (price.cachedInputPerMillion ?? price.inputPerMillion) +
+    (usage.outputTokens ?? 0) * price.outputPerMillion;
+  return cost / 1_000_000;
+}
+
+/**
+ * Sums the counters of two usage objects. `raw` is dropped and `model` is kept only
+ * when both sides agree.
+ */
+export function addUsage(total: UsageStats, usage: UsageStats): UsageStats {
+  const sum: UsageStats = {};
+  for (const key of COUNTERS) {
+    if (total[key] === undefined && usage[key] === undefined) continue;
+    sum[key] = (total[key] ?? 0) + (usage[key] ?? 0);
+  }
+  const model = total.model ?? usage.model;
+  if (model && (!total.model || !usage.model || total.model === usage.model)) {
+    sum.model = model;
+  }
+  return sum;
+}
+
+/**
+ * Returns the usage accumulated by a thread created through `createCoder`, or
+ * `undefined` when the thread has not reported usage yet. Totals live in memory and
+ * start from zero for every resumed handle.
+ */
+export function getThreadUsage(thread: ThreadHandle): ThreadUsage | undefined {
+  const usage = threadUsage.get(thread);
+  return usage ? { runs: usage.runs, usage: { ...usage.usage } } : undefined;
+}
+
+/**
+ * Returns a coder whose threads price every run and accumulate usage per thread.
+ *
+ * `RunResult.usage` and `usage` events gain `costUsd` when a price applies and fall
+ * back to the thread's `StartOpts.model` when the adapter did not report a model.
+ * Usage is priced for the provider that reported it, so threads that switch providers
+ * (fallback chains) are priced per run. For streams, the last `usage` event of a run
+ * counts as the run's usage.
+ */
+export function applyUsageAccounting(coder: HeadlessCoder, defaults?: StartOpts, prices?: PriceTable): HeadlessCoder {
+  const wrapped: HeadlessCoder = {
+    startThread: async opts => trackUsage(await coder.startThread(opts), opts?.model ?? defaults?.model, prices),
+    resumeThread: async (threadId, opts) =>
+      trackUsage(await coder.resumeThread(threadId, opts), opts?.model ?? defaults?.model, prices),
+    getThreadId: thread => coder.getThreadId(thread),
+  };
+  if (coder.close) {
+    wrapped.close = thread => coder.close!(thread);
+  }
+  return wrapped;
+}
+
+function trackUsage(handle: ThreadHandle, model: string | undefined, prices: PriceTable | undefined): ThreadHandle {
+  const run = handle.run.bind(handle);
+  const runStreamed = handle.runStreamed.bind(handle);
+
+  const price = (stats: UsageStats, provider: AdapterName): UsageStats => {
+    const usage: UsageStats = { ...stats };
+    if (!usage.model && model) usage.model = model;
+    const cost = computeCost(usage, provider, prices);
+    if (cost !== undefined) usage.costUsd = cost;
+    return usage;
+  };
+
+  const record = (usage: UsageStats) => {
+    const current = threadUsage.get(handle) ?? { runs: 0, usage: {} };
+    threadUsage.set(handle, { runs: current.runs + 1, usage: addUsage(current.usage, usage) });
+  };
+
+  handle.run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    const result = await run(input, opts);
+    if (!result.usage) return result;
+    const usage = price(result.usage, handle.provider);
+    record(usage);
+    return { ...result, usage };
+  };
+
+  handle.runStreamed = (input: PromptInput, opts?: RunOpts) => ({
+    async *[Symbol.asyncIterator]() {
+      let last: UsageStats | undefined;
+      try {
+        for await (const event of runStreamed(input, opts)) {
+          if (event.type === 'usage' && event.stats) {
+            last = price(event.stats, event.provider);
+            yield { ...event, stats: last };
+            continue;
+          }
+          yield event;
+        }
+      } finally {
+        if (last) record(last);
+      }
+    },
+  });
+
+  return handle;
+}
+
+function findPrice(
+  model: string | undefined,
+  provider: AdapterName | undefined,
+  prices: PriceTable | undefined,
+): ModelPrice | undefined {
+  const tables = prices ? [prices, globalPrices] : [globalPrices];
+  for (const key of [model, provider]) {
+    if (!key) continue;
+    for (const table of tables) {
+      if (table[key]) return table[key];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Per-thread workspace isolation: a dedicated git worktree (or a temporary
+ * copy for directories outside git) that the thread runs in, with helpers to diff, merge
+ * the changes back, or discard the workspace.
+ */
+
+import { cp, mkdir, mkdtemp, realpath, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { BinaryNotFoundError } from './errors.js';
+import { git } from './git.js';
+import type { HeadlessCoder, StartOpts, ThreadHandle, WorkspaceIsolationOptions } from './types.js';
+
+/**
+ * Isolated directory a thread runs in.
+ */
+export interface Workspace {
+  kind: 'worktree' | 'copy';
+  /** Directory the thread runs in (the worktree or copy, plus the original subdirectory). */
+  path: string;
+  /** Root of the worktree or copy. */
+  root: string;
+  /** Repository root (worktrees) or directory (copies) the workspace was created from. */
+  sourceRoot: string;
+  /** Commit the workspace started from; diffs are taken against it. */
+  baseCommit: string;
+  /** Branch checked out in the worktree. */
+  branch?: string;
+  /** Returns the changes made in the workspace, including new files, as a binary-safe git patch. */
+  diff(): Promise<string>;
+  /** Applies `diff()` to the source directory. */
+  merge(): Promise<void>;
+  /** Removes the worktree and its branch, or the copy. */
+  discard(): Promise<void>;
+}
+
+const workspaces = new WeakMap<ThreadHandle, Workspace>();
+const finished = new WeakMap<ThreadHandle, Promise<void>>();
+
+const BASELINE_COMMIT = [
+  '-c',
+  'user.name=headless-coder',
+  '-c',
+  'user.email=headless-coder@localhost',
+  '-c',
+  'commit.gpgsign=false',
+  'commit',
+  '--quiet',
+  '--no-verify',
+  '--allow-empty',
+  '--message',
+  'headless-coder baseline',
+];
+
+/**
+ * Returns the workspace of a thread started with `StartOpts.isolation` through
+ * `createCoder`, or `undefined` when the thread is not isolated.
+ */
+export function getWorkspace(thread: ThreadHandle): Workspace | undefined {
+  return workspaces.get(thread);
+}
+
+/**
+ * Returns a coder that runs threads opened with `StartOpts.isolation` in their own
+ * workspace. The adapter only sees a different `workingDirectory`, so every adapter works.
+ *
+ * Inside a git repository the workspace is a worktree on a new `headless-coder/*` branch
+ * started from `HEAD`; uncommitted changes of the checkout are not carried over. Other
+ * directories are copied (without `.git` and `node_modules`) and committed as a baseline.
+ * Closing the thread applies `onClose`. Resumed threads get a fresh workspace.
+ */
+export function applyWorkspaceIsolation(coder: HeadlessCoder, defaults?: StartOpts): HeadlessCoder {
+  const isolate = async (opts: StartOpts | undefined, open: (opts?: StartOpts) => Promise<ThreadHandle>) => {
+    const merged = { ...defaults, ...opts };
+    if (!merged.isolation) return open(opts);
+    const isolation = merged.isolation === true ? {} : merged.isolation;
+    const workspace = await createWorkspace(merged.workingDirectory ?? process.cwd(), isolation);
+    let handle: ThreadHandle;
+    try {
+      handle = await open({ ...opts, isolation: false, workingDirectory: workspace.path });
+    } catch (error) {
+      await workspace.discard();
+      throw error;
+    }
+    workspaces.set(handle, workspace);
+    const close = handle.close?.bind(handle);
+    handle.close = async () => {
+      await (close ? close() : coder.close?.(handle));
+      await finish(handle, isolation);
+    };
+    return handle;
+  };
+
+  return {
+    startThread: opts => isolate(opts, startOpts => coder.startThread(startOpts)),
+    resumeThread: (threadId, opts) => isolate(opts, startOpts => coder.resumeThread(threadId, startOpts)),
+    getThreadId: thread => coder.getThreadId(thread),
+    close: async thread => {
+      if (!workspaces.has(thread)) {
+        await coder.close?.(thread);
+        return;
+      }
+      await thread.close?.();
+    },
+  };
+}
+
+function finish(handle: ThreadHandle, isolation: WorkspaceIsolationOptions): Promise<void> {
+  let pending = finished.get(handle);
+  if (!pending) {
+    const workspace = workspaces.get(handle)!;
+    pending = (async () => {
+      if (isolation.onClose === 'merge') {
+        await workspace.merge();
+        await workspace.discard();
+      } else if (isolation.onClose === 'discard') {
+        await workspace.discard();
+      }
+    })();
+    finished.set(handle, pending);
+  }
+  return pending;
+}
+
+async function createWorkspace(directory: string, isolation: WorkspaceIsolationOptions): Promise<Workspace> {
+  const source = await realpath(path.resolve(directory));
+  const mode = isolation.mode ?? 'auto';
+  const repository = mode === 'copy' ? undefined : await findRepository(source);
+  if (mode === 'worktree' && !repository) {
+    throw new Error(`Cannot create a git worktree for ${source}: not inside a git repository with commits.`);
+  }
+  const baseDir = path.resolve(isolation.baseDir ?? os.tmpdir());
+  await mkdir(baseDir, { recursive: true });
+  const root = await mkdtemp(path.join(baseDir, 'headless-coder-'));
+  try {
+    return repository
+      ? await createWorktree(repository.root, repository.head, path.relative(repository.root, source), root)
+      : await createCopy(source, root);
+  } catch (error) {
+    await rm(root, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+async function findRepository(directory: string): Promise<{ root: string; head: string } | undefined> {
+  try {
+    const root = (await git(['rev-parse', '--show-toplevel'], directory)).trim();
+    const head = (await git(['rev-parse', '--verify', 'HEAD'], directory)).trim();
+    return { root: await realpath(root), head };
+  } catch (error) {
+    if (error instanceof BinaryNotFoundError) throw error;
+    return undefined;
+  }
+}
+
+async function createWorktree(sourceRoot: string, baseCommit: string, subdirectory: string, root: string) {
+  const branch = `headless-coder/${path.basename(root)}`;
+  await git(['worktree', 'add', '--quiet', '-b', branch, root, baseCommit], sourceRoot);
+  return createHandle({ kind: 'worktree', root, sourceRoot, baseCommit, branch }, path.join(root, subdirectory), () =>
+    git(['worktree', 'remove', '--force', root], sourceRoot).then(() => git(['branch', '-D', branch], sourceRoot)),
+  );
+}
+
+async function createCopy(sourceRoot: string, root: string) {
+  const skipped = new Set(['.git', 'node_modules']);
+  await cp(sourceRoot, root, { recursive: true, filter: file => !skipped.has(path.basename(file)) });
+  await git(['init', '--quiet'], root);
+  await git(['add', '--all'], root);
+  await git(BASELINE_COMMIT, root);
+  const baseCommit = (await git(['rev-parse', 'HEAD'], root)).trim();
+  return createHandle({ kind: 'copy', root, sourceRoot, baseCommit }, root, () =>
+    rm(root, { recursive: true, force: true }),
+  );
+}
+
+function createHandle(
+  fields: Pick<Workspace, 'kind' | 'root' | 'sourceRoot' | 'baseCommit' | 'branch'>,
+  cwd: string,
+  remove: () => Promise<unknown>,
+): Workspace {
+  let discarded: Promise<void> | undefined;
+  const ensureOpen = () => {
+    if (discarded) throw new Error(`Workspace ${fields.root} was discarded.`);
+  };
+  const diff = async () => {
+    ensureOpen();
+    await git(['add', '--all'], fields.root);
+    return git(['diff', '--cached', '--binary', fields.baseCommit], fields.root);
+  };
+  return {
+    ...fields,
+    path: cwd,
+    diff,
+    merge: async () => {
+      const patch = await diff();
+      if (!patch) return;
+      const patchDir = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-patch-'));
+      const patchFile = path.join(patchDir, 'workspace.patch');
+      try {
+        await writeFile(patchFile, patch, 'utf8');
+        // Keeps copies of directories nested in another repository from resolving paths against it.
+        const env = { ...process.env, GIT_CEILING_DIRECTORIES: path.dirname(fields.sourceRoot) };
+        await git(['apply', '--binary', patchFile], fields.sourceRoot, env);
+      } finally {
+        await rm(patchDir, { recursive: true, force: true });
+      }
+    },
+    discard: () => {
+      discarded ??= remove().then(() => undefined);
+      return discarded;
+    },
+  };
+}
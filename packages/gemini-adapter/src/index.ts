@@ -5,23 +5,63 @@
 import { spawn, spawnSync, ChildProcess } from 'node:child_process';
 import * as readline from 'node:readline';
 import { once } from 'node:events';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import {
   now,
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  openCassette,
+  replayEvents,
+  normalizeRunOpts,
+  createUsageStats,
+  createBudgetMonitor,
+  createBudgetExceededEvent,
+  requestPermission,
+  createPermissionEvent,
+  describeDenial,
+  applyToolPolicy,
+  inferToolActions,
+  validateMcpServers,
+  isMcpStdioServer,
+  renderContentText,
+  splitSystemMessages,
+  joinInstructions,
+  stageAttachments,
+  toContentParts,
+  isTransientError,
+  InterruptedError,
+  classifyError,
+  toCoderError,
+  ToolCallRegistry,
+  StreamAccumulator,
+  BudgetExceededError,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  BudgetLimit,
+  BudgetMonitor,
+  CassetteEntry,
+  CassetteSession,
   HeadlessCoder,
+  McpServerConfig,
   ThreadHandle,
+  PromptContentPart,
   PromptInput,
   StartOpts,
   RunOpts,
   RunResult,
   CoderStreamEvent,
   EventIterator,
+  PermissionRequest,
   Provider,
+  ToolAction,
+  UsageStats,
+  TypedHeadlessCoder,
+  ToolPolicy,
 } from '@headless-coder-sdk/core';
 
 export const CODER_NAME: Provider = 'gemini';
@@ -30,10 +70,42 @@ export function createAdapter(defaults?: StartOpts): HeadlessCoder {
   return new GeminiAdapter(defaults);
 }
 (createAdapter as AdapterFactory).coderName = CODER_NAME;
+(createAdapter as AdapterFactory).isRetryableError = isRetryableGeminiError;
+(createAdapter as AdapterFactory).normalizeRunResult = normalizeGeminiRunResult;
+
+/**
+ * Classifies Gemini CLI failures for the core retry policy.
+ *
+ * Args:
+ *   error: Error thrown by a run; its message carries the CLI's stderr.
+ *
+ * Returns:
+ *   True for rate limits and unavailable backends (including `RESOURCE_EXHAUSTED`);
+ *   false once a daily quota is exhausted, since retrying cannot succeed that day.
+ */
+function isRetryableGeminiError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  if (/quota/i.test(message) && /per day|daily/i.test(message)) return false;
+  return /RESOURCE_EXHAUSTED|\bUNAVAILABLE\b|DEADLINE_EXCEEDED/.test(message) || isTransientError(error);
+}
+
+/**
+ * Returns the events of a `run()` call served from the stream.
+ *
+ * Args:
+ *   result: Result returned by `run()`.
+ *
+ * Returns:
+ *   The streamed events when a permission handler or policy routed the run through
+ *   `--output-format stream-json`; undefined for JSON output, which reports no tool calls.
+ */
+function normalizeGeminiRunResult(result: RunResult): CoderStreamEvent[] | undefined {
+  return Array.isArray(result.raw) ? (result.raw as CoderStreamEvent[]) : undefined;
+}
 
 const isNodeRuntime = typeof process !== 'undefined' && !!process.versions?.node;
 
-export function createHeadlessGemini(defaults?: StartOpts): HeadlessCoder {
+export function createHeadlessGemini(defaults?: StartOpts): TypedHeadlessCoder {
   ensureNodeRuntime('create a Gemini coder');
   if (!getAdapterFactory(CODER_NAME)) {
     registerAdapter(createAdapter as AdapterFactory);
@@ -58,17 +130,26 @@ interface GeminiThreadState {
   id?: string;
   resumeToken?: string;
   opts: StartOpts;
+  /** Temporary settings file carrying the thread's MCP servers and policy exclusions. */
+  settingsPath?: string;
+  cassette?: CassetteSession;
   currentRun?: ActiveRun | null;
 }
 
 interface ActiveRun {
-  child: ChildProcess;
+  child?: ChildProcess;
   abortController: AbortController;
   stopExternal: () => void;
   aborted: boolean;
   abortReason?: string;
   softKillTimer?: NodeJS.Timeout;
   hardKillTimer?: NodeJS.Timeout;
+  budget: BudgetMonitor;
+}
+
+interface GeminiRunMetrics {
+  startedAt: number;
+  toolCalls: number;
 }
 
 /**
@@ -85,17 +166,87 @@ function geminiPath(override?: string): string {
 }
 
 /**
- * Normalises prompt input into a single string for CLI invocation.
+ * Normalises prompt input into a single string for CLI invocation. Images and files become
+ * `@path` references, which the CLI reads and attaches itself.
  *
  * Args:
- *   input: Prompt payload.
+ *   input: Prompt payload, with attachments staged by `stageAttachments`.
  *
  * Returns:
  *   Prompt string understood by Gemini CLI.
  */
 function toPrompt(input: PromptInput): string {
   if (typeof input === 'string') return input;
-  return input.map(message => `${message.role}: ${message.content}`).join('\n');
+  return input.map(message => `${message.role}: ${renderContentText(message.content, toAtReference)}`).join('\n');
+}
+
+function toAtReference(part: Exclude<PromptContentPart, { type: 'text' }>): string {
+  if (!('path' in part)) throw new Error('Gemini prompts need base64 images staged as files first.');
+  return `@${part.path.replace(/ /g, '\\ ')}`;
+}
+
+/**
+ * Writes `systemPrompt` to a temporary file for `GEMINI_SYSTEM_MD`, the CLI's system
+ * instruction file, which replaces the CLI's built-in system prompt.
+ *
+ * Args:
+ *   system: System prompt of the thread.
+ *
+ * Returns:
+ *   Path of the file and a callback removing it.
+ */
+function writeSystemInstructions(system: string): { path: string; cleanup: () => void } {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'headless-coder-gemini-system-'));
+  const file = path.join(dir, 'system.md');
+  writeFileSync(file, `${system}\n`, 'utf8');
+  return { path: file, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Writes the text added to the system prompt of a run (`appendSystemPrompt` and the run's
+ * system messages) as a `GEMINI.md` context file, which the CLI loads next to its built-in
+ * prompt. The file's directory is included in the workspace, and a run-scoped copy of the
+ * thread settings tells the CLI to load context files from included directories.
+ *
+ * Args:
+ *   context: Text added to the system prompt.
+ *   settings: Settings of the thread, written alongside.
+ *
+ * Returns:
+ *   Directory of the context file, path of the settings file and a callback removing both.
+ */
+function writeRunContext(
+  context: string,
+  settings: Record<string, unknown>,
+): { dir: string; settingsPath: string; cleanup: () => void } {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'headless-coder-gemini-context-'));
+  const settingsPath = path.join(dir, 'settings.json');
+  writeFileSync(path.join(dir, 'GEMINI.md'), `${context}\n`, 'utf8');
+  const runSettings = { ...settings, context: { loadMemoryFromIncludeDirectories: true } };
+  writeFileSync(settingsPath, JSON.stringify(runSettings, null, 2), 'utf8');
+  return { dir, settingsPath, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Lists directories holding attachments outside the working directory, which the CLI
+ * refuses to read unless they are included in the workspace.
+ *
+ * Args:
+ *   input: Prompt payload with staged attachments.
+ *   cwd: Working directory of the CLI.
+ *
+ * Returns:
+ *   Directories to pass through `--include-directories`.
+ */
+function attachmentDirectories(input: PromptInput, cwd: string): string[] {
+  if (typeof input === 'string') return [];
+  const directories = new Set<string>();
+  for (const part of input.flatMap(message => toContentParts(message.content))) {
+    if (part.type === 'text' || !('path' in part)) continue;
+    const relative = path.relative(cwd, part.path);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) directories.add(path.dirname(part.path));
+  }
+  return [...directories];
 }
 
 function applyOutputSchemaPrompt(input: PromptInput, schema?: object): string {
@@ -139,6 +290,13 @@ function captureGeminiSessionMetadata(state: GeminiThreadState, handle: ThreadHa
   }
 }
 
+function restoreReplayedSession(state: GeminiThreadState, handle: ThreadHandle, entry: CassetteEntry): void {
+  if (!entry.threadId) return;
+  state.id = entry.threadId;
+  state.resumeToken = entry.threadId;
+  handle.id = entry.threadId;
+}
+
 function extractSessionId(payload: any): string | undefined {
   const candidate =
     payload?.session_id ??
@@ -173,6 +331,12 @@ function resolveResumeTarget(state: GeminiThreadState): string | undefined {
   return typeof candidate === 'string' && candidate.length > 0 ? candidate : undefined;
 }
 
+interface GeminiProcessOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
 interface GeminiSessionEntry {
   index: number;
   id?: string;
@@ -248,13 +412,18 @@ export class GeminiAdapter implements HeadlessCoder {
    *
    * Returns:
    *   Thread handle stub (Gemini is stateless).
+   *
+   * Raises:
+   *   Error: When `mcpServers` is invalid.
    */
   async startThread(opts?: StartOpts): Promise<ThreadHandle> {
     const options = { ...this.defaultOpts, ...opts };
     const state: GeminiThreadState = {
       opts: options,
+      settingsPath: await writeGeminiSettings(options),
       id: typeof options.resume === 'string' ? options.resume : undefined,
       resumeToken: typeof options.resume === 'string' ? options.resume : undefined,
+      cassette: options.cassette ? openCassette(options.cassette, CODER_NAME) : undefined,
     };
     return this.createThreadHandle(state);
   }
@@ -268,15 +437,26 @@ export class GeminiAdapter implements HeadlessCoder {
    *
    * Returns:
    *   Thread handle referencing Gemini state.
+   *
+   * Raises:
+   *   Error: When `mcpServers` is invalid.
    */
   async resumeThread(threadId: string, opts?: StartOpts): Promise<ThreadHandle> {
     const options = { ...this.defaultOpts, ...opts, resume: threadId };
-    const state: GeminiThreadState = { opts: options, id: threadId, resumeToken: threadId };
+    const state: GeminiThreadState = {
+      opts: options,
+      settingsPath: await writeGeminiSettings(options),
+      id: threadId,
+      resumeToken: threadId,
+      cassette: options.cassette ? openCassette(options.cassette, CODER_NAME) : undefined,
+    };
     return this.createThreadHandle(state);
   }
 
   /**
-   * Runs Gemini CLI and returns the parsed JSON response when available.
+   * Runs Gemini CLI and returns the parsed JSON response when available. Threads with an
+   * `onPermissionRequest` handler or a `policy` run through the stream instead, since only
+   * streamed tool calls can be checked.
    *
    * Args:
    *   thread: Thread handle.
@@ -287,39 +467,120 @@ export class GeminiAdapter implements HeadlessCoder {
    *   Parsed run result.
    *
    * Raises:
-   *   Error: When the Gemini CLI exits with a non-zero status.
+   *   CoderError: When the Gemini CLI cannot start or exits with a non-zero status.
    */
   private async runInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): Promise<RunResult> {
     ensureNodeRuntime('run Gemini');
     const state = handle.internal as GeminiThreadState;
+    if (state.opts.onPermissionRequest || state.opts.policy) {
+      return this.runThroughStream(handle, input, opts);
+    }
     this.assertIdle(state);
-    const prompt = applyOutputSchemaPrompt(input, opts?.outputSchema);
-    const { child, active, cleanup } = this.spawnGeminiProcess(state, prompt, 'json', opts);
+    const cassette = state.cassette;
+    const startedAt = Date.now();
+    if (cassette?.mode === 'replay') {
+      const entry = cassette.next();
+      restoreReplayedSession(state, handle, entry);
+      const result = this.buildRunResult(state, handle, entry.output as GeminiProcessOutput, startedAt, opts, true);
+      const budget = createBudgetMonitor(opts?.budget, CODER_NAME, () => {});
+      budget.stop();
+      return enforceUsageBudget(budget, result);
+    }
+    const { child, active, cleanup } = this.spawnGeminiProcess(state, input, 'json', opts);
+    let output: GeminiProcessOutput | undefined;
     try {
-      const { stdout, stderr, exitCode } = await waitForChild(child);
+      output = await waitForChild(child);
+      if (active.budget.exceeded) {
+        throw active.budget.exceeded;
+      }
       if (active.aborted) {
         throw createAbortError(active.abortReason);
       }
-      if (exitCode !== 0) {
-        throw new Error(`gemini exited with code ${exitCode}: ${stderr}`);
-      }
-      const parsed = parseGeminiJson(stdout);
-      captureGeminiSessionMetadata(state, handle, parsed);
-      if (!state.id || !state.resumeToken) {
-        updateSessionMetadataFromList(state, handle);
-      }
-      const text = parsed.response ?? parsed.text ?? stdout;
-      const structured = opts?.outputSchema ? extractJsonPayload(text) : undefined;
-      return {
-        threadId: state.id,
-        text,
-        json: structured ?? parsed.json,
-        usage: parsed.stats,
-        raw: parsed,
-      };
+      return enforceUsageBudget(active.budget, this.buildRunResult(state, handle, output, startedAt, opts));
+    } catch (error) {
+      throw toCoderError(error, CODER_NAME);
     } finally {
       cleanup();
+      if (cassette?.mode === 'record' && output && !active.aborted) {
+        cassette.record({ threadId: state.id, events: [], output });
+      }
+    }
+  }
+
+  /**
+   * Runs a turn over stream-json and folds the events into a run result, so that tool calls
+   * pass through `checkPermission` as they do for `runStreamed()`.
+   *
+   * Args:
+   *   handle: Thread handle.
+   *   input: Prompt payload.
+   *   opts: Run options (for structured output and budgets).
+   *
+   * Returns:
+   *   Run result built from the streamed events.
+   *
+   * Raises:
+   *   BudgetExceededError: When a budget stopped the run.
+   *   CoderError: When the run failed or was interrupted, e.g. by a denied tool call.
+   */
+  private async runThroughStream(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): Promise<RunResult> {
+    const accumulator = new StreamAccumulator();
+    for await (const event of this.runStreamedInternal(handle, input, opts)) {
+      if (event.type === 'error' && event.code === 'budget_exceeded') {
+        const { limit, max, actual } = event.originalItem as { limit: BudgetLimit; max: number; actual: number };
+        throw new BudgetExceededError(limit, max, actual);
+      }
+      accumulator.push(event);
+    }
+    const result = accumulator.toRunResult();
+    const state = handle.internal as GeminiThreadState;
+    const json = opts?.outputSchema ? extractJsonPayload(result.text) : undefined;
+    return { ...result, threadId: state.id ?? result.threadId, ...(json === undefined ? {} : { json }) };
+  }
+
+  /**
+   * Converts buffered CLI output into a run result.
+   *
+   * Args:
+   *   state: Thread state receiving session metadata.
+   *   handle: Thread handle to update with the session id.
+   *   output: Captured stdout/stderr/exit code.
+   *   startedAt: Run start time used for the usage duration.
+   *   opts: Run options (for structured output).
+   *   replaying: Skips CLI session lookups when output came from a cassette.
+   *
+   * Returns:
+   *   Parsed run result.
+   *
+   * Raises:
+   *   CoderError: When the CLI exited with a non-zero status, classified from stderr.
+   */
+  private buildRunResult(
+    state: GeminiThreadState,
+    handle: ThreadHandle,
+    output: GeminiProcessOutput,
+    startedAt: number,
+    opts?: RunOpts,
+    replaying = false,
+  ): RunResult {
+    const { stdout, stderr, exitCode } = output;
+    if (exitCode !== 0) {
+      throw toCoderError(`gemini exited with code ${exitCode}: ${stderr}`, CODER_NAME, output);
+    }
+    const parsed = parseGeminiJson(stdout);
+    captureGeminiSessionMetadata(state, handle, parsed);
+    if (!replaying && (!state.id || !state.resumeToken)) {
+      updateSessionMetadataFromList(state, handle);
     }
+    const text = parsed.response ?? parsed.text ?? stdout;
+    const structured = opts?.outputSchema ? extractJsonPayload(text) : undefined;
+    return {
+      threadId: state.id,
+      text,
+      json: structured ?? parsed.json,
+      usage: normalizeGeminiStats(parsed.stats, { startedAt, toolCalls: 0 }),
+      raw: parsed,
+    };
   }
 
   /**
@@ -334,17 +595,25 @@ export class GeminiAdapter implements HeadlessCoder {
    *   Async iterator over stream events.
    *
    * Raises:
-   *   Error: When the Gemini CLI process fails before emitting events.
+   *   CoderError: When the Gemini CLI process cannot start or exits with a non-zero status.
    */
   private runStreamedInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): EventIterator {
     ensureNodeRuntime('stream Gemini events');
     const state = handle.internal as GeminiThreadState;
     this.assertIdle(state);
-    const prompt = applyOutputSchemaPrompt(input, opts?.outputSchema);
-    const { child, active, cleanup } = this.spawnGeminiProcess(state, prompt, 'stream-json', opts);
+    if (state.cassette?.mode === 'replay') {
+      return this.replayStream(handle, state, state.cassette.next(), opts);
+    }
+    const recording = state.cassette?.mode === 'record' ? state.cassette : undefined;
+    const recorded: unknown[] = [];
+    const { child, active, cleanup } = this.spawnGeminiProcess(state, input, 'stream-json', opts);
+    const metrics: GeminiRunMetrics = { startedAt: Date.now(), toolCalls: 0 };
+    const tools = new ToolCallRegistry(CODER_NAME);
     const queue: Array<CoderStreamEvent | typeof DONE | Error> = [];
     const waiters: Array<(entry: CoderStreamEvent | typeof DONE | Error) => void> = [];
+    const stderrChunks: Buffer[] = [];
     let finished = false;
+    child.stderr?.on('data', chunk => stderrChunks.push(Buffer.from(chunk)));
 
     const push = (entry: CoderStreamEvent | typeof DONE | Error) => {
       if (waiters.length) {
@@ -369,8 +638,16 @@ export class GeminiAdapter implements HeadlessCoder {
       } catch {
         return;
       }
+      recorded.push(event);
       captureGeminiSessionMetadata(state, handle, event);
-      for (const normalized of normalizeGeminiEvent(event)) {
+      if (event?.type === 'tool_use') {
+        metrics.toolCalls += 1;
+        active.budget.countToolCall();
+      }
+      for (const normalized of normalizeGeminiEvent(event, metrics, tools)) {
+        if (normalized.type === 'usage' && normalized.stats) active.budget.setUsage(normalized.stats);
+        // A budget crossed by the final usage ends the run with `budget_exceeded` instead.
+        if (normalized.type === 'done' && active.budget.exceeded) continue;
         push(normalized);
       }
     };
@@ -385,7 +662,7 @@ export class GeminiAdapter implements HeadlessCoder {
         ts: now(),
         originalItem: { reason },
       });
-      push(interruptedErrorEvent(reason));
+      push(interruptionErrorEvent(active, reason));
       push(DONE);
     };
     rl.once('close', handleClose);
@@ -393,6 +670,10 @@ export class GeminiAdapter implements HeadlessCoder {
     const onExit = (code: number | null) => {
       if (finished) return;
       finished = true;
+      const stderr = Buffer.concat(stderrChunks).toString('utf8');
+      if (recording && !active.aborted) {
+        recording.record({ threadId: state.id, events: recorded, output: { exitCode: code, stderr } });
+      }
       if (active.aborted) {
         const reason = active.abortReason ?? 'Interrupted';
         push({
@@ -401,12 +682,12 @@ export class GeminiAdapter implements HeadlessCoder {
           ts: now(),
           originalItem: { reason },
         });
-        push(interruptedErrorEvent(reason));
+        push(interruptionErrorEvent(active, reason));
         push(DONE);
         return;
       }
       if (code !== 0) {
-        push(new Error(`gemini exited with code ${code}`));
+        push(toCoderError(`gemini exited with code ${code}: ${stderr}`, CODER_NAME, { exitCode: code, stderr }));
       } else if (!state.id || !state.resumeToken) {
         updateSessionMetadataFromList(state, handle);
       }
@@ -417,7 +698,7 @@ export class GeminiAdapter implements HeadlessCoder {
     child.once('error', error => {
       if (finished) return;
       finished = true;
-      push(error);
+      push(toCoderError(error, CODER_NAME));
       push(DONE);
     });
 
@@ -429,6 +710,7 @@ export class GeminiAdapter implements HeadlessCoder {
             if (entry === DONE) break;
             if (entry instanceof Error) throw entry;
             yield entry;
+            yield* this.checkPermission(state, entry);
           }
         } finally {
           cleanup(handleLine, rl, handleClose);
@@ -442,6 +724,73 @@ export class GeminiAdapter implements HeadlessCoder {
     return iterator;
   }
 
+  /**
+   * Streams a recorded run through the same normalizer used for live CLI output.
+   *
+   * Args:
+   *   handle: Thread handle.
+   *   state: Thread state.
+   *   entry: Cassette entry captured from a previous stream.
+   *   opts: Run-level modifiers (only `signal` applies).
+   *
+   * Returns:
+   *   Async iterator over stream events.
+   */
+  private replayStream(handle: ThreadHandle, state: GeminiThreadState, entry: CassetteEntry, opts?: RunOpts): EventIterator {
+    const abortController = new AbortController();
+    const stopExternal = linkSignal(opts?.signal, reason => this.abortChild(state, reason));
+    const active: ActiveRun = {
+      abortController,
+      stopExternal,
+      aborted: false,
+      budget: createBudgetMonitor(opts?.budget, CODER_NAME, error => this.abortChild(state, error.message)),
+    };
+    state.currentRun = active;
+    restoreReplayedSession(state, handle, entry);
+    const output = entry.output as Partial<GeminiProcessOutput> | undefined;
+    const exitCode = output?.exitCode ?? 0;
+    const adapter = this;
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        const metrics: GeminiRunMetrics = { startedAt: Date.now(), toolCalls: 0 };
+        const tools = new ToolCallRegistry(CODER_NAME);
+        try {
+          for await (const event of replayEvents<any>(entry.events, abortController.signal)) {
+            captureGeminiSessionMetadata(state, handle, event);
+            if (event?.type === 'tool_use') {
+              metrics.toolCalls += 1;
+              active.budget.countToolCall();
+            }
+            for (const normalized of normalizeGeminiEvent(event, metrics, tools)) {
+              if (normalized.type === 'usage' && normalized.stats) active.budget.setUsage(normalized.stats);
+              if (normalized.type === 'done' && active.budget.exceeded) continue;
+              yield normalized;
+              yield* adapter.checkPermission(state, normalized);
+            }
+          }
+          if (active.aborted) {
+            throw createAbortError(active.abortReason);
+          }
+          if (exitCode !== 0) {
+            throw toCoderError(`gemini exited with code ${exitCode}: ${output?.stderr ?? ''}`, CODER_NAME, output);
+          }
+        } catch (error) {
+          if (!active.aborted) throw error;
+          const reason = active.abortReason ?? 'Interrupted';
+          yield { type: 'cancelled', provider: CODER_NAME, ts: now(), originalItem: { reason } };
+          yield interruptionErrorEvent(active, reason);
+        } finally {
+          stopExternal();
+          active.budget.stop();
+          if (state.currentRun === active) {
+            state.currentRun = null;
+          }
+        }
+      },
+    };
+  }
+
   /**
    * Returns last known Gemini session identifier.
    *
@@ -461,27 +810,46 @@ export class GeminiAdapter implements HeadlessCoder {
       provider: CODER_NAME,
       id: state.id,
       internal: state,
-      run: (input, opts) => this.runInternal(handle, input, opts),
-      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, opts),
+      run: (input, opts) => this.runInternal(handle, input, normalizeRunOpts(opts)),
+      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, normalizeRunOpts(opts)),
       interrupt: async reason => {
         this.abortChild(state, reason ?? 'Interrupted');
       },
+      close: async () => {
+        const settingsPath = state.settingsPath;
+        state.settingsPath = undefined;
+        if (settingsPath) await rm(path.dirname(settingsPath), { recursive: true, force: true });
+      },
     };
     return handle;
   }
 
   private spawnGeminiProcess(
     state: GeminiThreadState,
-    prompt: string,
+    input: PromptInput,
     mode: 'json' | 'stream-json',
     opts?: RunOpts,
   ) {
     const startOpts = state.opts ?? {};
     const resumeTarget = resolveResumeTarget(state);
-    const args = buildGeminiArgs(startOpts, prompt, mode, resumeTarget);
+    const cwd = startOpts.workingDirectory ?? process.cwd();
+    const { system, input: conversation } = splitSystemMessages(input);
+    const attachments = stageAttachments(conversation, cwd);
+    const instructions = startOpts.systemPrompt ? writeSystemInstructions(startOpts.systemPrompt) : undefined;
+    const contextText = joinInstructions(startOpts.appendSystemPrompt, system);
+    const context = contextText ? writeRunContext(contextText, toGeminiSettings(startOpts)) : undefined;
+    const settingsPath = context?.settingsPath ?? state.settingsPath;
+    const prompt = applyOutputSchemaPrompt(attachments.input, opts?.outputSchema);
+    const directories = [...attachmentDirectories(attachments.input, cwd), ...(context ? [context.dir] : [])];
+    const args = buildGeminiArgs(startOpts, prompt, mode, resumeTarget, directories);
     const child = spawn(geminiPath(startOpts.geminiBinaryPath), args, {
       cwd: startOpts.workingDirectory,
-      env: { ...process.env, ...(opts?.extraEnv ?? {}) },
+      env: {
+        ...process.env,
+        ...(settingsPath ? { GEMINI_CLI_SYSTEM_DEFAULTS_PATH: settingsPath } : {}),
+        ...(instructions ? { GEMINI_SYSTEM_MD: instructions.path } : {}),
+        ...(opts?.extraEnv ?? {}),
+      },
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
@@ -498,6 +866,7 @@ export class GeminiAdapter implements HeadlessCoder {
       abortController,
       stopExternal,
       aborted: false,
+      budget: createBudgetMonitor(opts?.budget, CODER_NAME, error => this.abortChild(state, error.message)),
     };
     state.currentRun = active;
 
@@ -514,6 +883,10 @@ export class GeminiAdapter implements HeadlessCoder {
         closeHandler?: () => void,
       ) => {
         stopExternal();
+        active.budget.stop();
+        attachments.cleanup();
+        instructions?.cleanup();
+        context?.cleanup();
         this.clearKillTimers(active);
         if (lineHandler && rl) {
           rl.off('line', lineHandler);
@@ -534,27 +907,61 @@ export class GeminiAdapter implements HeadlessCoder {
     };
   }
 
+  /**
+   * Consults `onPermissionRequest`, behind `policy`, about a streamed tool call. The CLI runs
+   * tools without asking, so a denial interrupts the run.
+   *
+   * Args:
+   *   state: Thread state holding the handler and the active run.
+   *   event: Normalised stream event; only `tool_use` events are checked.
+   *
+   * Returns:
+   *   Async generator yielding the `permission` event, if any.
+   */
+  private async *checkPermission(state: GeminiThreadState, event: CoderStreamEvent): AsyncGenerator<CoderStreamEvent> {
+    const { onPermissionRequest, policy, workingDirectory } = state.opts;
+    const handler = applyToolPolicy(onPermissionRequest, policy, workingDirectory, classifyGeminiTool);
+    if (!handler || event.type !== 'tool_use') return;
+    const request: PermissionRequest = {
+      provider: CODER_NAME,
+      tool: event.name,
+      args: event.args ?? undefined,
+      callId: event.callId,
+      originalItem: event.originalItem,
+    };
+    const permission = await requestPermission(handler, request);
+    yield createPermissionEvent(request, permission);
+    if (!permission.allow) {
+      this.abortChild(state, describeDenial(request, permission));
+    }
+  }
+
   private abortChild(state: GeminiThreadState, reason?: string): void {
     const active = state.currentRun;
     if (!active || active.aborted) return;
     active.aborted = true;
     active.abortReason = reason ?? 'Interrupted';
+    if (!active.abortController.signal.aborted) {
+      active.abortController.abort(active.abortReason);
+    }
+    const child = active.child;
+    if (!child) return;
     try {
-      active.child.stdin?.end();
+      child.stdin?.end();
     } catch {
       // ignore
     }
     if (!active.softKillTimer) {
       active.softKillTimer = setTimeout(() => {
-        if (!active.child.killed) {
-          active.child.kill('SIGTERM');
+        if (!child.killed) {
+          child.kill('SIGTERM');
         }
       }, SOFT_KILL_DELAY_MS);
     }
     if (!active.hardKillTimer) {
       active.hardKillTimer = setTimeout(() => {
-        if (!active.child.killed) {
-          active.child.kill('SIGKILL');
+        if (!child.killed) {
+          child.kill('SIGKILL');
         }
       }, HARD_KILL_DELAY_MS);
     }
@@ -578,7 +985,101 @@ export class GeminiAdapter implements HeadlessCoder {
   }
 }
 
-function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
+/**
+ * Maps Gemini CLI stats onto `UsageStats`.
+ *
+ * Args:
+ *   stats: Either the flat `result.stats` of stream-json output or the per-model
+ *     `stats` object of buffered JSON output.
+ *   metrics: Tool calls and start time tracked for the current run.
+ *
+ * Returns:
+ *   Normalised usage, or undefined when the CLI reported no stats.
+ */
+function normalizeGeminiStats(stats: any, metrics: GeminiRunMetrics): UsageStats | undefined {
+  if (!stats) return undefined;
+  const durationMs = stats.duration_ms ?? Date.now() - metrics.startedAt;
+  if (!stats.models) {
+    return createUsageStats({
+      inputTokens: stats.input_tokens,
+      cachedInputTokens: stats.cached_input_tokens ?? stats.cached,
+      outputTokens: stats.output_tokens,
+      totalTokens: stats.total_tokens,
+      toolCalls: stats.tool_calls ?? metrics.toolCalls,
+      durationMs,
+      raw: stats,
+    });
+  }
+  const models = Object.keys(stats.models);
+  const sum = (field: string): number | undefined => {
+    const values = models
+      .map(model => stats.models[model]?.tokens?.[field])
+      .filter((value): value is number => typeof value === 'number');
+    return values.length ? values.reduce((total, value) => total + value, 0) : undefined;
+  };
+  const candidates = sum('candidates');
+  const thoughts = sum('thoughts');
+  return createUsageStats({
+    inputTokens: sum('prompt'),
+    cachedInputTokens: sum('cached'),
+    // Gemini counts thinking tokens separately from candidate tokens.
+    outputTokens: candidates === undefined && thoughts === undefined ? undefined : (candidates ?? 0) + (thoughts ?? 0),
+    reasoningTokens: thoughts,
+    totalTokens: sum('total'),
+    toolCalls: stats.tools?.totalCalls ?? metrics.toolCalls,
+    durationMs,
+    model: models.length === 1 ? models[0] : undefined,
+    raw: stats,
+  });
+}
+
+/**
+ * Maps Gemini CLI built-in tools to the actions a `ToolPolicy` rules on.
+ *
+ * Args:
+ *   request: Permission request built from a `tool_use` event.
+ *
+ * Returns:
+ *   Actions of the call; unknown tools fall back to `inferToolActions`.
+ */
+function classifyGeminiTool(request: PermissionRequest): ToolAction[] {
+  const args: any = request.args ?? {};
+  const file = args.file_path ?? args.absolute_path ?? args.path;
+  switch (request.tool) {
+    case 'run_shell_command':
+      return [{ kind: 'command', command: String(args.command ?? '') }];
+    case 'read_file':
+    case 'list_directory':
+    case 'glob':
+    case 'search_file_content':
+      return [{ kind: 'read', path: String(file ?? '.') }];
+    case 'read_many_files':
+      return (args.paths ?? []).map((entry: unknown) => ({ kind: 'read', path: String(entry) }));
+    case 'write_file':
+    case 'replace':
+      return [{ kind: 'write', path: String(file) }];
+    case 'web_fetch':
+      return [{ kind: 'network', target: args.url ?? args.prompt }];
+    case 'google_web_search':
+      return [{ kind: 'network', target: args.query }];
+    default:
+      return inferToolActions(request);
+  }
+}
+
+/**
+ * Maps a stream-json event onto the shared stream events.
+ *
+ * Args:
+ *   event: Parsed stream-json line.
+ *   metrics: Metrics of the current run.
+ *   tools: Open tool calls of the run. The CLI may omit tool ids, and its results do not
+ *     repeat the tool name.
+ *
+ * Returns:
+ *   Normalised events.
+ */
+function normalizeGeminiEvent(event: any, metrics: GeminiRunMetrics, tools: ToolCallRegistry): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const ev = event ?? {};
@@ -607,28 +1108,29 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
           originalItem: ev,
         },
       ];
-    case 'tool_use':
+    case 'tool_use': {
+      const name = ev.tool_name ?? ev.name ?? 'tool';
       return [
         {
           type: 'tool_use',
           provider,
-          name: ev.tool_name ?? ev.name ?? 'tool',
-          callId: ev.tool_id ?? ev.call_id ?? ev.id ?? null,
+          name,
+          callId: tools.start(name, ev.tool_id ?? ev.call_id ?? ev.id),
           args: ev.parameters ?? ev.args ?? ev.input ?? null,
           ts,
           originalItem: ev,
         },
       ];
+    }
     case 'tool_result':
       return [
         {
           type: 'tool_result',
           provider,
-          name: ev.tool_name ?? ev.name ?? 'tool',
-          callId: ev.tool_id ?? ev.call_id ?? ev.id ?? null,
+          ...tools.finish(ev.tool_name ?? ev.name, ev.tool_id ?? ev.call_id ?? ev.id),
           result: ev.output ?? ev.result ?? ev.response ?? null,
           exitCode: ev.exit_code ?? ev.status ?? null,
-          error: ev.error ?? null,
+          error: ev.error ?? (ev.status === 'error' ? 'Tool call failed' : null),
           ts,
           originalItem: ev,
         },
@@ -638,6 +1140,7 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
         {
           type: 'error',
           provider,
+          code: classifyError(ev.message ?? ''),
           message: ev.message ?? 'gemini error',
           ts,
           originalItem: ev,
@@ -646,7 +1149,7 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
     case 'result': {
       const out: CoderStreamEvent[] = [];
       if (ev.stats) {
-        out.push({ type: 'usage', provider, stats: ev.stats, ts, originalItem: ev });
+        out.push({ type: 'usage', provider, stats: normalizeGeminiStats(ev.stats, metrics), ts, originalItem: ev });
       }
       out.push({ type: 'done', provider, ts, originalItem: ev });
       return out;
@@ -664,16 +1167,101 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
   }
 }
 
+/**
+ * Translates MCP servers into the `mcpServers` block of Gemini CLI settings.
+ *
+ * Args:
+ *   servers: Provider-neutral server definitions.
+ *
+ * Returns:
+ *   Settings object with the servers in Gemini's format.
+ */
+export function toGeminiMcpSettings(servers: Record<string, McpServerConfig>): { mcpServers: Record<string, unknown> } {
+  const mcpServers: Record<string, unknown> = {};
+  for (const [name, server] of Object.entries(servers)) {
+    if (isMcpStdioServer(server)) {
+      mcpServers[name] = { command: server.command, args: server.args, env: server.env };
+    } else if (server.type === 'http') {
+      mcpServers[name] = { httpUrl: server.url, headers: server.headers };
+    } else {
+      mcpServers[name] = { url: server.url, headers: server.headers };
+    }
+  }
+  return { mcpServers };
+}
+
+/**
+ * Translates the parts of a tool policy Gemini CLI can enforce itself into the `tools` block
+ * of its settings: denied command prefixes (`git push*`) and tools the policy blocks outright.
+ * Everything else is still checked per tool call.
+ *
+ * Args:
+ *   policy: Provider-neutral tool policy.
+ *
+ * Returns:
+ *   Settings object with `tools.exclude`, or an empty object when nothing translates.
+ */
+export function toGeminiToolSettings(policy: ToolPolicy): { tools?: { exclude: string[] } } {
+  const exclude: string[] = [];
+  if (policy.commands?.allow?.length === 0) {
+    exclude.push('run_shell_command');
+  } else {
+    for (const pattern of policy.commands?.deny ?? []) {
+      const prefix = pattern.trim().replace(/\*+$/, '').trim();
+      if (pattern.trim().endsWith('*') && prefix && !prefix.includes('*')) {
+        exclude.push(`run_shell_command(${prefix})`);
+      }
+    }
+  }
+  if (policy.write?.allow?.length === 0) exclude.push('write_file', 'replace');
+  if (policy.network === false) exclude.push('web_fetch', 'google_web_search');
+  return exclude.length ? { tools: { exclude } } : {};
+}
+
+function toGeminiSettings(opts: StartOpts): Record<string, unknown> {
+  return {
+    ...(opts.mcpServers && Object.keys(opts.mcpServers).length ? toGeminiMcpSettings(opts.mcpServers) : {}),
+    ...(opts.policy ? toGeminiToolSettings(opts.policy) : {}),
+  };
+}
+
+/**
+ * Writes the thread's MCP servers and policy exclusions to a settings file the CLI loads as
+ * its system defaults (`GEMINI_CLI_SYSTEM_DEFAULTS_PATH`), leaving user and workspace
+ * settings untouched.
+ *
+ * Args:
+ *   opts: Merged start options.
+ *
+ * Returns:
+ *   Path of the settings file, or undefined when there is nothing to write or runs are replayed.
+ *
+ * Raises:
+ *   Error: When `mcpServers` is invalid.
+ */
+async function writeGeminiSettings(opts: StartOpts): Promise<string | undefined> {
+  validateMcpServers(opts.mcpServers, CODER_NAME);
+  if (opts.cassette?.mode === 'replay') return undefined;
+  const settings = toGeminiSettings(opts);
+  if (!Object.keys(settings).length) return undefined;
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-gemini-'));
+  const settingsPath = path.join(dir, 'settings.json');
+  await writeFile(settingsPath, JSON.stringify(settings, null, 2), 'utf8');
+  return settingsPath;
+}
+
 function buildGeminiArgs(
   opts: StartOpts,
   prompt: string,
   format: 'json' | 'stream-json',
   resumeTarget?: string,
+  attachmentDirectories: string[] = [],
 ): string[] {
   const args = ['--output-format', format, '--prompt', prompt];
   if (opts.model) args.push('--model', opts.model);
-  if (opts.includeDirectories?.length) {
-    args.push('--include-directories', opts.includeDirectories.join(','));
+  const includeDirectories = [...(opts.includeDirectories ?? []), ...attachmentDirectories];
+  if (includeDirectories.length) {
+    args.push('--include-directories', includeDirectories.join(','));
   }
   if (opts.yolo) args.push('--yolo');
   if (resumeTarget) {
@@ -726,10 +1314,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function reasonToString(reason: unknown): string | undefined {
@@ -749,6 +1334,34 @@ function interruptedErrorEvent(reason?: string): CoderStreamEvent {
   };
 }
 
+/**
+ * Feeds a `run()` result's usage to the run's budget.
+ *
+ * Args:
+ *   budget: Budget monitor of the run.
+ *   result: Parsed run result.
+ *
+ * Returns:
+ *   The result, when its usage stays within the token and cost limits.
+ *
+ * Raises:
+ *   BudgetExceededError: When the final usage crosses a limit.
+ */
+function enforceUsageBudget(budget: BudgetMonitor, result: RunResult): RunResult {
+  if (result.usage) budget.setUsage(result.usage);
+  if (budget.exceeded) throw budget.exceeded;
+  return result;
+}
+
+/**
+ * Returns the error event for an aborted run: `budget_exceeded` when a budget stopped
+ * it, `interrupted` otherwise.
+ */
+function interruptionErrorEvent(active: ActiveRun, reason: string): CoderStreamEvent {
+  const exceeded = active.budget.exceeded;
+  return exceeded ? createBudgetExceededEvent(CODER_NAME, exceeded) : interruptedErrorEvent(reason);
+}
+
 function destroyChildStreams(child: ChildProcess): void {
   destroyReadable(child.stdout);
   destroyReadable(child.stderr);
@@ -0,0 +1,539 @@
+/**
+ * @fileoverview Deterministic mock adapter that replays scripted stream events so
+ * HeadlessCoder consumers can be exercised offline without a provider CLI.
+ */
+
+import { readFileSync } from 'node:fs';
+import {
+  now,
+  registerAdapter,
+  getAdapterFactory,
+  createCoder,
+  normalizeRunOpts,
+  createBudgetMonitor,
+  createBudgetExceededEvent,
+  requestPermission,
+  createPermissionEvent,
+  describeDenial,
+  applyToolPolicy,
+  InterruptedError,
+  isCoderErrorCode,
+  createCoderError,
+  toCoderError,
+  ToolCallRegistry,
+} from '@headless-coder-sdk/core';
+import type {
+  AdapterFactory,
+  BudgetMonitor,
+  AdapterName,
+  HeadlessCoder,
+  ThreadHandle,
+  PromptInput,
+  StartOpts,
+  RunOpts,
+  RunResult,
+  CoderStreamEvent,
+  EventIterator,
+  PermissionRequest,
+  TypedHeadlessCoder,
+} from '@headless-coder-sdk/core';
+
+export const CODER_NAME: AdapterName = 'mock';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Stream event emitted verbatim by the mock adapter. `provider` and `ts` are filled in
+ * during playback, so fixtures only describe the payload.
+ */
+export type MockEventStep = DistributiveOmit<CoderStreamEvent, 'provider' | 'ts'> & { ts?: number };
+
+/**
+ * Single scripted step: an event to emit, a pause, or a thrown adapter failure.
+ */
+export type MockStep =
+  | MockEventStep
+  | { type: 'delay'; ms: number }
+  | { type: 'throw'; message: string; code?: string };
+
+/**
+ * Scripted response for one `run`/`runStreamed` call.
+ */
+export interface MockTurn {
+  events: MockStep[];
+  /** Overrides the text returned by `run()`; defaults to the assistant messages. */
+  text?: string;
+  /** Structured payload returned by `run()` when an `outputSchema` is supplied. */
+  json?: unknown;
+}
+
+/**
+ * Complete script consumed turn-by-turn by each mock thread.
+ */
+export interface MockScript {
+  /** Identifier assigned to new threads; defaults to `mock-thread-<n>`. */
+  threadId?: string;
+  turns: MockTurn[];
+}
+
+/**
+ * Start options understood by the mock adapter in addition to the shared ones.
+ */
+export interface MockStartOpts extends StartOpts {
+  /** Inline script, or just its turns. */
+  script?: MockScript | MockTurn[];
+  /** JSON fixture file containing a `MockScript` (or an array of turns). */
+  fixturePath?: string;
+}
+
+export function createAdapter(defaults?: MockStartOpts): HeadlessCoder {
+  return new MockAdapter(defaults);
+}
+(createAdapter as AdapterFactory).coderName = CODER_NAME;
+(createAdapter as AdapterFactory).normalizeRunResult = normalizeMockRunResult;
+
+export function createHeadlessMock(defaults?: MockStartOpts): TypedHeadlessCoder {
+  if (!getAdapterFactory(CODER_NAME)) {
+    registerAdapter(createAdapter as AdapterFactory);
+  }
+  return createCoder(CODER_NAME, defaults);
+}
+
+interface MockSession {
+  id: string;
+  script: MockScript;
+  turnIndex: number;
+  prompts: PromptInput[];
+}
+
+interface MockThreadState {
+  session: MockSession;
+  opts: MockStartOpts;
+  currentRun?: ActiveRun | null;
+}
+
+interface ActiveRun {
+  abortController: AbortController;
+  stopExternal: () => void;
+  aborted: boolean;
+  abortReason?: string;
+  budget?: BudgetMonitor;
+}
+
+const sessions = new Map<string, MockSession>();
+let threadCounter = 0;
+
+/**
+ * Forgets every mock session so resumed thread ids start from a clean slate.
+ */
+export function resetMockSessions(): void {
+  sessions.clear();
+  threadCounter = 0;
+}
+
+/**
+ * Loads the script from inline options or a fixture file.
+ *
+ * Args:
+ *   opts: Merged start options.
+ *
+ * Returns:
+ *   Script with at least an empty turn list.
+ */
+function resolveScript(opts: MockStartOpts): MockScript {
+  const source = opts.script ?? (opts.fixturePath ? JSON.parse(readFileSync(opts.fixturePath, 'utf8')) : undefined);
+  if (!source) {
+    return { turns: [] };
+  }
+  return Array.isArray(source) ? { turns: source } : source;
+}
+
+/**
+ * Adapter that replays `MockScript` turns through the HeadlessCoder contract.
+ *
+ * Args:
+ *   defaultOpts: Options applied to every thread when omitted by the caller.
+ */
+export class MockAdapter implements HeadlessCoder {
+  /**
+   * Creates a new mock adapter instance.
+   *
+   * Args:
+   *   defaultOpts: Options applied to every thread when omitted by the caller.
+   */
+  constructor(private readonly defaultOpts?: MockStartOpts) {}
+
+  /**
+   * Starts a scripted session, honouring `opts.resume` like the real adapters.
+   *
+   * Args:
+   *   opts: Optional overrides for the session.
+   *
+   * Returns:
+   *   Thread handle bound to a fresh mock session.
+   */
+  async startThread(opts?: MockStartOpts): Promise<ThreadHandle> {
+    const options: MockStartOpts = { ...this.defaultOpts, ...opts };
+    if (options.resume) {
+      return this.resumeThread(options.resume, options);
+    }
+    const script = resolveScript(options);
+    const id = script.threadId ?? `mock-thread-${++threadCounter}`;
+    const session: MockSession = { id, script, turnIndex: 0, prompts: [] };
+    sessions.set(id, session);
+    return this.createThreadHandle({ session, opts: options });
+  }
+
+  /**
+   * Reattaches to a session created earlier in this process, continuing its script.
+   *
+   * Args:
+   *   threadId: Identifier returned by a previous thread.
+   *   opts: Optional overrides; a new script is only used for unknown ids.
+   *
+   * Returns:
+   *   Thread handle that continues from the session's next turn.
+   */
+  async resumeThread(threadId: string, opts?: MockStartOpts): Promise<ThreadHandle> {
+    const options: MockStartOpts = { ...this.defaultOpts, ...opts, resume: threadId };
+    let session = sessions.get(threadId);
+    if (!session) {
+      session = { id: threadId, script: resolveScript(options), turnIndex: 0, prompts: [] };
+      sessions.set(threadId, session);
+    }
+    return this.createThreadHandle({ session, opts: options });
+  }
+
+  /**
+   * Returns the mock session identifier.
+   *
+   * Args:
+   *   thread: Thread handle.
+   *
+   * Returns:
+   *   Session identifier.
+   */
+  getThreadId(thread: ThreadHandle): string | undefined {
+    const state = thread.internal as MockThreadState;
+    return state.session.id;
+  }
+
+  /**
+   * Plays the next turn to completion and assembles a run result.
+   *
+   * Args:
+   *   handle: Thread handle.
+   *   input: Prompt payload (recorded, never interpreted).
+   *   opts: Run-level options.
+   *
+   * Returns:
+   *   Run result built from the scripted events.
+   *
+   * Raises:
+   *   CoderError: When the turn scripts an `error` event or a `throw` step, or is interrupted.
+   *   BudgetExceededError: When the turn crosses a `RunOpts.budget` limit.
+   */
+  private async runInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): Promise<RunResult> {
+    const state = handle.internal as MockThreadState;
+    this.assertIdle(state);
+    const active = this.registerRun(state, opts);
+    const events: CoderStreamEvent[] = [];
+    let turn: MockTurn;
+    try {
+      turn = this.takeTurn(state, input);
+      for await (const event of this.play(state, active, turn)) {
+        events.push(event);
+        if (event.type === 'error') {
+          throw createScriptedError(event.message, event.code);
+        }
+      }
+    } finally {
+      this.cleanupRun(state, active);
+    }
+    if (active.budget?.exceeded) {
+      throw active.budget.exceeded;
+    }
+    if (active.aborted) {
+      throw createAbortError(active.abortReason);
+    }
+    const text = turn.text ?? collectAssistantText(events);
+    const usageEvent = [...events].reverse().find(event => event.type === 'usage');
+    const usage = usageEvent?.type === 'usage' ? usageEvent.stats : undefined;
+    const json = opts?.outputSchema ? turn.json ?? extractJsonPayload(text) : undefined;
+    return {
+      threadId: state.session.id,
+      text: text || undefined,
+      json,
+      usage,
+      raw: { turn, events },
+    };
+  }
+
+  /**
+   * Streams the next scripted turn as normalised events.
+   *
+   * Args:
+   *   handle: Thread handle.
+   *   input: Prompt payload (recorded, never interpreted).
+   *   opts: Run-level options.
+   *
+   * Returns:
+   *   Async iterator over the scripted events.
+   */
+  private runStreamedInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): EventIterator {
+    const state = handle.internal as MockThreadState;
+    this.assertIdle(state);
+    const active = this.registerRun(state, opts);
+    const adapter = this;
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        let completed = false;
+        try {
+          const turn = adapter.takeTurn(state, input);
+          for await (const event of adapter.play(state, active, turn)) {
+            yield event;
+            if (event.type === 'error') break;
+          }
+          completed = true;
+          if (active.budget?.exceeded) {
+            const reason = active.abortReason ?? active.budget.exceeded.message;
+            yield { type: 'cancelled', provider: CODER_NAME, ts: now(), originalItem: { reason } };
+            yield createBudgetExceededEvent(CODER_NAME, active.budget.exceeded);
+          } else if (active.aborted) {
+            const reason = active.abortReason ?? 'Interrupted';
+            yield { type: 'cancelled', provider: CODER_NAME, ts: now(), originalItem: { reason } };
+            yield {
+              type: 'error',
+              provider: CODER_NAME,
+              code: 'interrupted',
+              message: reason,
+              ts: now(),
+              originalItem: { reason },
+            };
+          }
+        } finally {
+          if (!completed && !active.aborted) {
+            adapter.abortCurrentRun(state, 'Stream closed');
+          }
+          adapter.cleanupRun(state, active);
+        }
+      },
+    };
+  }
+
+  /**
+   * Emits the turn's scripted events, stopping early once the run is aborted.
+   *
+   * Args:
+   *   state: Thread state.
+   *   active: Active run bookkeeping.
+   *   turn: Turn being replayed.
+   *
+   * Returns:
+   *   Async generator of stream events; appends `done` when the script has no terminal event.
+   *   Scripted `tool_use` events are checked against `policy` and put to `onPermissionRequest`;
+   *   a denial interrupts the run. Tool calls scripted without a `callId` get one, which their
+   *   results pick up by tool name.
+   */
+  private async *play(state: MockThreadState, active: ActiveRun, turn: MockTurn): AsyncGenerator<CoderStreamEvent> {
+    let terminated = false;
+    const tools = new ToolCallRegistry(CODER_NAME);
+    for (const step of turn.events) {
+      if (active.aborted) return;
+      if (step.type === 'delay') {
+        await sleep(step.ms, active.abortController.signal);
+        continue;
+      }
+      if (step.type === 'throw') {
+        throw createScriptedError(step.message, step.code);
+      }
+      const event = {
+        ...step,
+        provider: CODER_NAME,
+        ts: step.ts ?? now(),
+        originalItem: step.originalItem ?? step,
+      } as CoderStreamEvent;
+      if (event.type === 'init' && !event.threadId) {
+        event.threadId = state.session.id;
+      } else if (event.type === 'tool_use') {
+        event.callId = tools.start(event.name, event.callId);
+      } else if (event.type === 'tool_result') {
+        Object.assign(event, tools.finish(event.name, event.callId));
+      }
+      if (event.type === 'done' || event.type === 'cancelled' || event.type === 'error') {
+        terminated = true;
+      }
+      yield event;
+      if (terminated) return;
+      if (event.type === 'tool_use') {
+        active.budget?.countToolCall();
+        yield* this.checkPermission(state, event);
+      } else if (event.type === 'usage' && event.stats) {
+        active.budget?.setUsage(event.stats);
+      }
+    }
+    if (!active.aborted) {
+      yield { type: 'done', provider: CODER_NAME, ts: now(), originalItem: { reason: 'completed' } };
+    }
+  }
+
+  private async *checkPermission(
+    state: MockThreadState,
+    event: Extract<CoderStreamEvent, { type: 'tool_use' }>,
+  ): AsyncGenerator<CoderStreamEvent> {
+    const { onPermissionRequest, policy, workingDirectory } = state.opts;
+    const handler = applyToolPolicy(onPermissionRequest, policy, workingDirectory);
+    if (!handler) return;
+    const request: PermissionRequest = {
+      provider: CODER_NAME,
+      tool: event.name,
+      args: event.args,
+      callId: event.callId,
+      originalItem: event.originalItem,
+    };
+    const permission = await requestPermission(handler, request);
+    yield createPermissionEvent(request, permission);
+    if (!permission.allow) {
+      this.abortCurrentRun(state, describeDenial(request, permission));
+    }
+  }
+
+  private takeTurn(state: MockThreadState, input: PromptInput): MockTurn {
+    const { session } = state;
+    const turn = session.script.turns[session.turnIndex];
+    if (!turn) {
+      throw new Error(`Mock script for thread ${session.id} has no turn #${session.turnIndex + 1}.`);
+    }
+    session.turnIndex += 1;
+    session.prompts.push(input);
+    return turn;
+  }
+
+  private createThreadHandle(state: MockThreadState): ThreadHandle {
+    const handle: ThreadHandle = {
+      provider: CODER_NAME,
+      id: state.session.id,
+      internal: state,
+      run: (input, opts) => this.runInternal(handle, input, normalizeRunOpts(opts)),
+      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, normalizeRunOpts(opts)),
+      interrupt: async reason => {
+        this.abortCurrentRun(state, reason ?? 'Interrupted');
+      },
+    };
+    return handle;
+  }
+
+  private registerRun(state: MockThreadState, opts?: RunOpts): ActiveRun {
+    const active: ActiveRun = { abortController: new AbortController(), stopExternal: () => {}, aborted: false };
+    // Registered before linking, so an already aborted signal finds the run to abort.
+    state.currentRun = active;
+    active.stopExternal = linkSignal(opts?.signal, reason => this.abortCurrentRun(state, reason ?? 'Interrupted'));
+    active.budget = createBudgetMonitor(opts?.budget, CODER_NAME, error => this.abortCurrentRun(state, error.message));
+    return active;
+  }
+
+  private cleanupRun(state: MockThreadState, active: ActiveRun): void {
+    active.stopExternal();
+    active.budget?.stop();
+    if (state.currentRun === active) {
+      state.currentRun = null;
+    }
+  }
+
+  private abortCurrentRun(state: MockThreadState, reason?: string): void {
+    const active = state.currentRun;
+    if (!active || active.aborted) return;
+    active.aborted = true;
+    active.abortReason = reason ?? 'Interrupted';
+    active.abortController.abort(active.abortReason);
+  }
+
+  private assertIdle(state: MockThreadState): void {
+    if (state.currentRun) {
+      throw new Error('Mock adapter only supports one in-flight run per thread.');
+    }
+  }
+}
+
+/**
+ * Returns the events a `run()` call played, which the mock keeps in `RunResult.raw`.
+ *
+ * Args:
+ *   result: Result returned by `run()`.
+ *
+ * Returns:
+ *   The played events, or undefined when `raw` is not a mock payload.
+ */
+function normalizeMockRunResult(result: RunResult): CoderStreamEvent[] | undefined {
+  const events = (result.raw as { events?: unknown } | undefined)?.events;
+  return Array.isArray(events) ? (events as CoderStreamEvent[]) : undefined;
+}
+
+function collectAssistantText(events: CoderStreamEvent[]): string {
+  let complete = '';
+  let deltas = '';
+  for (const event of events) {
+    if (event.type !== 'message' || event.role !== 'assistant') continue;
+    if (event.delta) {
+      deltas += event.text ?? '';
+    } else {
+      complete = event.text ?? '';
+    }
+  }
+  return complete || deltas;
+}
+
+function extractJsonPayload(text: string | undefined): unknown | undefined {
+  if (!text) return undefined;
+  const fenced = text.match(/```json\s*([\s\S]+?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end === -1 || end < start) return undefined;
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.resolve();
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string) => void): () => void {
+  if (!signal) return () => {};
+  const handler = () => onAbort(reasonToString(signal.reason));
+  if (signal.aborted) {
+    handler();
+    return () => {};
+  }
+  signal.addEventListener('abort', handler, { once: true });
+  return () => signal.removeEventListener('abort', handler);
+}
+
+function createScriptedError(message: string, code?: string): Error {
+  if (!code) return toCoderError(new Error(message), CODER_NAME);
+  if (!isCoderErrorCode(code)) return Object.assign(new Error(message), { code });
+  return createCoderError(code === 'budget_exceeded' ? 'provider_crash' : code, message, { provider: CODER_NAME });
+}
+
+function createAbortError(reason?: string): Error {
+  return new InterruptedError(reason, { provider: CODER_NAME });
+}
+
+function reasonToString(reason: unknown): string | undefined {
+  if (typeof reason === 'string') return reason;
+  if (reason instanceof Error && reason.message) return reason.message;
+  return undefined;
+}
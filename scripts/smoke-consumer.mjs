@@ -13,6 +13,7 @@ const packages = [
   { name: '@headless-coder-sdk/codex-adapter', dir: 'packages/codex-adapter' },
   { name: '@headless-coder-sdk/claude-adapter', dir: 'packages/claude-adapter' },
   { name: '@headless-coder-sdk/gemini-adapter', dir: 'packages/gemini-adapter' },
+  { name: '@headless-coder-sdk/mock-adapter', dir: 'packages/mock-adapter' },
 ];
 
 function run(command, args, { cwd = rootDir, capture = false } = {}) {
@@ -54,6 +55,7 @@ const core = require('@headless-coder-sdk/core');
 const codex = require('@headless-coder-sdk/codex-adapter');
 const claude = require('@headless-coder-sdk/claude-adapter');
 const gemini = require('@headless-coder-sdk/gemini-adapter');
+const mock = require('@headless-coder-sdk/mock-adapter');
 
 assert.equal(typeof core.createCoder, 'function');
 assert.equal(typeof codex.createAdapter, 'function');
@@ -62,6 +64,7 @@ assert.equal(typeof gemini.createAdapter, 'function');
 assert.equal(typeof codex.createHeadlessCodex, 'function');
 assert.equal(typeof claude.createHeadlessClaude, 'function');
 assert.equal(typeof gemini.createHeadlessGemini, 'function');
+assert.equal(typeof mock.createHeadlessMock, 'function');
 
 console.log('[smoke] CommonJS imports succeeded');
 `.trimStart();
@@ -72,6 +75,7 @@ import { clearRegisteredAdapters } from '@headless-coder-sdk/core';
 import { createHeadlessCodex } from '@headless-coder-sdk/codex-adapter';
 import { createHeadlessClaude } from '@headless-coder-sdk/claude-adapter';
 import { createHeadlessGemini } from '@headless-coder-sdk/gemini-adapter';
+import { createHeadlessMock } from '@headless-coder-sdk/mock-adapter';
 
 const codex = createHeadlessCodex();
 assert.equal(typeof codex.startThread, 'function');
@@ -85,6 +89,11 @@ const gemini = createHeadlessGemini({ workingDirectory: process.cwd() });
 assert.equal(typeof gemini.startThread, 'function');
 clearRegisteredAdapters();
 
+const mock = createHeadlessMock({ script: [{ events: [{ type: 'message', role: 'assistant', text: 'ok' }] }] });
+const mockThread = await mock.startThread();
+assert.equal((await mockThread.run('ping')).text, 'ok');
+clearRegisteredAdapters();
+
 console.log('[smoke] ESM imports succeeded');
 `.trimStart();
 